@@ -0,0 +1,277 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { Tar, Untar } from "./tar.ts";
+import { walk } from "../fs/walk.ts";
+import { ensureDir } from "../fs/ensure_dir.ts";
+import { dirname, join, posix, relative, SEP } from "../path/mod.ts";
+import { isWindows } from "../_util/os.ts";
+
+export interface PackDirectoryOptions {
+  /**
+   * only pack the entries whose path, relative to the packed directory and
+   * slash separated, matches one of the patterns
+   */
+  match?: RegExp[];
+  /**
+   * skip the entries whose path, relative to the packed directory and slash
+   * separated, matches one of the patterns
+   */
+  skip?: RegExp[];
+}
+
+export interface UnpackToDirectoryOptions {
+  /**
+   * only unpack the entries whose path, after stripping the leading
+   * components, matches one of the patterns
+   */
+  match?: RegExp[];
+  /**
+   * skip the entries whose path, after stripping the leading components,
+   * matches one of the patterns
+   */
+  skip?: RegExp[];
+  /**
+   * number of leading path components removed from the entry names. Entries
+   * with fewer components are skipped. Default is `0`
+   */
+  stripComponents?: number;
+}
+
+function include(path: string, match?: RegExp[], skip?: RegExp[]): boolean {
+  if (match && !match.some((pattern): boolean => pattern.test(path))) {
+    return false;
+  }
+  if (skip && skip.some((pattern): boolean => pattern.test(path))) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Pack the contents of the directory `dir` into a tar archive written to
+ * `writer`. Files, directories and symlinks are packed with their modes and
+ * modification times, using paths relative to `dir`. Symlinks are not
+ * followed.
+ * Requires the `--allow-read` flag.
+ *
+ *       const file = await Deno.open("./out.tar", { write: true, create: true });
+ *       await packDirectory("./dist", file, { skip: [/\.map$/] });
+ *       file.close();
+ */
+export async function packDirectory(
+  dir: string,
+  writer: Deno.Writer,
+  { match, skip }: PackDirectoryOptions = {},
+) {
+  const tar = new Tar();
+
+  const appendEntry = async (path: string) => {
+    const name = relative(dir, path).split(SEP).join("/");
+    if (name === "" || !include(name, match, skip)) return;
+
+    const info = await Deno.lstat(path);
+    const options = {
+      fileMode: info.mode !== null ? info.mode & 0o7777 : undefined,
+      mtime: info.mtime ? info.mtime.valueOf() / 1000 : undefined,
+    };
+    if (info.isSymlink) {
+      await tar.append(name, {
+        ...options,
+        type: "symlink",
+        linkName: (await Deno.readLink(path)).split(SEP).join("/"),
+      });
+    } else if (info.isDirectory) {
+      await tar.append(`${name}/`, { ...options, type: "directory" });
+    } else if (info.isFile) {
+      await tar.append(name, { ...options, filePath: path });
+    }
+  };
+
+  for await (const entry of walk(dir)) {
+    await appendEntry(entry.path);
+    if (entry.isDirectory) {
+      // walk() doesn't yield symlinks when they are not followed
+      for await (const child of Deno.readDir(entry.path)) {
+        if (child.isSymlink) {
+          await appendEntry(join(entry.path, child.name));
+        }
+      }
+    }
+  }
+
+  await Deno.copy(tar.getReader(), writer);
+}
+
+/**
+ * Split an archive path into its components, refusing absolute paths and
+ * parent directory references
+ */
+function safeComponents(path: string): string[] {
+  if (
+    path.startsWith("/") || path.startsWith("\\") || /^[a-zA-Z]:/.test(path)
+  ) {
+    throw new Error(`Refusing to unpack absolute path: "${path}"`);
+  }
+  const components = path.split(/[\\/]/).filter((c) => c !== "" && c !== ".");
+  if (components.includes("..")) {
+    throw new Error(`Refusing to unpack path outside of directory: "${path}"`);
+  }
+  return components;
+}
+
+/**
+ * Throw if a parent of `components` inside `dir` is a symlink, as writing
+ * through it could escape `dir`
+ */
+async function ensureNoSymlinkParent(dir: string, components: string[]) {
+  let path = dir;
+  for (const component of components.slice(0, -1)) {
+    path = join(path, component);
+    try {
+      if ((await Deno.lstat(path)).isSymlink) {
+        throw new Error(
+          `Refusing to unpack through symlink: "${components.join("/")}"`,
+        );
+      }
+    } catch (err) {
+      if (err instanceof Deno.errors.NotFound) return;
+      throw err;
+    }
+  }
+}
+
+/**
+ * Whether the symlink target `linkName`, of the entry at `components`, stays
+ * inside the unpacked directory. `..` is only allowed at the start of the
+ * target, where it walks up real directories since the parents of an entry
+ * are never symlinks. The rest of the target only goes down, through entries
+ * that stay inside themselves, whatever order the links are unpacked in.
+ */
+function isLinkInside(components: string[], linkName: string): boolean {
+  if (posix.isAbsolute(linkName) || /^[a-zA-Z]:/.test(linkName)) return false;
+  const parts = linkName.split(/[\\/]/).filter((c) => c !== "" && c !== ".");
+  const up = parts.findIndex((c) => c !== "..");
+  const leading = up === -1 ? parts.length : up;
+  return leading < components.length &&
+    !parts.slice(leading).includes("..");
+}
+
+/** Remove anything but a directory at `path` before replacing it */
+async function removeExisting(path: string) {
+  try {
+    const info = await Deno.lstat(path);
+    if (!info.isDirectory) {
+      await Deno.remove(path);
+    }
+  } catch (err) {
+    if (!(err instanceof Deno.errors.NotFound)) throw err;
+  }
+}
+
+/**
+ * Unpack the tar archive read from `reader` into the directory `dir`,
+ * restoring files, directories, symlinks and hard links with their modes and
+ * modification times. Other entry types are skipped.
+ * Absolute entry paths, entry paths containing `..`, symlink targets which
+ * leave `dir` or contain `..` after their first name, hard links to such
+ * symlinks from where they are unpacked, and entries below a symlink are
+ * refused with an error.
+ * Requires the `--allow-read` and `--allow-write` flag.
+ *
+ *       const file = await Deno.open("./out.tar");
+ *       await unpackToDirectory(file, "./dist", { stripComponents: 1 });
+ *       file.close();
+ */
+export async function unpackToDirectory(
+  reader: Deno.Reader,
+  dir: string,
+  { match, skip, stripComponents = 0 }: UnpackToDirectoryOptions = {},
+) {
+  await ensureDir(dir);
+  // directory metadata is applied at the end, so that read only directories
+  // can still be filled and their mtime is not updated by their contents
+  const directories: Array<{ path: string; mode?: number; mtime?: number }> =
+    [];
+
+  for await (const entry of new Untar(reader)) {
+    const components = safeComponents(entry.fileName).slice(stripComponents);
+    if (components.length === 0) continue;
+    const name = components.join("/");
+    if (!include(name, match, skip)) continue;
+
+    await ensureNoSymlinkParent(dir, components);
+    const path = join(dir, ...components);
+    await ensureDir(dirname(path));
+
+    switch (entry.type) {
+      case "directory":
+        await ensureDir(path);
+        directories.push({ path, mode: entry.fileMode, mtime: entry.mtime });
+        continue;
+      case "symlink": {
+        const linkName = entry.linkName ?? "";
+        if (!isLinkInside(components, linkName)) {
+          throw new Error(
+            `Refusing to unpack symlink outside of directory: "${name}" -> "${linkName}"`,
+          );
+        }
+        await removeExisting(path);
+        await Deno.symlink(linkName, path);
+        // the mode and mtime of the symlink target are left untouched
+        continue;
+      }
+      case "link": {
+        const target = safeComponents(entry.linkName ?? "")
+          .slice(stripComponents);
+        if (target.length === 0) {
+          throw new Error(`Invalid hard link target for "${name}"`);
+        }
+        await ensureNoSymlinkParent(dir, target);
+        const targetPath = join(dir, ...target);
+        // a hard link to a symlink is a copy of it, which must stay inside
+        // from its own place as well
+        if ((await Deno.lstat(targetPath)).isSymlink) {
+          const linkName = await Deno.readLink(targetPath);
+          if (!isLinkInside(components, linkName)) {
+            throw new Error(
+              `Refusing to unpack symlink outside of directory: "${name}" -> "${linkName}"`,
+            );
+          }
+        }
+        await removeExisting(path);
+        await Deno.link(targetPath, path);
+        continue;
+      }
+      case "file":
+      case "contiguous-file":
+      case undefined: {
+        await removeExisting(path);
+        const file = await Deno.open(path, {
+          write: true,
+          create: true,
+          truncate: true,
+        });
+        try {
+          await Deno.copy(entry, file);
+        } finally {
+          file.close();
+        }
+        if (entry.fileMode !== undefined && !isWindows) {
+          await Deno.chmod(path, entry.fileMode & 0o7777);
+        }
+        if (entry.mtime !== undefined) {
+          await Deno.utime(path, entry.mtime, entry.mtime);
+        }
+        continue;
+      }
+    }
+  }
+
+  for (const { path, mode, mtime } of directories.reverse()) {
+    if (mode !== undefined && !isWindows) {
+      await Deno.chmod(path, mode & 0o7777);
+    }
+    if (mtime !== undefined) {
+      await Deno.utime(path, mtime, mtime);
+    }
+  }
+}
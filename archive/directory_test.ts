@@ -0,0 +1,231 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { assert, assertEquals, assertThrowsAsync } from "../testing/asserts.ts";
+import { join } from "../path/mod.ts";
+import { Buffer } from "../io/buffer.ts";
+import { exists } from "../fs/exists.ts";
+import { Tar, Untar } from "./tar.ts";
+import { packDirectory, unpackToDirectory } from "./directory.ts";
+
+const isWindows = Deno.build.os === "windows";
+
+async function createTree(root: string) {
+  await Deno.mkdir(join(root, "dist", "assets"), { recursive: true });
+  await Deno.writeTextFile(join(root, "dist", "index.js"), "index");
+  await Deno.writeTextFile(join(root, "dist", "index.js.map"), "map");
+  await Deno.writeTextFile(join(root, "dist", "assets", "logo.svg"), "logo");
+  await Deno.symlink("assets", join(root, "dist", "current"));
+  if (!isWindows) {
+    await Deno.chmod(join(root, "dist", "index.js"), 0o751);
+  }
+  await Deno.utime(join(root, "dist", "index.js"), 1591800767, 1591800767);
+}
+
+async function tarFrom(
+  entries: Array<{ name: string; type?: string; linkName?: string }>,
+): Promise<Buffer> {
+  const tar = new Tar();
+  for (const { name, type, linkName } of entries) {
+    const content = new TextEncoder().encode(name);
+    await tar.append(name, {
+      type,
+      linkName,
+      reader: new Buffer(content),
+      contentSize: content.byteLength,
+    });
+  }
+  const buf = new Buffer();
+  await Deno.copy(tar.getReader(), buf);
+  return buf;
+}
+
+Deno.test({
+  name: "packAndUnpackDirectory",
+  ignore: isWindows,
+  async fn() {
+    const src = await Deno.makeTempDir();
+    const dest = await Deno.makeTempDir();
+    try {
+      await createTree(src);
+
+      const buf = new Buffer();
+      await packDirectory(src, buf, { skip: [/\.map$/] });
+
+      const names = [];
+      for await (const entry of new Untar(new Buffer(buf.bytes()))) {
+        names.push(entry.fileName);
+      }
+      assertEquals(names.sort(), [
+        "dist/",
+        "dist/assets/",
+        "dist/assets/logo.svg",
+        "dist/current",
+        "dist/index.js",
+      ]);
+
+      await unpackToDirectory(buf, dest, { stripComponents: 1 });
+      assertEquals(await Deno.readTextFile(join(dest, "index.js")), "index");
+      assertEquals(
+        await Deno.readTextFile(join(dest, "assets", "logo.svg")),
+        "logo",
+      );
+      assert(!(await exists(join(dest, "index.js.map"))));
+      assertEquals(await Deno.readLink(join(dest, "current")), "assets");
+
+      const info = await Deno.stat(join(dest, "index.js"));
+      assertEquals(info.mode! & 0o777, 0o751);
+      assertEquals(info.mtime?.valueOf(), 1591800767000);
+    } finally {
+      await Deno.remove(src, { recursive: true });
+      await Deno.remove(dest, { recursive: true });
+    }
+  },
+});
+
+Deno.test("unpackToDirectoryWithMatch", async function () {
+  const dest = await Deno.makeTempDir();
+  try {
+    const buf = await tarFrom([
+      { name: "a.txt" },
+      { name: "b.md" },
+      { name: "dir/c.txt" },
+    ]);
+    await unpackToDirectory(buf, dest, { match: [/\.txt$/] });
+    assert(await exists(join(dest, "a.txt")));
+    assert(!(await exists(join(dest, "b.md"))));
+    assertEquals(
+      await Deno.readTextFile(join(dest, "dir", "c.txt")),
+      "dir/c.txt",
+    );
+  } finally {
+    await Deno.remove(dest, { recursive: true });
+  }
+});
+
+Deno.test("unpackToDirectoryRefusesPathTraversal", async function () {
+  const dest = await Deno.makeTempDir();
+  try {
+    await assertThrowsAsync(
+      async () => {
+        await unpackToDirectory(await tarFrom([{ name: "../evil.txt" }]), dest);
+      },
+      Error,
+      "Refusing to unpack path outside of directory",
+    );
+    await assertThrowsAsync(
+      async () => {
+        await unpackToDirectory(
+          await tarFrom([{ name: "a/../../evil.txt" }]),
+          dest,
+        );
+      },
+      Error,
+      "Refusing to unpack path outside of directory",
+    );
+    await assertThrowsAsync(
+      async () => {
+        await unpackToDirectory(await tarFrom([{ name: "/evil.txt" }]), dest);
+      },
+      Error,
+      "Refusing to unpack absolute path",
+    );
+    assertEquals(await exists(join(dest, "..", "evil.txt")), false);
+  } finally {
+    await Deno.remove(dest, { recursive: true });
+  }
+});
+
+Deno.test({
+  name: "unpackToDirectoryRefusesEscapingSymlinks",
+  ignore: isWindows,
+  async fn() {
+    const dest = await Deno.makeTempDir();
+    try {
+      await assertThrowsAsync(
+        async () => {
+          await unpackToDirectory(
+            await tarFrom([
+              { name: "dir/link", type: "symlink", linkName: "../../etc" },
+            ]),
+            dest,
+          );
+        },
+        Error,
+        "Refusing to unpack symlink outside of directory",
+      );
+      await assertThrowsAsync(
+        async () => {
+          await unpackToDirectory(
+            await tarFrom([
+              { name: "link", type: "symlink", linkName: "/etc" },
+            ]),
+            dest,
+          );
+        },
+        Error,
+        "Refusing to unpack symlink outside of directory",
+      );
+      // a symlink to "." is harmless by itself, but must not be written through
+      await assertThrowsAsync(
+        async () => {
+          await unpackToDirectory(
+            await tarFrom([
+              { name: "self", type: "symlink", linkName: "." },
+              { name: "self/escape", type: "symlink", linkName: ".." },
+            ]),
+            dest,
+          );
+        },
+        Error,
+        "Refusing to unpack through symlink",
+      );
+      // ".." after a symlink resolves against the symlink target, whatever
+      // the order of the entries
+      for (
+        const entries of [
+          [
+            { name: "dir/", type: "directory" },
+            { name: "dir/s", type: "symlink", linkName: ".." },
+            { name: "dir/t", type: "symlink", linkName: "s/../outside" },
+          ],
+          [
+            { name: "dir/", type: "directory" },
+            { name: "dir/t", type: "symlink", linkName: "s/../outside" },
+            { name: "dir/s", type: "symlink", linkName: ".." },
+          ],
+        ]
+      ) {
+        const out = await Deno.makeTempDir({ dir: dest });
+        await assertThrowsAsync(
+          async () => {
+            await unpackToDirectory(await tarFrom(entries), out);
+          },
+          Error,
+          "Refusing to unpack symlink outside of directory",
+        );
+        assert(!(await exists(join(out, "dir", "t"))));
+      }
+      // a hard link to a symlink is a symlink with the same target, which
+      // must stay inside from the hard link as well
+      await Deno.writeTextFile(join(dest, "secret.txt"), "secret");
+      const out = join(dest, "x", "y");
+      await assertThrowsAsync(
+        async () => {
+          await unpackToDirectory(
+            await tarFrom([
+              { name: "a/", type: "directory" },
+              { name: "a/b/", type: "directory" },
+              { name: "a/b/s", type: "symlink", linkName: "../../secret.txt" },
+              { name: "t", type: "link", linkName: "a/b/s" },
+            ]),
+            out,
+          );
+        },
+        Error,
+        "Refusing to unpack symlink outside of directory",
+      );
+      assert(!(await exists(join(out, "t"))));
+    } finally {
+      await Deno.remove(dest, { recursive: true });
+    }
+  },
+});
@@ -30,18 +30,22 @@ import { MultiReader } from "../io/readers.ts";
 import { PartialReadError } from "../io/bufio.ts";
 import { assert } from "../_util/assert.ts";
 import { Buffer } from "../io/buffer.ts";
-import { readAll } from "../io/util.ts";
 
 type Reader = Deno.Reader;
 type Seeker = Deno.Seeker;
 
 const recordSize = 512;
 const ustar = "ustar\u000000";
+const gnuMagic = "ustar  \u0000";
 
 // https://pubs.opengroup.org/onlinepubs/9699919799/utilities/pax.html#tag_20_92_13_06
 // eight checksum bytes taken to be ascii spaces (decimal value 32)
 const initialChecksum = 8 * 32;
 
+// largest values of the 11 and 7 digits octal ustar fields
+const maxSize = 0o77777777777;
+const maxId = 0o7777777;
+
 async function readBlock(
   reader: Deno.Reader,
   p: Uint8Array,
@@ -102,11 +106,168 @@ function clean(length: number): Uint8Array {
   return buffer;
 }
 
+/**
+ * Parse the records of a PAX extended header. Each record has the form
+ * `"%d %s=%s\n", <length>, <keyword>, <value>` where the length is the size
+ * in bytes of the whole record.
+ * @param buffer
+ */
+function parsePaxRecords(buffer: Uint8Array): PaxRecords {
+  const decoder = new TextDecoder();
+  const records: PaxRecords = {};
+  let offset = 0;
+  while (offset < buffer.length && buffer[offset] !== 0) {
+    const space = buffer.indexOf(0x20, offset);
+    const length = space < 0
+      ? NaN
+      : parseInt(decoder.decode(buffer.subarray(offset, space)), 10);
+    if (
+      !(length > 0) || offset + length > buffer.length ||
+      buffer[offset + length - 1] !== 0x0a
+    ) {
+      throw new Error("invalid PAX extended header record");
+    }
+    const record = decoder.decode(
+      buffer.subarray(space + 1, offset + length - 1),
+    );
+    const separator = record.indexOf("=");
+    if (separator <= 0) {
+      throw new Error("invalid PAX extended header record");
+    }
+    const keyword = record.substr(0, separator);
+    const value = record.substr(separator + 1);
+    if (keyword === "GNU.sparse.offset" || keyword === "GNU.sparse.numbytes") {
+      // GNU sparse format 0.0 repeats these records for each region, they
+      // are collected in the map of the format 0.1
+      const map = records["GNU.sparse.map"];
+      records["GNU.sparse.map"] = map ? `${map},${value}` : value;
+    } else {
+      records[keyword] = value;
+    }
+    offset += length;
+  }
+  return records;
+}
+
+/**
+ * Parse a numeric header field, either octal or, if the first byte has its
+ * high bit set, the base-256 (big-endian two's complement) encoding used by
+ * GNU tar for values which do not fit in octal digits.
+ * @param field
+ */
+function parseNumeric(field: Uint8Array): number {
+  if (field[0] & 0x80) {
+    const negative = (field[0] & 0x40) !== 0;
+    let value = 0;
+    for (let i = 0; i < field.length; i++) {
+      let byte = i === 0 ? field[0] & 0x7f : field[i];
+      if (negative) byte = (i === 0 ? 0x7f : 0xff) - byte;
+      value = value * 256 + byte;
+    }
+    return negative ? -(value + 1) : value;
+  }
+  return parseInt(new TextDecoder().decode(trim(field)), 8);
+}
+
+/**
+ * Parse the comma separated offsets and lengths of the GNU.sparse.map PAX
+ * record
+ * @param map
+ */
+function parseSparseMap(map: string): SparseRegion[] {
+  const numbers = map === "" ? [] : map.split(",").map(Number);
+  if (numbers.length % 2 !== 0 || numbers.some((n) => !(n >= 0))) {
+    throw new Error("invalid GNU sparse map");
+  }
+  const regions: SparseRegion[] = [];
+  for (let i = 0; i < numbers.length; i += 2) {
+    regions.push({ offset: numbers[i], length: numbers[i + 1] });
+  }
+  return regions;
+}
+
 function pad(num: number, bytes: number, base = 8): string {
   const numString = num.toString(base);
   return "000000000000".substr(numString.length + 12 - bytes) + numString;
 }
 
+/**
+ * Length of the UTF-8 encoded string
+ * @param str
+ */
+function byteLength(str: string): number {
+  return new TextEncoder().encode(str).byteLength;
+}
+
+/**
+ * Truncate the string so that its UTF-8 encoding fits in the given bytes
+ * @param str
+ * @param bytes
+ */
+function truncate(str: string, bytes: number): string {
+  const chars = Array.from(str);
+  while (byteLength(chars.join("")) > bytes) chars.pop();
+  return chars.join("");
+}
+
+/**
+ * Last segment of a slash separated path, ignoring a trailing slash
+ * @param path
+ */
+function basename(path: string): string {
+  return path.replace(/\/+$/, "").split("/").pop() || path;
+}
+
+/**
+ * Split a file name into the ustar prefix (at most 155 bytes) and name
+ * (at most 100 bytes) fields, or return undefined if it can't be split
+ * @param fileName
+ */
+function splitFileName(fileName: string): [string, string] | undefined {
+  let i = fileName.length;
+  while ((i = fileName.lastIndexOf("/", i - 1)) > 0) {
+    const name = fileName.substr(i + 1);
+    // the name only gets longer from here
+    if (byteLength(name) > 100) return undefined;
+    const prefix = fileName.substr(0, i);
+    if (name.length > 0 && byteLength(prefix) <= 155) {
+      return [prefix, name];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Encode the records of a PAX extended header
+ * @param records
+ */
+function encodePaxRecords(records: PaxRecords): Uint8Array {
+  let content = "";
+  for (const [keyword, value] of Object.entries(records)) {
+    const record = ` ${keyword}=${value}\n`;
+    const recordLength = byteLength(record);
+    // the length field counts its own digits
+    let length = recordLength + 1;
+    while (length !== recordLength + length.toString().length) {
+      length = recordLength + length.toString().length;
+    }
+    content += length + record;
+  }
+  return new TextEncoder().encode(content);
+}
+
+/**
+ * Set the checksum of the header. The checksum field itself is taken to be
+ * ascii spaces.
+ * @param data
+ */
+function withChecksum<T extends TarData>(data: T): T {
+  data.checksum = "        ";
+  const checksum = formatHeader(data).reduce((p, c): number => p + c, 0);
+  data.checksum = pad(checksum, 6) + "\u0000 ";
+  return data;
+}
+
 enum FileTypes {
   "file" = 0,
   "link" = 1,
@@ -254,6 +415,9 @@ export interface TarData {
   ustar?: string;
   owner?: string;
   group?: string;
+  linkName?: string;
+  majorNumber?: string;
+  minorNumber?: string;
 }
 
 export interface TarDataWithSource extends TarData {
@@ -265,6 +429,10 @@ export interface TarDataWithSource extends TarData {
    * buffer to read
    */
   reader?: Reader;
+  /**
+   * size of the content, which may not fit in the `fileSize` header field
+   */
+  contentSize?: number;
 }
 
 export interface TarInfo {
@@ -274,10 +442,30 @@ export interface TarInfo {
   gid?: number;
   owner?: string;
   group?: string;
+  /**
+   * one of "file", "link" (hard link), "symlink", "character-device",
+   * "block-device", "directory", "fifo" or "contiguous-file"
+   */
   type?: string;
+  /**
+   * target of a "link" or "symlink" entry
+   */
+  linkName?: string;
+  /**
+   * device numbers of a "character-device" or "block-device" entry
+   */
+  majorNumber?: number;
+  minorNumber?: number;
 }
 
 export interface TarOptions extends TarInfo {
+  /**
+   * additional PAX extended header records for the entry. Records for the
+   * path, linkpath, size, mtime, uid, gid, uname and gname are written automatically
+   * when the values do not fit in the ustar header and take precedence.
+   */
+  pax?: PaxRecords;
+
   /**
    * append file
    */
@@ -294,13 +482,42 @@ export interface TarOptions extends TarInfo {
   contentSize?: number;
 }
 
+/** Keyword/value records of a PAX extended header */
+export interface PaxRecords {
+  [keyword: string]: string;
+}
+
+/** Region of a sparse file holding data, the rest of the file being holes */
+export interface SparseRegion {
+  offset: number;
+  length: number;
+}
+
 export interface TarMeta extends TarInfo {
   fileName: string;
   fileSize?: number;
+  /**
+   * PAX extended header records (global and per-entry) applied to this entry
+   */
+  pax?: PaxRecords;
+  /**
+   * data regions of a GNU sparse file, whose `fileSize` is the size with the
+   * holes
+   */
+  sparseMap?: SparseRegion[];
+}
+
+export interface UntarOptions {
+  /**
+   * Whether the holes of sparse files are read as zero bytes, which is the
+   * default. Otherwise only the data of the regions of `sparseMap` is read,
+   * one after the other.
+   */
+  expandSparse?: boolean;
 }
 
 // deno-lint-ignore no-empty-interface
-interface TarEntry extends TarMeta {}
+export interface TarEntry extends TarMeta {}
 
 /**
  * A class to create a tar archive
@@ -322,35 +539,24 @@ export class Tar {
     if (typeof fn !== "string") {
       throw new Error("file name not specified");
     }
+    opts = opts || {};
+
+    // PAX records for the values which do not fit in the ustar header
+    const pax: PaxRecords = {};
+
     let fileName = fn;
     // separate file name into two parts if needed
     let fileNamePrefix: string | undefined;
-    if (fileName.length > 100) {
-      let i = fileName.length;
-      while (i >= 0) {
-        i = fileName.lastIndexOf("/", i);
-        if (i <= 155) {
-          fileNamePrefix = fileName.substr(0, i);
-          fileName = fileName.substr(i + 1);
-          break;
-        }
-        i--;
-      }
-      const errMsg =
-        "ustar format does not allow a long file name (length of [file name" +
-        "prefix] + / + [file name] must be shorter than 256 bytes)";
-      if (i < 0 || fileName.length > 100) {
-        throw new Error(errMsg);
+    if (byteLength(fileName) > 100) {
+      const split = splitFileName(fileName);
+      if (split) {
+        [fileNamePrefix, fileName] = split;
       } else {
-        assert(fileNamePrefix != null);
-        if (fileNamePrefix.length > 155) {
-          throw new Error(errMsg);
-        }
+        pax.path = fileName;
+        fileName = truncate(fileName, 100);
       }
     }
 
-    opts = opts || {};
-
     // set meta data
     let info: Deno.FileInfo | undefined;
     if (opts.filePath) {
@@ -368,53 +574,93 @@ export class Tar {
       ),
       uid = opts.uid || 0,
       gid = opts.gid || 0;
-    if (typeof opts.owner === "string" && opts.owner.length >= 32) {
-      throw new Error(
-        "ustar format does not allow owner name length >= 32 bytes",
-      );
+    let owner = opts.owner || "",
+      group = opts.group || "";
+    if (byteLength(owner) >= 32) {
+      pax.uname = owner;
+      owner = truncate(owner, 31);
     }
-    if (typeof opts.group === "string" && opts.group.length >= 32) {
-      throw new Error(
-        "ustar format does not allow group name length >= 32 bytes",
-      );
+    if (byteLength(group) >= 32) {
+      pax.gname = group;
+      group = truncate(group, 31);
     }
 
-    const fileSize = info?.size ?? opts.contentSize;
-    assert(fileSize != null, "fileSize must be set");
-
     const type = opts.type
       ? FileTypes[opts.type as keyof typeof FileTypes]
       : (info?.isDirectory ? FileTypes.directory : FileTypes.file);
-    const tarData: TarDataWithSource = {
+    if (type === undefined) {
+      throw new Error(`unsupported file type: ${opts.type}`);
+    }
+    const hasContent = type === FileTypes.file ||
+      type === FileTypes["contiguous-file"];
+
+    let linkName = opts.linkName || "";
+    if (type === FileTypes.link || type === FileTypes.symlink) {
+      if (!linkName) {
+        throw new Error(`link name not specified for ${opts.type} entry`);
+      }
+      if (byteLength(linkName) > 100) {
+        pax.linkpath = linkName;
+        linkName = truncate(linkName, 100);
+      }
+    }
+    const isDevice = type === FileTypes["character-device"] ||
+      type === FileTypes["block-device"];
+
+    // only regular files have content
+    const fileSize = hasContent ? info?.size ?? opts.contentSize : 0;
+    assert(fileSize != null, "fileSize must be set");
+
+    const numbers = { fileSize, mtime, uid, gid };
+    if (fileSize > maxSize) pax.size = fileSize.toString();
+    if (mtime < 0 || mtime > maxSize) pax.mtime = mtime.toString();
+    if (uid > maxId) pax.uid = uid.toString();
+    if (gid > maxId) pax.gid = gid.toString();
+    // The ustar fields of the values moved to PAX records are left as 0
+    if (pax.size) numbers.fileSize = 0;
+    if (pax.mtime) numbers.mtime = 0;
+    if (pax.uid) numbers.uid = 0;
+    if (pax.gid) numbers.gid = 0;
+
+    // user supplied records are overridden by the ones describing the entry
+    const records = { ...opts.pax, ...pax };
+    if (Object.keys(records).length > 0) {
+      const content = encodePaxRecords(records);
+      this.data.push(withChecksum({
+        fileName: truncate(`PaxHeader/${basename(fn)}`, 100),
+        fileMode: pad(0o644, 7),
+        uid: pad(0, 7),
+        gid: pad(0, 7),
+        fileSize: pad(content.byteLength, 11),
+        mtime: pad(numbers.mtime, 11),
+        checksum: "        ",
+        type: "x",
+        ustar,
+        reader: new Buffer(content),
+        contentSize: content.byteLength,
+      }));
+    }
+
+    this.data.push(withChecksum({
       fileName,
       fileNamePrefix,
       fileMode: pad(mode, 7),
-      uid: pad(uid, 7),
-      gid: pad(gid, 7),
-      fileSize: pad(fileSize, 11),
-      mtime: pad(mtime, 11),
+      uid: pad(numbers.uid, 7),
+      gid: pad(numbers.gid, 7),
+      fileSize: pad(numbers.fileSize, 11),
+      mtime: pad(numbers.mtime, 11),
       checksum: "        ",
       type: type.toString(),
       ustar,
-      owner: opts.owner || "",
-      group: opts.group || "",
-      filePath: opts.filePath,
-      reader: opts.reader,
-    };
-
-    // calculate the checksum
-    let checksum = 0;
-    const encoder = new TextEncoder();
-    Object.keys(tarData)
-      .filter((key): boolean => ["filePath", "reader"].indexOf(key) < 0)
-      .forEach(function (key): void {
-        checksum += encoder
-          .encode(tarData[key as keyof TarData])
-          .reduce((p, c): number => p + c, 0);
-      });
-
-    tarData.checksum = pad(checksum, 6) + "\u0000 ";
-    this.data.push(tarData);
+      owner,
+      group,
+      linkName,
+      majorNumber: isDevice ? pad(opts.majorNumber || 0, 7) : undefined,
+      minorNumber: isDevice ? pad(opts.minorNumber || 0, 7) : undefined,
+      filePath: hasContent ? opts.filePath : undefined,
+      reader: hasContent ? opts.reader : new Buffer(),
+      contentSize: fileSize,
+    }));
   }
 
   /**
@@ -434,13 +680,12 @@ export class Tar {
       readers.push(reader);
 
       // to the nearest multiple of recordSize
-      assert(tarData.fileSize != null, "fileSize must be set");
+      const size = tarData.contentSize ??
+        parseInt(tarData.fileSize ?? "", 8);
+      assert(!isNaN(size), "fileSize must be set");
       readers.push(
         new Buffer(
-          clean(
-            recordSize -
-              (parseInt(tarData.fileSize, 8) % recordSize || recordSize),
-          ),
+          clean(recordSize - (size % recordSize || recordSize)),
         ),
       );
     });
@@ -451,27 +696,39 @@ export class Tar {
   }
 }
 
-class TarEntry implements Reader {
+export class TarEntry implements Reader {
   #header: TarHeader;
   #reader: Reader | (Reader & Deno.Seeker);
   #size: number;
   #read = 0;
   #consumed = false;
   #entrySize: number;
+  // position in the file with holes and index of the next sparse region
+  #sparseMap?: SparseRegion[];
+  #position = 0;
+  #region = 0;
   constructor(
     meta: TarMeta,
     header: TarHeader,
     reader: Reader | (Reader & Deno.Seeker),
+    /**
+     * size of the data in the archive, when it differs from the file size,
+     * and whether the holes of a sparse file are expanded
+     */
+    options: { dataSize?: number; expandSparse?: boolean } = {},
   ) {
     Object.assign(this, meta);
     this.#header = header;
     this.#reader = reader;
 
     // File Size
-    this.#size = this.fileSize || 0;
+    this.#size = options.dataSize ?? this.fileSize ?? 0;
     // Entry Size
     const blocks = Math.ceil(this.#size / recordSize);
     this.#entrySize = blocks * recordSize;
+    if (meta.sparseMap && options.expandSparse !== false) {
+      this.#sparseMap = meta.sparseMap;
+    }
   }
 
   get consumed(): boolean {
@@ -479,6 +736,38 @@ class TarEntry implements Reader {
   }
 
   async read(p: Uint8Array): Promise<number | null> {
+    const sparseMap = this.#sparseMap;
+    if (!sparseMap) return await this.#readData(p);
+
+    const fileSize = this.fileSize ?? 0;
+    if (this.#position >= fileSize) {
+      // skip the padding
+      while (await this.#readData(new Uint8Array(recordSize)) !== null);
+      return null;
+    }
+    const region = sparseMap[this.#region];
+    if (!region || this.#position < region.offset) {
+      // zeros up to the next region or the end of the file
+      const hole = Math.min(
+        p.length,
+        (region?.offset ?? fileSize) - this.#position,
+      );
+      p.fill(0, 0, hole);
+      this.#position += hole;
+      return hole;
+    }
+    const regionEnd = region.offset + region.length;
+    const n = await this.#readData(
+      p.subarray(0, Math.min(p.length, regionEnd - this.#position)),
+    );
+    if (n === null) throw new PartialReadError();
+    this.#position += n;
+    if (this.#position >= regionEnd) this.#region++;
+    return n;
+  }
+
+  /** Read the data stored in the archive, without the holes */
+  async #readData(p: Uint8Array): Promise<number | null> {
     // Bytes left for entry
     const entryBytesLeft = this.#entrySize - this.#read;
     const bufSize = Math.min(
@@ -521,7 +810,9 @@ class TarEntry implements Reader {
       );
       this.#read = this.#entrySize;
     } else {
-      await readAll(this);
+      // skip the data without expanding the holes
+      const buf = new Uint8Array(32 * 1024);
+      while (await this.#readData(buf) !== null);
     }
   }
 }
@@ -529,14 +820,17 @@ class TarEntry implements Reader {
 /**
  * A class to extract a tar archive
  */
-export class Untar {
+export class Untar implements AsyncIterable<TarEntry> {
   reader: Reader;
   block: Uint8Array;
   #entry: TarEntry | undefined;
+  #globalPax: PaxRecords = {};
+  #expandSparse: boolean;
 
-  constructor(reader: Reader) {
+  constructor(reader: Reader, options: UntarOptions = {}) {
     this.reader = reader;
     this.block = new Uint8Array(recordSize);
+    this.#expandSparse = options.expandSparse ?? true;
   }
 
   #checksum(header: Uint8Array): number {
@@ -552,7 +846,10 @@ export class Untar {
   }
 
   async #getHeader(): Promise<TarHeader | null> {
-    await readBlock(this.reader, this.block);
+    if (await readBlock(this.reader, this.block) === null) {
+      // EOF without end-of-archive records
+      return null;
+    }
     const header = parseHeader(this.block);
 
     // calculate the checksum
@@ -582,7 +879,10 @@ export class Untar {
     const meta: TarMeta = {
       fileName: decoder.decode(trim(header.fileName)),
     };
-    const fileNamePrefix = trim(header.fileNamePrefix);
+    // GNU tar stores other data where ustar keeps the file name prefix
+    const fileNamePrefix = decoder.decode(header.ustar) === gnuMagic
+      ? new Uint8Array()
+      : trim(header.fileNamePrefix);
     if (fileNamePrefix.byteLength > 0) {
       meta.fileName = decoder.decode(fileNamePrefix) + "/" + meta.fileName;
     }
@@ -592,9 +892,9 @@ export class Untar {
       "uid",
       "gid",
     ]).forEach((key): void => {
-      const arr = trim(header[key]);
-      if (arr.byteLength > 0) {
-        meta[key] = parseInt(decoder.decode(arr), 8);
+      const arr = header[key];
+      if (arr[0] & 0x80 || trim(arr).byteLength > 0) {
+        meta[key] = parseNumeric(arr);
       }
     });
     (["owner", "group", "type"] as ["owner", "group", "type"]).forEach(
@@ -606,12 +906,139 @@ export class Untar {
       },
     );
 
-    meta.fileSize = parseInt(decoder.decode(header.fileSize), 8);
+    const linkName = trim(header.linkName);
+    if (linkName.byteLength > 0) {
+      meta.linkName = decoder.decode(linkName);
+    }
+
+    meta.fileSize = parseNumeric(header.fileSize);
     meta.type = FileTypes[parseInt(meta.type!)] ?? meta.type;
 
+    if (meta.type === "character-device" || meta.type === "block-device") {
+      (["majorNumber", "minorNumber"] as ["majorNumber", "minorNumber"])
+        .forEach((key): void => {
+          const arr = header[key];
+          meta[key] = arr[0] & 0x80 || trim(arr).byteLength > 0
+            ? parseNumeric(arr)
+            : 0;
+        });
+    }
+
     return meta;
   }
 
+  /**
+   * Read the whole body of a metadata entry (PAX extended header or GNU long
+   * name), including the padding up to the next record.
+   */
+  async #readMetaBody(header: TarHeader): Promise<Uint8Array> {
+    const size = parseNumeric(header.fileSize) || 0;
+    const body = new Uint8Array(Math.ceil(size / recordSize) * recordSize);
+    if (body.length > 0 && await readBlock(this.reader, body) === null) {
+      throw new PartialReadError();
+    }
+    return body.subarray(0, size);
+  }
+
+  /**
+   * Override the metadata read from the ustar header with the values
+   * of PAX extended header records
+   */
+  #applyPax(meta: TarMeta, pax: PaxRecords) {
+    for (const [keyword, value] of Object.entries(pax)) {
+      // An empty value means the ustar header field is in effect
+      if (value === "") continue;
+      switch (keyword) {
+        case "path":
+          meta.fileName = value;
+          break;
+        case "linkpath":
+          meta.linkName = value;
+          break;
+        case "size":
+          meta.fileSize = parseInt(value, 10);
+          break;
+        case "mtime":
+          meta.mtime = parseFloat(value);
+          break;
+        case "uid":
+        case "gid":
+          meta[keyword] = parseInt(value, 10);
+          break;
+        case "uname":
+          meta.owner = value;
+          break;
+        case "gname":
+          meta.group = value;
+          break;
+      }
+    }
+    // the path of GNU sparse files is a placeholder
+    if (pax["GNU.sparse.name"]) meta.fileName = pax["GNU.sparse.name"];
+  }
+
+  /**
+   * Read the sparse map of an old GNU sparse header (type "S"), which
+   * continues in extension blocks when there are more than 4 regions
+   */
+  async #readOldGnuSparse(
+    block: Uint8Array,
+  ): Promise<{ map: SparseRegion[]; realSize: number }> {
+    const map: SparseRegion[] = [];
+    const parseRegions = (buffer: Uint8Array, start: number, count: number) => {
+      for (let i = 0; i < count; i++) {
+        const region = buffer.subarray(start + i * 24, start + (i + 1) * 24);
+        // unused slots are empty
+        if (region[0] === 0) break;
+        map.push({
+          offset: parseNumeric(region.subarray(0, 12)),
+          length: parseNumeric(region.subarray(12)),
+        });
+      }
+    };
+    parseRegions(block, 386, 4);
+    let isExtended = block[482] !== 0;
+    const realSize = parseNumeric(block.subarray(483, 495));
+    const extension = new Uint8Array(recordSize);
+    while (isExtended) {
+      if (await readBlock(this.reader, extension) === null) {
+        throw new PartialReadError();
+      }
+      parseRegions(extension, 0, 21);
+      isExtended = extension[504] !== 0;
+    }
+    return { map, realSize };
+  }
+
+  /**
+   * Read the sparse map stored before the data of a GNU sparse 1.0 file: the
+   * number of regions, then their offsets and lengths, all newline
+   * terminated and padded to a record. Returns the map and its size.
+   */
+  async #readSparseMap(): Promise<[SparseRegion[], number]> {
+    const decoder = new TextDecoder();
+    const block = new Uint8Array(recordSize);
+    let text = "";
+    let size = 0;
+    while (true) {
+      if (await readBlock(this.reader, block) === null) {
+        throw new PartialReadError();
+      }
+      size += recordSize;
+      text += decoder.decode(block);
+      const lines = text.split("\n");
+      const count = parseInt(lines[0], 10);
+      if (lines.length > 1 && !(count >= 0)) {
+        throw new Error("invalid GNU sparse map");
+      }
+      // the last line is not terminated
+      if (lines.length - 1 >= 1 + 2 * count) {
+        const map = parseSparseMap(lines.slice(1, 1 + 2 * count).join(","));
+        return [map, size];
+      }
+    }
+  }
+
   async extract(): Promise<TarEntry | null> {
     if (this.#entry && !this.#entry.consumed) {
       // If entry body was not read, discard the body
@@ -619,12 +1046,82 @@ export class Untar {
       await this.#entry.discard();
     }
 
-    const header = await this.#getHeader();
-    if (header === null) return null;
+    const decoder = new TextDecoder();
+    let pax: PaxRecords | undefined;
+    let longName: string | undefined;
+    let longLinkName: string | undefined;
+    let header: TarHeader | null;
+    // Metadata entries describe the entry which follows them
+    while (true) {
+      header = await this.#getHeader();
+      if (header === null) return null;
+
+      const typeFlag = String.fromCharCode(header.type[0]);
+      if (typeFlag === "x") {
+        // PAX extended header for the next entry
+        pax = {
+          ...pax,
+          ...parsePaxRecords(await this.#readMetaBody(header)),
+        };
+      } else if (typeFlag === "g") {
+        // PAX global extended header for all the following entries
+        const records = parsePaxRecords(await this.#readMetaBody(header));
+        for (const [keyword, value] of Object.entries(records)) {
+          if (value === "") {
+            delete this.#globalPax[keyword];
+          } else {
+            this.#globalPax[keyword] = value;
+          }
+        }
+      } else if (typeFlag === "L") {
+        // GNU long name for the next entry
+        longName = decoder.decode(trim(await this.#readMetaBody(header)));
+      } else if (typeFlag === "K") {
+        // GNU long link name for the next entry
+        longLinkName = decoder.decode(trim(await this.#readMetaBody(header)));
+      } else {
+        break;
+      }
+    }
 
     const meta = this.#getMetadata(header);
+    if (longName !== undefined) meta.fileName = longName;
+    if (longLinkName !== undefined) meta.linkName = longLinkName;
+    const records = { ...this.#globalPax, ...pax };
+    if (Object.keys(records).length > 0) {
+      this.#applyPax(meta, records);
+      meta.pax = records;
+    }
 
-    this.#entry = new TarEntry(meta, header, this.reader);
+    // GNU sparse files, whose data in the archive is only the regions of
+    // the sparse map
+    let dataSize: number | undefined;
+    if (String.fromCharCode(header.type[0]) === "S") {
+      const { map, realSize } = await this.#readOldGnuSparse(this.block);
+      dataSize = meta.fileSize;
+      meta.sparseMap = map;
+      meta.fileSize = realSize;
+      meta.type = "file";
+    } else if (
+      records["GNU.sparse.major"] === "1" && records["GNU.sparse.minor"] === "0"
+    ) {
+      const [map, mapSize] = await this.#readSparseMap();
+      dataSize = (meta.fileSize ?? 0) - mapSize;
+      meta.sparseMap = map;
+      meta.fileSize = parseInt(records["GNU.sparse.realsize"], 10);
+    } else if (records["GNU.sparse.map"] !== undefined) {
+      dataSize = meta.fileSize;
+      meta.sparseMap = parseSparseMap(records["GNU.sparse.map"]);
+      meta.fileSize = parseInt(records["GNU.sparse.size"], 10);
+    }
+    if (meta.sparseMap && !(meta.fileSize! >= 0)) {
+      throw new Error("invalid GNU sparse file size");
+    }
+
+    this.#entry = new TarEntry(meta, header, this.reader, {
+      dataSize,
+      expandSparse: this.#expandSparse,
+    });
 
     return this.#entry;
   }
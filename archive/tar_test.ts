@@ -9,12 +9,14 @@
  * **to run this test**
  * deno run --allow-read archive/tar_test.ts
  */
-import { assert, assertEquals } from "../testing/asserts.ts";
+import { assert, assertEquals, assertThrowsAsync } from "../testing/asserts.ts";
 
 import { dirname, fromFileUrl, resolve } from "../path/mod.ts";
-import { Tar, Untar } from "./tar.ts";
+import { Tar, Untar, UntarOptions } from "./tar.ts";
 import { Buffer } from "../io/buffer.ts";
 import { readAll } from "../io/util.ts";
+import { DecompressReader } from "../compress/io.ts";
+import { equals } from "../bytes/mod.ts";
 
 const moduleDir = dirname(fromFileUrl(import.meta.url));
 const testdataDir = resolve(moduleDir, "testdata");
@@ -435,3 +437,318 @@ Deno.test("directoryEntryType", async function () {
   await reader.close();
   await Deno.remove(outputFile);
 });
+
+Deno.test("untarGnuLongNames", async function () {
+  const longName = new Array(6).fill("long-directory-name").join("/") +
+    "/long-file-name.txt";
+  const reader = await Deno.open(resolve(testdataDir, "gnu_long_name.tar"), {
+    read: true,
+  });
+  const untar = new Untar(reader);
+
+  const file = await untar.extract();
+  assert(file !== null);
+  assertEquals(file.fileName, longName);
+  assertEquals(file.type, "file");
+  assertEquals(file.fileSize, 10);
+  assertEquals(file.mtime, 1623326400);
+  assertEquals(file.owner, "deno");
+  assertEquals(new TextDecoder().decode(await readAll(file)), "long name\n");
+
+  const link = await untar.extract();
+  assert(link !== null);
+  assertEquals(link.fileName, "link.txt");
+  assertEquals(link.type, "symlink");
+  assertEquals(link.linkName, longName);
+
+  assertEquals(await untar.extract(), null);
+  reader.close();
+});
+
+Deno.test("untarPaxExtendedHeaders", async function () {
+  const longName = new Array(6).fill("long-directory-name").join("/") +
+    "/long-file-name.txt";
+  const reader = await Deno.open(resolve(testdataDir, "pax_long_name.tar"), {
+    read: true,
+  });
+  const untar = new Untar(reader);
+
+  const file = await untar.extract();
+  assert(file !== null);
+  assertEquals(file.fileName, longName);
+  assertEquals(file.type, "file");
+  assertEquals(file.fileSize, 10);
+  assertEquals(file.mtime, 1623326400.5);
+  assertEquals(file.uid, 1001);
+  assertEquals(file.pax, {
+    comment: "hello",
+    path: longName,
+    mtime: "1623326400.5",
+  });
+  assertEquals(new TextDecoder().decode(await readAll(file)), "long name\n");
+
+  const link = await untar.extract();
+  assert(link !== null);
+  assertEquals(link.fileName, "link.txt");
+  assertEquals(link.type, "symlink");
+  assertEquals(link.linkName, longName);
+  // global records apply to every following entry
+  assertEquals(link.pax?.comment, "hello");
+
+  assertEquals(await untar.extract(), null);
+  reader.close();
+});
+
+Deno.test("appendFileWithPaxLongName", async function () {
+  // 300 bytes without a slash fitting in the ustar prefix/name split
+  const fileName = "dir/" + "x".repeat(296);
+  const longOwner = "o".repeat(40);
+  const text = "hello tar world!";
+
+  const tar = new Tar();
+  const content = new TextEncoder().encode(text);
+  await tar.append(fileName, {
+    reader: new Buffer(content),
+    contentSize: content.byteLength,
+    owner: longOwner,
+    pax: { comment: "deno" },
+  });
+
+  const untar = new Untar(tar.getReader());
+  const result = await untar.extract();
+  assert(result !== null);
+  assertEquals(result.fileName, fileName);
+  assertEquals(result.owner, longOwner);
+  assertEquals(result.pax, {
+    comment: "deno",
+    path: fileName,
+    uname: longOwner,
+  });
+  assertEquals(new TextDecoder().decode(await readAll(result)), text);
+  assertEquals(await untar.extract(), null);
+});
+
+Deno.test("appendFileWithPaxLargeValues", async function () {
+  const fileSize = 9 * 1024 ** 3; // 9 GiB
+  const tar = new Tar();
+  await tar.append("large.bin", {
+    reader: new Buffer(),
+    contentSize: fileSize,
+    uid: 0o10000000,
+    mtime: -1,
+  });
+
+  // only read the headers
+  const untar = new Untar(tar.getReader());
+  const result = await untar.extract();
+  assert(result !== null);
+  assertEquals(result.fileName, "large.bin");
+  assertEquals(result.fileSize, fileSize);
+  assertEquals(result.uid, 0o10000000);
+  assertEquals(result.mtime, -1);
+});
+
+Deno.test("appendFileWithoutPaxWhenUstarFits", async function () {
+  const tar = new Tar();
+  await tar.append("short.txt", {
+    reader: new Buffer(),
+    contentSize: 0,
+  });
+  assertEquals(tar.data.length, 1);
+});
+
+Deno.test("appendLinkAndSpecialEntries", async function () {
+  const longTarget = new Array(8).fill("long-directory-name").join("/");
+  const tar = new Tar();
+  const content = new TextEncoder().encode("hello tar world!");
+  await tar.append("releases/v1/", { type: "directory" });
+  await tar.append("releases/v1/output.txt", {
+    reader: new Buffer(content),
+    contentSize: content.byteLength,
+  });
+  await tar.append("releases/current", { type: "symlink", linkName: "v1" });
+  await tar.append("releases/output.txt", {
+    type: "link",
+    linkName: "releases/v1/output.txt",
+  });
+  await tar.append("releases/far", { type: "symlink", linkName: longTarget });
+  await tar.append("releases/fifo", { type: "fifo" });
+  await tar.append("releases/null", {
+    type: "character-device",
+    majorNumber: 1,
+    minorNumber: 3,
+  });
+
+  const expectedEntries = [
+    { fileName: "releases/v1/", type: "directory", fileSize: 0 },
+    { fileName: "releases/v1/output.txt", type: "file", fileSize: 16 },
+    {
+      fileName: "releases/current",
+      type: "symlink",
+      fileSize: 0,
+      linkName: "v1",
+    },
+    {
+      fileName: "releases/output.txt",
+      type: "link",
+      fileSize: 0,
+      linkName: "releases/v1/output.txt",
+    },
+    {
+      fileName: "releases/far",
+      type: "symlink",
+      fileSize: 0,
+      linkName: longTarget,
+    },
+    { fileName: "releases/fifo", type: "fifo", fileSize: 0 },
+    {
+      fileName: "releases/null",
+      type: "character-device",
+      fileSize: 0,
+      majorNumber: 1,
+      minorNumber: 3,
+    },
+  ];
+
+  const untar = new Untar(tar.getReader());
+  for await (const entry of untar) {
+    const expected = expectedEntries.shift();
+    assert(expected);
+    assertEquals(entry.fileName, expected.fileName);
+    assertEquals(entry.type, expected.type);
+    assertEquals(entry.fileSize, expected.fileSize);
+    assertEquals(entry.linkName, expected.linkName);
+    assertEquals(entry.majorNumber, expected.majorNumber);
+    assertEquals(entry.minorNumber, expected.minorNumber);
+  }
+  assertEquals(expectedEntries.length, 0);
+});
+
+Deno.test("appendLinkWithoutLinkName", async function () {
+  const tar = new Tar();
+  await assertThrowsAsync(
+    () => tar.append("current", { type: "symlink" }),
+    Error,
+    "link name not specified",
+  );
+  await assertThrowsAsync(
+    () => tar.append("unknown", { type: "socket" }),
+    Error,
+    "unsupported file type",
+  );
+});
+
+// sparse.img, made of 6 regions of data and holes, archived by GNU tar with
+// the old GNU format and the PAX sparse formats 0.0, 0.1 and 1.0
+const sparseArchives = [
+  "sparse_gnu.tar.gz",
+  "sparse_pax_0.0.tar.gz",
+  "sparse_pax_0.1.tar.gz",
+  "sparse_pax_1.0.tar.gz",
+];
+const sparseSize = 6 * 65536 + 1000;
+
+function sparseContent(): Uint8Array {
+  const content = new Uint8Array(sparseSize);
+  for (let i = 0; i < 6; i++) {
+    content.set(
+      new TextEncoder().encode(`region ${i}\n`.repeat(10)),
+      i * 65536 + 4096,
+    );
+  }
+  content.set(new TextEncoder().encode("end\n"), sparseSize - 4);
+  return content;
+}
+
+async function untarSparse(
+  name: string,
+  fn: (untar: Untar) => Promise<void>,
+  options?: UntarOptions,
+) {
+  const file = await Deno.open(resolve(testdataDir, name));
+  try {
+    await fn(new Untar(new DecompressReader(file), options));
+  } finally {
+    file.close();
+  }
+}
+
+Deno.test("untarGnuSparseFiles", async function () {
+  const expected = sparseContent();
+  for (const name of sparseArchives) {
+    await untarSparse(name, async (untar) => {
+      const entry = await untar.extract();
+      assert(entry !== null);
+      assertEquals(entry.fileName, "sparse.img", name);
+      assertEquals(entry.type, "file");
+      assertEquals(entry.fileSize, sparseSize);
+      assertEquals(entry.owner, "deno");
+      assertEquals(entry.mtime, 1623326400);
+      // the trailing empty region is only in some formats
+      assertEquals(
+        entry.sparseMap?.filter(({ length }) => length > 0),
+        [
+          ...[0, 1, 2, 3, 4, 5].map((i) => ({
+            offset: i * 65536 + 4096,
+            length: 4096,
+          })),
+          { offset: 6 * 65536, length: 1000 },
+        ],
+      );
+      assert(equals(await readAll(entry), expected), name);
+      assertEquals(await untar.extract(), null);
+    });
+  }
+});
+
+Deno.test("untarGnuSparseFilesWithoutHoles", async function () {
+  const expected = sparseContent();
+  for (const name of sparseArchives) {
+    await untarSparse(name, async (untar) => {
+      const entry = await untar.extract();
+      assert(entry?.sparseMap);
+      const data = await readAll(entry);
+      let offset = 0;
+      for (const region of entry.sparseMap) {
+        assert(equals(
+          data.subarray(offset, offset + region.length),
+          expected.subarray(region.offset, region.offset + region.length),
+        ));
+        offset += region.length;
+      }
+      assertEquals(offset, data.length);
+      assertEquals(await untar.extract(), null);
+    }, { expandSparse: false });
+  }
+});
+
+Deno.test("untarBase256Fields", async function () {
+  const tar = new Tar();
+  const content = new TextEncoder().encode("base-256");
+  await tar.append("large.bin", {
+    reader: new Buffer(content),
+    contentSize: content.byteLength,
+    uid: 1000,
+  });
+  const archive = await readAll(tar.getReader());
+  // encode the size and a negative mtime the way GNU tar does when the
+  // values do not fit in octal digits
+  archive.fill(0, 124, 136);
+  archive[124] = 0x80;
+  archive[135] = content.byteLength;
+  archive.fill(0xff, 136, 148);
+  archive[147] = 0x9c; // -100
+  archive.fill(0x20, 148, 156);
+  const checksum = archive.subarray(0, 512).reduce((sum, b) => sum + b, 0);
+  archive.set(
+    new TextEncoder().encode(checksum.toString(8).padStart(6, "0") + "\0 "),
+    148,
+  );
+
+  const entry = await new Untar(new Buffer(archive)).extract();
+  assert(entry !== null);
+  assertEquals(entry.fileSize, content.byteLength);
+  assertEquals(entry.mtime, -100);
+  assertEquals(entry.uid, 1000);
+  assertEquals(await readAll(entry), content);
+});
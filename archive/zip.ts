@@ -0,0 +1,888 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+// ZIP file format: https://pkware.cachefly.net/webdocs/casestudies/APPNOTE.TXT
+import { Buffer } from "../io/buffer.ts";
+import { readerFromIterable } from "../io/streams.ts";
+import { readRange } from "../io/util.ts";
+import { Compressor, Decompressor } from "../compress/codec.ts";
+import { crc32 } from "../compress/_checksum.ts";
+
+type Reader = Deno.Reader;
+type Seeker = Deno.Seeker;
+
+const localHeaderSignature = 0x04034b50;
+const dataDescriptorSignature = 0x08074b50;
+const centralHeaderSignature = 0x02014b50;
+const zip64EndSignature = 0x06064b50;
+const zip64LocatorSignature = 0x07064b50;
+const endSignature = 0x06054b50;
+
+const localHeaderSize = 30;
+const centralHeaderSize = 46;
+const zip64EndSize = 56;
+const zip64LocatorSize = 20;
+const endSize = 22;
+
+// general purpose flags
+const flagEncrypted = 0x1;
+const flagDataDescriptor = 0x8;
+const flagUtf8 = 0x800;
+
+// extra fields
+const zip64ExtraId = 0x0001;
+const timestampExtraId = 0x5455;
+const unicodePathExtraId = 0x7075;
+
+const methodStore = 0;
+const methodDeflate = 8;
+
+// values which do not fit in the 32 and 16 bit fields are moved to ZIP64
+const max32 = 0xffffffff;
+const max16 = 0xffff;
+
+const versionDefault = 20;
+const versionZip64 = 45;
+const creatorUnix = 3;
+
+// Unix file types in the high bits of the external attributes
+const modeRegular = 0o100000;
+const modeDirectory = 0o040000;
+const modeSymlink = 0o120000;
+const modeTypeMask = 0o170000;
+const msdosDirectory = 0x10;
+
+const bufSize = 32 * 1024;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// code page 437 characters of the bytes 0x80..0xff, the encoding of the
+// names without the UTF-8 flag. Many archivers write UTF-8 names without
+// the flag, so the names which are valid UTF-8 are decoded as such.
+const cp437 =
+  "ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜ¢£¥₧ƒáíóúñÑªº¿⌐¬½¼¡«»░▒▓│┤╡╢╖╕╣║╗╝╜╛┐└┴┬├─┼╞╟╚╔╩╦╠═╬╧╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀αßΓπΣσµτΦΘΩδ∞φε∩≡±≥≤⌠⌡÷≈°∙·√ⁿ²■ ";
+
+const strictDecoder = new TextDecoder("utf-8", { fatal: true });
+
+function decodeName(bytes: Uint8Array): string {
+  try {
+    return strictDecoder.decode(bytes);
+  } catch {
+    // not UTF-8
+  }
+  let result = "";
+  for (const byte of bytes) {
+    result += byte < 0x80 ? String.fromCharCode(byte) : cp437[byte - 0x80];
+  }
+  return result;
+}
+
+function isAscii(str: string): boolean {
+  // deno-lint-ignore no-control-regex
+  return /^[\x00-\x7f]*$/.test(str);
+}
+
+/** Compression method of an entry */
+export type ZipMethod = "store" | "deflate";
+
+export interface ZipInfo {
+  /**
+   * modification time in seconds since the epoch
+   */
+  mtime?: number;
+  /**
+   * permission bits of the file
+   */
+  fileMode?: number;
+  /**
+   * one of "file", "directory" or "symlink"
+   */
+  type?: string;
+  comment?: string;
+}
+
+export interface ZipOptions extends ZipInfo {
+  /**
+   * target of a "symlink" entry, which is stored as its content
+   */
+  linkName?: string;
+
+  /**
+   * compression method, "deflate" by default
+   */
+  method?: ZipMethod;
+
+  /**
+   * compression level from 0 to 9 of the "deflate" method
+   */
+  level?: number;
+
+  /**
+   * append file
+   */
+  filePath?: string;
+
+  /**
+   * append any arbitrary content
+   */
+  reader?: Reader;
+
+  /**
+   * size of the `reader` content, if known. Entries which may reach 4 GiB,
+   * including readers of unknown size, are written with ZIP64 sizes
+   */
+  contentSize?: number;
+}
+
+export interface ZipMeta extends ZipInfo {
+  fileName: string;
+  /**
+   * uncompressed size
+   */
+  fileSize: number;
+  compressedSize: number;
+  /**
+   * compression method, or its number if unsupported
+   */
+  method: ZipMethod | number;
+  crc32: number;
+}
+
+interface ZipData {
+  fileName: Uint8Array;
+  comment: Uint8Array;
+  flags: number;
+  method: number;
+  level?: number;
+  mtime: number;
+  externalAttributes: number;
+  filePath?: string;
+  reader?: Reader;
+  /** whether the local header and data descriptor hold 64 bit sizes */
+  zip64: boolean;
+}
+
+function dosDateTime(mtime: number): [number, number] {
+  // MS-DOS times are local times with a 2 seconds precision
+  const date = new Date(mtime * 1000);
+  const year = date.getFullYear();
+  if (year < 1980) return [0, (1 << 5) | 1];
+  if (year > 2107) {
+    return [(23 << 11) | (59 << 5) | 29, (127 << 9) | (12 << 5) | 31];
+  }
+  return [
+    (date.getHours() << 11) | (date.getMinutes() << 5) |
+    (date.getSeconds() >> 1),
+    ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  ];
+}
+
+function parseDosDateTime(time: number, date: number): number {
+  return new Date(
+    (date >> 9) + 1980,
+    ((date >> 5) & 15) - 1,
+    date & 31,
+    time >> 11,
+    (time >> 5) & 63,
+    (time & 31) * 2,
+  ).valueOf() / 1000;
+}
+
+/** Little endian field writer */
+class Fields {
+  bytes: Uint8Array;
+  #view: DataView;
+  #offset = 0;
+
+  constructor(size: number) {
+    this.bytes = new Uint8Array(size);
+    this.#view = new DataView(this.bytes.buffer);
+  }
+
+  uint16(value: number): this {
+    this.#view.setUint16(this.#offset, value, true);
+    this.#offset += 2;
+    return this;
+  }
+
+  uint32(value: number): this {
+    this.#view.setUint32(this.#offset, value, true);
+    this.#offset += 4;
+    return this;
+  }
+
+  uint64(value: number): this {
+    this.#view.setBigUint64(this.#offset, BigInt(value), true);
+    this.#offset += 8;
+    return this;
+  }
+
+  set(bytes: Uint8Array): this {
+    this.bytes.set(bytes, this.#offset);
+    this.#offset += bytes.length;
+    return this;
+  }
+}
+
+/** Little endian field reader */
+class FieldReader {
+  #view: DataView;
+  offset: number;
+
+  constructor(bytes: Uint8Array, offset = 0) {
+    this.#view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+    this.offset = offset;
+  }
+
+  uint16(): number {
+    const value = this.#view.getUint16(this.offset, true);
+    this.offset += 2;
+    return value;
+  }
+
+  uint32(): number {
+    const value = this.#view.getUint32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  int32(): number {
+    const value = this.#view.getInt32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  uint64(): number {
+    const value = this.#view.getBigUint64(this.offset, true);
+    this.offset += 8;
+    if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+      throw new Error("zip64 value too large");
+    }
+    return Number(value);
+  }
+}
+
+function timestampExtra(mtime: number): Uint8Array {
+  // only the modification time, which must fit in 32 bits
+  if (mtime < -0x80000000 || mtime > 0x7fffffff) return new Uint8Array(0);
+  const fields = new Fields(9).uint16(timestampExtraId).uint16(5);
+  fields.bytes[4] = 1;
+  new DataView(fields.bytes.buffer).setInt32(5, mtime, true);
+  return fields.bytes;
+}
+
+/**
+ * Whether an entry of `size` bytes, or of unknown size, may have sizes which
+ * don't fit in 32 bits once compressed
+ */
+function mayNeedZip64(size?: number): boolean {
+  // deflate grows incompressible data by a few bytes per stored block
+  return size === undefined || size + Math.floor(size / 1024) + 1024 >= max32;
+}
+
+function localHeader(data: ZipData): Uint8Array {
+  const [time, date] = dosDateTime(data.mtime);
+  const extras = [timestampExtra(data.mtime)];
+  if (data.zip64) {
+    // tells streaming readers that the data descriptor holds 64 bit sizes
+    extras.unshift(
+      new Fields(20).uint16(zip64ExtraId).uint16(16).uint64(0).uint64(0).bytes,
+    );
+  }
+  const extraLength = extras.reduce((n, extra) => n + extra.length, 0);
+  // the CRC-32 and sizes follow the data in a data descriptor
+  const fields = new Fields(
+    localHeaderSize + data.fileName.length + extraLength,
+  )
+    .uint32(localHeaderSignature)
+    .uint16(data.zip64 ? versionZip64 : versionDefault)
+    .uint16(data.flags)
+    .uint16(data.method)
+    .uint16(time)
+    .uint16(date)
+    .uint32(0)
+    .uint32(data.zip64 ? max32 : 0)
+    .uint32(data.zip64 ? max32 : 0)
+    .uint16(data.fileName.length)
+    .uint16(extraLength)
+    .set(data.fileName);
+  extras.forEach((extra) => fields.set(extra));
+  return fields.bytes;
+}
+
+function dataDescriptor(
+  data: ZipData,
+  crc: number,
+  compressedSize: number,
+  size: number,
+): Uint8Array {
+  if (data.zip64) {
+    return new Fields(24)
+      .uint32(dataDescriptorSignature)
+      .uint32(crc)
+      .uint64(compressedSize)
+      .uint64(size).bytes;
+  }
+  if (compressedSize >= max32 || size >= max32) {
+    throw new Error(
+      `zip entry of 4 GiB or more appended with a smaller contentSize: ${
+        decodeName(data.fileName)
+      }`,
+    );
+  }
+  return new Fields(16)
+    .uint32(dataDescriptorSignature)
+    .uint32(crc)
+    .uint32(compressedSize)
+    .uint32(size).bytes;
+}
+
+function centralHeader(
+  data: ZipData,
+  crc: number,
+  compressedSize: number,
+  size: number,
+  offset: number,
+): Uint8Array {
+  const [time, date] = dosDateTime(data.mtime);
+  // the ZIP64 extra field only holds the values overflowing their field
+  const zip64Values = [size, compressedSize, offset].filter((v) => v >= max32);
+  const zip64 = zip64Values.length > 0;
+  const extras = [timestampExtra(data.mtime)];
+  if (zip64) {
+    const fields = new Fields(4 + zip64Values.length * 8)
+      .uint16(zip64ExtraId)
+      .uint16(zip64Values.length * 8);
+    zip64Values.forEach((value) => fields.uint64(value));
+    extras.unshift(fields.bytes);
+  }
+  const extraLength = extras.reduce((n, extra) => n + extra.length, 0);
+  const version = zip64 || data.zip64 ? versionZip64 : versionDefault;
+  const fields = new Fields(
+    centralHeaderSize + data.fileName.length + extraLength +
+      data.comment.length,
+  )
+    .uint32(centralHeaderSignature)
+    .uint16((creatorUnix << 8) | version)
+    .uint16(version)
+    .uint16(data.flags)
+    .uint16(data.method)
+    .uint16(time)
+    .uint16(date)
+    .uint32(crc)
+    .uint32(Math.min(compressedSize, max32))
+    .uint32(Math.min(size, max32))
+    .uint16(data.fileName.length)
+    .uint16(extraLength)
+    .uint16(data.comment.length)
+    .uint16(0)
+    .uint16(0)
+    .uint32(data.externalAttributes)
+    .uint32(Math.min(offset, max32))
+    .set(data.fileName);
+  extras.forEach((extra) => fields.set(extra));
+  return fields.set(data.comment).bytes;
+}
+
+function endRecords(
+  entries: number,
+  centralSize: number,
+  centralOffset: number,
+): Uint8Array {
+  const end = new Fields(endSize)
+    .uint32(endSignature)
+    .uint16(0)
+    .uint16(0)
+    .uint16(Math.min(entries, max16))
+    .uint16(Math.min(entries, max16))
+    .uint32(Math.min(centralSize, max32))
+    .uint32(Math.min(centralOffset, max32))
+    .uint16(0).bytes;
+  if (entries < max16 && centralSize < max32 && centralOffset < max32) {
+    return end;
+  }
+  return new Fields(zip64EndSize + zip64LocatorSize + endSize)
+    .uint32(zip64EndSignature)
+    .uint64(zip64EndSize - 12)
+    .uint16((creatorUnix << 8) | versionZip64)
+    .uint16(versionZip64)
+    .uint32(0)
+    .uint32(0)
+    .uint64(entries)
+    .uint64(entries)
+    .uint64(centralSize)
+    .uint64(centralOffset)
+    .uint32(zip64LocatorSignature)
+    .uint32(0)
+    .uint64(centralOffset + centralSize)
+    .uint32(1)
+    .set(end).bytes;
+}
+
+/**
+ * A class to create a zip archive. The entries are compressed while the
+ * archive is read from `getReader()`.
+ */
+export class Zip {
+  #data: ZipData[] = [];
+
+  /**
+   * Append a file to this zip archive
+   * @param fn file name
+   *                 e.g., test.txt; use slash for directory separators
+   * @param opts options
+   */
+  async append(fn: string, opts: ZipOptions) {
+    if (typeof fn !== "string") {
+      throw new Error("file name not specified");
+    }
+    opts = opts || {};
+
+    let info: Deno.FileInfo | undefined;
+    if (opts.filePath) {
+      info = await Deno.stat(opts.filePath);
+    }
+    const type = opts.type ??
+      (info?.isDirectory || fn.endsWith("/") ? "directory" : "file");
+    let reader = opts.reader;
+    let filePath = opts.filePath;
+    let size = filePath ? info?.size : opts.contentSize;
+    let typeBits: number;
+    switch (type) {
+      case "file":
+        typeBits = modeRegular;
+        if (!reader && !filePath) {
+          throw new Error("content not specified for file entry");
+        }
+        break;
+      case "directory":
+        typeBits = modeDirectory;
+        if (!fn.endsWith("/")) fn += "/";
+        reader = filePath = undefined;
+        size = 0;
+        break;
+      case "symlink": {
+        typeBits = modeSymlink;
+        if (!opts.linkName) {
+          throw new Error(`link name not specified for ${type} entry`);
+        }
+        const link = encoder.encode(opts.linkName);
+        reader = new Buffer(link);
+        size = link.length;
+        filePath = undefined;
+        break;
+      }
+      default:
+        throw new Error(`unsupported file type: ${type}`);
+    }
+
+    const method = opts.method ?? "deflate";
+    if (method !== "store" && method !== "deflate") {
+      throw new Error(`unsupported compression method: ${method}`);
+    }
+    const mode = (opts.fileMode ?? info?.mode ??
+      (type === "file" ? 0o644 : 0o755)) & 0o7777;
+    const mtime = Math.floor(
+      opts.mtime ?? (info?.mtime ?? new Date()).valueOf() / 1000,
+    );
+    const comment = opts.comment ?? "";
+    // names and comments are UTF-8 if not ASCII
+    const utf8 = !isAscii(fn) || !isAscii(comment);
+
+    this.#data.push({
+      fileName: encoder.encode(fn),
+      comment: encoder.encode(comment),
+      flags: flagDataDescriptor | (utf8 ? flagUtf8 : 0),
+      method: method === "store" || type === "directory"
+        ? methodStore
+        : methodDeflate,
+      level: opts.level,
+      mtime,
+      externalAttributes: (((typeBits | mode) << 16) |
+        (type === "directory" ? msdosDirectory : 0)) >>> 0,
+      filePath,
+      reader,
+      zip64: mayNeedZip64(size),
+    });
+  }
+
+  /**
+   * Get a Reader instance for this zip data
+   */
+  getReader(): Reader {
+    return readerFromIterable(this.#generate());
+  }
+
+  async *#generate(): AsyncIterableIterator<Uint8Array> {
+    const central: Uint8Array[] = [];
+    let offset = 0;
+    for (const data of this.#data) {
+      const headerOffset = offset;
+      const header = localHeader(data);
+      yield header;
+      offset += header.length;
+
+      let crc = 0;
+      let size = 0;
+      let compressedSize = 0;
+      const compressor = data.method === methodDeflate
+        ? new Compressor({ format: "deflate-raw", level: data.level })
+        : undefined;
+      const file = data.filePath ? await Deno.open(data.filePath) : undefined;
+      try {
+        const reader = file ?? data.reader;
+        const buf = new Uint8Array(bufSize);
+        while (reader) {
+          const n = await reader.read(buf);
+          if (n === null) break;
+          const chunk = buf.subarray(0, n);
+          crc = crc32(chunk, crc);
+          size += n;
+          // the chunk is copied as buf is reused
+          const out = compressor ? compressor.push(chunk) : chunk.slice();
+          if (out.length > 0) yield out;
+          compressedSize += out.length;
+        }
+      } finally {
+        file?.close();
+      }
+      if (compressor) {
+        const out = compressor.finish();
+        yield out;
+        compressedSize += out.length;
+      }
+      offset += compressedSize;
+
+      const descriptor = dataDescriptor(data, crc, compressedSize, size);
+      yield descriptor;
+      offset += descriptor.length;
+      central.push(
+        centralHeader(data, crc, compressedSize, size, headerOffset),
+      );
+    }
+
+    const centralSize = central.reduce((n, header) => n + header.length, 0);
+    yield* central;
+    yield endRecords(central.length, centralSize, offset);
+  }
+}
+
+interface ZipRecord {
+  meta: ZipMeta;
+  flags: number;
+  localHeaderOffset: number;
+}
+
+function parseExtraFields(extra: Uint8Array): Map<number, Uint8Array> {
+  const fields = new Map<number, Uint8Array>();
+  const reader = new FieldReader(extra);
+  while (reader.offset + 4 <= extra.length) {
+    const id = reader.uint16();
+    const size = reader.uint16();
+    fields.set(id, extra.subarray(reader.offset, reader.offset + size));
+    reader.offset += size;
+  }
+  return fields;
+}
+
+function parseCentralDirectory(
+  bytes: Uint8Array,
+  entries: number,
+): ZipRecord[] {
+  const records: ZipRecord[] = [];
+  const reader = new FieldReader(bytes);
+  for (let i = 0; i < entries; i++) {
+    if (
+      reader.offset + centralHeaderSize > bytes.length ||
+      reader.uint32() !== centralHeaderSignature
+    ) {
+      throw new Error("invalid zip central directory header");
+    }
+    const creator = reader.uint16() >> 8;
+    reader.uint16(); // version needed
+    const flags = reader.uint16();
+    const methodNumber = reader.uint16();
+    const time = reader.uint16();
+    const date = reader.uint16();
+    const crc = reader.uint32();
+    let compressedSize = reader.uint32();
+    let fileSize = reader.uint32();
+    const nameLength = reader.uint16();
+    const extraLength = reader.uint16();
+    const commentLength = reader.uint16();
+    reader.uint16(); // disk number
+    reader.uint16(); // internal attributes
+    const externalAttributes = reader.uint32();
+    let localHeaderOffset = reader.uint32();
+
+    const start = reader.offset;
+    const name = bytes.subarray(start, start + nameLength);
+    const extra = parseExtraFields(
+      bytes.subarray(start + nameLength, start + nameLength + extraLength),
+    );
+    const comment = bytes.subarray(
+      start + nameLength + extraLength,
+      start + nameLength + extraLength + commentLength,
+    );
+    reader.offset = start + nameLength + extraLength + commentLength;
+    if (reader.offset > bytes.length) {
+      throw new Error("invalid zip central directory header");
+    }
+    const decode = flags & flagUtf8
+      ? (b: Uint8Array) => decoder.decode(b)
+      : decodeName;
+
+    const zip64 = extra.get(zip64ExtraId);
+    if (zip64) {
+      const values = new FieldReader(zip64);
+      if (fileSize === max32) fileSize = values.uint64();
+      if (compressedSize === max32) compressedSize = values.uint64();
+      if (localHeaderOffset === max32) localHeaderOffset = values.uint64();
+    }
+    let mtime = parseDosDateTime(time, date);
+    const timestamp = extra.get(timestampExtraId);
+    if (timestamp && timestamp.length >= 5 && timestamp[0] & 1) {
+      mtime = new FieldReader(timestamp, 1).int32();
+    }
+
+    // Info-ZIP Unicode Path, valid if the header name did not change
+    let fileName = decode(name);
+    const unicodePath = extra.get(unicodePathExtraId);
+    if (
+      unicodePath && unicodePath.length >= 5 && unicodePath[0] === 1 &&
+      new FieldReader(unicodePath, 1).uint32() === crc32(name)
+    ) {
+      fileName = decoder.decode(unicodePath.subarray(5));
+    }
+    const meta: ZipMeta = {
+      fileName,
+      fileSize,
+      compressedSize,
+      method: methodNumber === methodStore
+        ? "store"
+        : methodNumber === methodDeflate
+        ? "deflate"
+        : methodNumber,
+      crc32: crc,
+      mtime,
+      type: fileName.endsWith("/") ? "directory" : "file",
+    };
+    if (creator === creatorUnix && externalAttributes >>> 16) {
+      const mode = externalAttributes >>> 16;
+      meta.fileMode = mode & 0o7777;
+      if ((mode & modeTypeMask) === modeDirectory) meta.type = "directory";
+      if ((mode & modeTypeMask) === modeSymlink) meta.type = "symlink";
+    } else if (externalAttributes & msdosDirectory) {
+      meta.type = "directory";
+    }
+    if (commentLength > 0) meta.comment = decode(comment);
+    records.push({ meta, flags, localHeaderOffset });
+  }
+  return records;
+}
+
+// deno-lint-ignore no-empty-interface
+export interface ZipEntry extends ZipMeta {}
+
+/**
+ * The decompressed content of an entry. The CRC-32 and size of the content
+ * are checked when it is read to the end.
+ */
+export class ZipEntry implements Reader {
+  #reader: Reader & Seeker;
+  #position: number;
+  #remaining: number;
+  #decompressor?: Decompressor;
+  #pending = new Uint8Array(0);
+  #crc = 0;
+  #size = 0;
+  #consumed = false;
+
+  constructor(meta: ZipMeta, reader: Reader & Seeker, dataOffset: number) {
+    Object.assign(this, meta);
+    this.#reader = reader;
+    this.#position = dataOffset;
+    this.#remaining = meta.compressedSize;
+    if (meta.method === "deflate") {
+      this.#decompressor = new Decompressor({ format: "deflate-raw" });
+    }
+  }
+
+  get consumed(): boolean {
+    return this.#consumed;
+  }
+
+  async read(p: Uint8Array): Promise<number | null> {
+    while (this.#pending.length === 0) {
+      if (this.#consumed) return null;
+      if (this.#remaining === 0) {
+        this.#consumed = true;
+        this.#verify();
+        return null;
+      }
+      const n = Math.min(this.#remaining, bufSize);
+      const chunk = await readRange(this.#reader, {
+        start: this.#position,
+        end: this.#position + n - 1,
+      });
+      this.#position += n;
+      this.#remaining -= n;
+      const data = this.#decompressor ? this.#decompressor.push(chunk) : chunk;
+      this.#crc = crc32(data, this.#crc);
+      this.#size += data.length;
+      this.#pending = data;
+    }
+    const n = Math.min(p.length, this.#pending.length);
+    p.set(this.#pending.subarray(0, n));
+    this.#pending = this.#pending.subarray(n);
+    return n;
+  }
+
+  discard() {
+    // The entries are read at their offset, nothing to skip
+    this.#consumed = true;
+  }
+
+  #verify() {
+    this.#decompressor?.finish();
+    if (this.#size !== this.fileSize) {
+      throw new Error(`size mismatch of zip entry: ${this.fileName}`);
+    }
+    if (this.#crc !== this.crc32) {
+      throw new Error(`crc32 checksum mismatch of zip entry: ${this.fileName}`);
+    }
+  }
+}
+
+/**
+ * A class to read a zip archive. The entries are listed from the central
+ * directory at the end of the archive, so the reader must be seekable.
+ */
+export class Unzip implements AsyncIterable<ZipEntry> {
+  reader: Reader & Seeker;
+  #records: ZipRecord[] | undefined;
+  #index = 0;
+
+  constructor(reader: Reader & Seeker) {
+    this.reader = reader;
+  }
+
+  /** List the entries without extracting them */
+  async list(): Promise<ZipMeta[]> {
+    const records = await this.#readCentralDirectory();
+    return records.map(({ meta }) => ({ ...meta }));
+  }
+
+  /**
+   * Get the entry named `fileName`, or `null` if there is no such entry
+   */
+  async open(fileName: string): Promise<ZipEntry | null> {
+    const records = await this.#readCentralDirectory();
+    const record = records.find(({ meta }) => meta.fileName === fileName);
+    return record ? await this.#entry(record) : null;
+  }
+
+  /** Get the next entry, or `null` after the last one */
+  async extract(): Promise<ZipEntry | null> {
+    const records = await this.#readCentralDirectory();
+    if (this.#index >= records.length) return null;
+    return await this.#entry(records[this.#index++]);
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterableIterator<ZipEntry> {
+    while (true) {
+      const entry = await this.extract();
+      if (entry === null) return;
+      yield entry;
+    }
+  }
+
+  async #entry({ meta, flags, localHeaderOffset }: ZipRecord) {
+    if (flags & flagEncrypted) {
+      throw new Error(`encrypted zip entry is not supported: ${meta.fileName}`);
+    }
+    if (typeof meta.method === "number") {
+      throw new Error(`unsupported compression method: ${meta.method}`);
+    }
+    const header = await readRange(this.reader, {
+      start: localHeaderOffset,
+      end: localHeaderOffset + localHeaderSize - 1,
+    });
+    const fields = new FieldReader(header);
+    if (fields.uint32() !== localHeaderSignature) {
+      throw new Error("invalid zip local file header");
+    }
+    fields.offset = 26;
+    const nameLength = fields.uint16();
+    const extraLength = fields.uint16();
+    return new ZipEntry(
+      meta,
+      this.reader,
+      localHeaderOffset + localHeaderSize + nameLength + extraLength,
+    );
+  }
+
+  async #readCentralDirectory(): Promise<ZipRecord[]> {
+    if (this.#records) return this.#records;
+
+    // the end record is followed by a comment of up to 65535 bytes
+    const size = await this.reader.seek(0, Deno.SeekMode.End);
+    const tailStart = Math.max(0, size - endSize - max16);
+    if (size < endSize) {
+      throw new Error("zip end of central directory record not found");
+    }
+    const tail = await readRange(this.reader, {
+      start: tailStart,
+      end: size - 1,
+    });
+    let endOffset = -1;
+    for (let i = tail.length - endSize; i >= 0; i--) {
+      if (new FieldReader(tail, i).uint32() === endSignature) {
+        endOffset = i;
+        break;
+      }
+    }
+    if (endOffset < 0) {
+      throw new Error("zip end of central directory record not found");
+    }
+    const end = new FieldReader(tail, endOffset + 10);
+    let entries = end.uint16();
+    let centralSize = end.uint32();
+    let centralOffset = end.uint32();
+
+    const locatorOffset = tailStart + endOffset - zip64LocatorSize;
+    if (locatorOffset >= 0) {
+      const locator = new FieldReader(
+        await readRange(this.reader, {
+          start: locatorOffset,
+          end: locatorOffset + zip64LocatorSize - 1,
+        }),
+      );
+      if (locator.uint32() === zip64LocatorSignature) {
+        locator.uint32();
+        const zip64EndOffset = locator.uint64();
+        const zip64End = new FieldReader(
+          await readRange(this.reader, {
+            start: zip64EndOffset,
+            end: zip64EndOffset + zip64EndSize - 1,
+          }),
+        );
+        if (zip64End.uint32() !== zip64EndSignature) {
+          throw new Error("invalid zip64 end of central directory record");
+        }
+        zip64End.offset = 32;
+        entries = zip64End.uint64();
+        centralSize = zip64End.uint64();
+        centralOffset = zip64End.uint64();
+      }
+    }
+
+    const central = centralSize > 0
+      ? await readRange(this.reader, {
+        start: centralOffset,
+        end: centralOffset + centralSize - 1,
+      })
+      : new Uint8Array(0);
+    this.#records = parseCentralDirectory(central, entries);
+    return this.#records;
+  }
+}
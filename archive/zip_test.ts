@@ -0,0 +1,298 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { assert, assertEquals, assertThrowsAsync } from "../testing/asserts.ts";
+import { dirname, fromFileUrl, resolve } from "../path/mod.ts";
+import { Buffer } from "../io/buffer.ts";
+import { readAll } from "../io/util.ts";
+import { indexOf } from "../bytes/mod.ts";
+import { Unzip, Zip, ZipMeta } from "./zip.ts";
+
+const moduleDir = dirname(fromFileUrl(import.meta.url));
+const testdataDir = resolve(moduleDir, "testdata");
+const filePath = resolve(testdataDir, "example.txt");
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+async function withZipFile(
+  zip: Zip,
+  fn: (unzip: Unzip, path: string) => Promise<void>,
+) {
+  const path = await Deno.makeTempFile({ suffix: ".zip" });
+  try {
+    const file = await Deno.open(path, { write: true });
+    await Deno.copy(zip.getReader(), file);
+    file.close();
+    const reader = await Deno.open(path);
+    try {
+      await fn(new Unzip(reader), path);
+    } finally {
+      reader.close();
+    }
+  } finally {
+    await Deno.remove(path);
+  }
+}
+
+async function readText(unzip: Unzip, fileName: string): Promise<string> {
+  const entry = await unzip.open(fileName);
+  assert(entry !== null, `${fileName} not found`);
+  return decoder.decode(await readAll(entry));
+}
+
+Deno.test("zipAndUnzip", async function (): Promise<void> {
+  const zip = new Zip();
+  const large = "deno ".repeat(100000);
+  await zip.append("dir/", { mtime: 1623326400 });
+  await zip.append("dir/deflated.txt", {
+    reader: new Buffer(encoder.encode(large)),
+    mtime: 1623326400,
+    fileMode: 0o600,
+    comment: "large text",
+  });
+  await zip.append("dir/stored.txt", {
+    filePath,
+    method: "store",
+  });
+  await zip.append("dir/link", { type: "symlink", linkName: "stored.txt" });
+  await zip.append("dir/日本語.txt", {
+    reader: new Buffer(encoder.encode("こんにちは")),
+    level: 9,
+  });
+  await zip.append("empty.txt", { reader: new Buffer() });
+
+  await withZipFile(zip, async (unzip) => {
+    const list = await unzip.list();
+    assertEquals(list.map((meta) => meta.fileName), [
+      "dir/",
+      "dir/deflated.txt",
+      "dir/stored.txt",
+      "dir/link",
+      "dir/日本語.txt",
+      "empty.txt",
+    ]);
+    assertEquals(list.map((meta) => meta.type), [
+      "directory",
+      "file",
+      "file",
+      "symlink",
+      "file",
+      "file",
+    ]);
+    const deflated = list[1] as ZipMeta;
+    assertEquals(deflated.mtime, 1623326400);
+    assertEquals(deflated.fileMode, 0o600);
+    assertEquals(deflated.fileSize, large.length);
+    assertEquals(deflated.method, "deflate");
+    assertEquals(deflated.comment, "large text");
+    assert(deflated.compressedSize < 1000);
+    assertEquals(list[2].method, "store");
+    assertEquals(list[2].fileSize, (await Deno.stat(filePath)).size);
+
+    assertEquals(await readText(unzip, "dir/deflated.txt"), large);
+    assertEquals(
+      await readText(unzip, "dir/stored.txt"),
+      await Deno.readTextFile(filePath),
+    );
+    assertEquals(await readText(unzip, "dir/link"), "stored.txt");
+    assertEquals(await readText(unzip, "dir/日本語.txt"), "こんにちは");
+    assertEquals(await readText(unzip, "empty.txt"), "");
+    assertEquals(await unzip.open("missing.txt"), null);
+
+    // sequential extraction
+    const names = [];
+    for await (const entry of unzip) {
+      names.push(entry.fileName);
+      await readAll(entry);
+      assert(entry.consumed);
+    }
+    assertEquals(names.length, 6);
+  });
+});
+
+Deno.test("unzipInterleavedEntries", async function (): Promise<void> {
+  const zip = new Zip();
+  const a = "a".repeat(100000);
+  const b = "b".repeat(100000);
+  await zip.append("a.txt", { reader: new Buffer(encoder.encode(a)) });
+  await zip.append("b.txt", {
+    reader: new Buffer(encoder.encode(b)),
+    method: "store",
+  });
+  await withZipFile(zip, async (unzip) => {
+    const entryA = await unzip.open("a.txt");
+    const entryB = await unzip.open("b.txt");
+    assert(entryA && entryB);
+    const bufA = new Uint8Array(10);
+    const bufB = new Uint8Array(10);
+    await entryA.read(bufA);
+    await entryB.read(bufB);
+    assertEquals(decoder.decode(bufA), "a".repeat(10));
+    assertEquals(decoder.decode(bufB), "b".repeat(10));
+    assertEquals((await readAll(entryA)).length, a.length - 10);
+    assertEquals((await readAll(entryB)).length, b.length - 10);
+  });
+});
+
+Deno.test("unzipCrcMismatch", async function (): Promise<void> {
+  const zip = new Zip();
+  await zip.append("stored.txt", {
+    reader: new Buffer(encoder.encode("checked content")),
+    method: "store",
+  });
+  await withZipFile(zip, async (_unzip, path) => {
+    const data = await Deno.readFile(path);
+    const offset = indexOf(data, encoder.encode("checked content"));
+    data[offset] ^= 1;
+    await Deno.writeFile(path, data);
+    const file = await Deno.open(path);
+    try {
+      const entry = await new Unzip(file).extract();
+      assert(entry !== null);
+      await assertThrowsAsync(
+        () => readAll(entry),
+        Error,
+        "crc32 checksum mismatch of zip entry: stored.txt",
+      );
+    } finally {
+      file.close();
+    }
+  });
+});
+
+Deno.test("zipAppendErrors", async function (): Promise<void> {
+  const zip = new Zip();
+  await assertThrowsAsync(
+    () => zip.append("fifo", { type: "fifo" }),
+    Error,
+    "unsupported file type: fifo",
+  );
+  await assertThrowsAsync(
+    () => zip.append("link", { type: "symlink" }),
+    Error,
+    "link name not specified for symlink entry",
+  );
+  await assertThrowsAsync(
+    () => zip.append("file.txt", {}),
+    Error,
+    "content not specified for file entry",
+  );
+});
+
+Deno.test("unzipInfoZipArchive", async function (): Promise<void> {
+  // created with Info-ZIP zip -r -y
+  const file = await Deno.open(resolve(testdataDir, "example.zip"));
+  try {
+    const unzip = new Unzip(file);
+    const list = await unzip.list();
+    assertEquals(list.map(({ fileName, type }) => [fileName, type]), [
+      ["dir/", "directory"],
+      ["dir/link", "symlink"],
+      ["dir/hello.txt", "file"],
+      ["dir/sub/", "directory"],
+      ["dir/sub/big.txt", "file"],
+      ["dir/héllo.txt", "file"],
+    ]);
+    assertEquals(list[2].mtime, 1623326400);
+    assertEquals(list[2].fileMode, 0o644);
+    assertEquals(list[4].method, "deflate");
+    assertEquals(await readText(unzip, "dir/link"), "hello.txt");
+    assertEquals(await readText(unzip, "dir/héllo.txt"), "hello zip\n");
+    assertEquals(
+      await readText(unzip, "dir/sub/big.txt"),
+      "deno ".repeat(2000) + "\n",
+    );
+  } finally {
+    file.close();
+  }
+});
+
+Deno.test("unzipZip64AndCp437Names", async function (): Promise<void> {
+  // ZIP64 extra fields and end of central directory records
+  const zip64 = await Deno.open(resolve(testdataDir, "zip64.zip"));
+  try {
+    const unzip = new Unzip(zip64);
+    const [meta] = await unzip.list();
+    assertEquals(meta.fileName, "zip64.txt");
+    assertEquals(meta.fileSize, 12);
+    assertEquals(await readText(unzip, "zip64.txt"), "hello zip64\n");
+  } finally {
+    zip64.close();
+  }
+
+  // name without the UTF-8 flag
+  const cp437 = await Deno.open(resolve(testdataDir, "cp437.zip"));
+  try {
+    const unzip = new Unzip(cp437);
+    assertEquals(await readText(unzip, "café.txt"), "cp437 name\n");
+  } finally {
+    cp437.close();
+  }
+});
+
+Deno.test("zipZip64LocalHeaders", async function (): Promise<void> {
+  const zip = new Zip();
+  const content = encoder.encode("deno");
+  // unknown size
+  await zip.append("a.txt", { reader: new Buffer(content), method: "store" });
+  await zip.append("b.txt", {
+    reader: new Buffer(content),
+    contentSize: content.length,
+    method: "store",
+  });
+  await zip.append("c.txt", {
+    reader: new Buffer(content),
+    contentSize: 5 * 2 ** 30,
+    method: "store",
+  });
+  const bytes = await readAll(zip.getReader());
+  const view = new DataView(bytes.buffer);
+
+  const entries = [];
+  let offset = 0;
+  for (let i = 0; i < 3; i++) {
+    const version = view.getUint16(offset + 4, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const extraLength = view.getUint16(offset + 28, true);
+    const extraId = view.getUint16(offset + 30 + nameLength, true);
+    offset += 30 + nameLength + extraLength + content.length;
+    assertEquals(view.getUint32(offset, true), 0x08074b50);
+    const zip64 = version === 45 && extraId === 0x0001;
+    const descriptorLength = zip64 ? 24 : 16;
+    assertEquals(
+      view.getUint32(offset + descriptorLength - (zip64 ? 8 : 4), true),
+      content.length,
+    );
+    offset += descriptorLength;
+    entries.push(zip64);
+  }
+  assertEquals(entries, [true, false, true]);
+
+  const path = await Deno.makeTempFile({ suffix: ".zip" });
+  try {
+    await Deno.writeFile(path, bytes);
+    const file = await Deno.open(path);
+    try {
+      const unzip = new Unzip(file);
+      for (const name of ["a.txt", "b.txt", "c.txt"]) {
+        assertEquals(await readText(unzip, name), "deno");
+      }
+    } finally {
+      file.close();
+    }
+  } finally {
+    await Deno.remove(path);
+  }
+});
+
+Deno.test("unzipNotZip", async function (): Promise<void> {
+  const file = await Deno.open(filePath);
+  try {
+    await assertThrowsAsync(
+      () => new Unzip(file).list(),
+      Error,
+      "zip end of central directory record not found",
+    );
+  } finally {
+    file.close();
+  }
+});
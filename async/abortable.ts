@@ -0,0 +1,80 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { deferred } from "./deferred.ts";
+
+function abortError(): DOMException {
+  return new DOMException("The operation was aborted.", "AbortError");
+}
+
+/**
+ * Make a promise reject with an `AbortError` when `signal` is aborted. The
+ * underlying operation isn't cancelled; its result is just ignored.
+ *
+ *     const abort = new AbortController();
+ *     const p = abortable(delay(1000), abort.signal);
+ *     abort.abort(); // p rejects
+ */
+export function abortable<T>(p: Promise<T>, signal: AbortSignal): Promise<T>;
+/**
+ * Make an async iterable throw an `AbortError` when `signal` is aborted,
+ * also while waiting for the next value. The underlying iterator is closed
+ * with `return()`.
+ *
+ *     for await (const event of abortable(Deno.watchFs("."), signal)) {
+ *       // ...
+ *     }
+ */
+export function abortable<T>(
+  p: AsyncIterable<T>,
+  signal: AbortSignal,
+): AsyncGenerator<T>;
+export function abortable<T>(
+  p: Promise<T> | AsyncIterable<T>,
+  signal: AbortSignal,
+): Promise<T> | AsyncGenerator<T> {
+  if (p instanceof Promise) {
+    return abortablePromise(p, signal);
+  }
+  return abortableAsyncIterable(p, signal);
+}
+
+function abortablePromise<T>(p: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) {
+    return Promise.reject(abortError());
+  }
+  const waiter = deferred<never>();
+  const abort = () => waiter.reject(abortError());
+  signal.addEventListener("abort", abort, { once: true });
+  return Promise.race([waiter, p]).finally(() => {
+    signal.removeEventListener("abort", abort);
+  });
+}
+
+async function* abortableAsyncIterable<T>(
+  p: AsyncIterable<T>,
+  signal: AbortSignal,
+): AsyncGenerator<T> {
+  if (signal.aborted) {
+    throw abortError();
+  }
+  const waiter = deferred<never>();
+  const abort = () => waiter.reject(abortError());
+  signal.addEventListener("abort", abort, { once: true });
+  const it = p[Symbol.asyncIterator]();
+  let done = false;
+  try {
+    while (true) {
+      const result = await Promise.race([waiter, it.next()]);
+      if (result.done) {
+        done = true;
+        return;
+      }
+      yield result.value;
+    }
+  } finally {
+    signal.removeEventListener("abort", abort);
+    if (!done) {
+      // don't wait for an iterator that may be stuck in next()
+      it.return?.()?.catch(() => {});
+    }
+  }
+}
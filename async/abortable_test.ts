@@ -0,0 +1,67 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { assertEquals, assertThrowsAsync } from "../testing/asserts.ts";
+import { abortable } from "./abortable.ts";
+import { deferred } from "./deferred.ts";
+import { delay } from "./delay.ts";
+
+Deno.test("[async] abortable (Promise)", async function () {
+  const c = new AbortController();
+  const p = deferred<string>();
+  setTimeout(() => p.resolve("Hello"), 10);
+  assertEquals(await abortable(p, c.signal), "Hello");
+});
+
+Deno.test("[async] abortable (Promise) with signal aborted", async function () {
+  const c = new AbortController();
+  const p = deferred<string>();
+  const t = setTimeout(() => p.resolve("Hello"), 100);
+  setTimeout(() => c.abort(), 10);
+  await assertThrowsAsync(
+    () => abortable(p, c.signal),
+    DOMException,
+    "The operation was aborted",
+  );
+  clearTimeout(t);
+  await assertThrowsAsync(() => abortable(p, c.signal), DOMException);
+});
+
+Deno.test("[async] abortable (AsyncIterable)", async function () {
+  const c = new AbortController();
+  const a = async function* () {
+    yield "Hello";
+    await Promise.resolve();
+    yield "World";
+  };
+  const items = [];
+  for await (const item of abortable(a(), c.signal)) items.push(item);
+  assertEquals(items, ["Hello", "World"]);
+});
+
+Deno.test("[async] abortable (AsyncIterable) with signal aborted", async function () {
+  const c = new AbortController();
+  const p = deferred<void>();
+  let closed = false;
+  const a = async function* () {
+    try {
+      yield "Hello";
+      await p;
+      yield "World";
+    } finally {
+      closed = true;
+    }
+  };
+  const items: string[] = [];
+  setTimeout(() => c.abort(), 10);
+  await assertThrowsAsync(
+    async () => {
+      for await (const item of abortable(a(), c.signal)) items.push(item);
+    },
+    DOMException,
+    "The operation was aborted",
+  );
+  assertEquals(items, ["Hello"]);
+  // the source iterator is closed once it stops waiting
+  p.resolve();
+  await delay(0);
+  assertEquals(closed, true);
+});
@@ -0,0 +1,225 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+
+/** Error thrown when sending to or closing a closed channel */
+export class ChannelClosedError extends Error {
+  name = "ChannelClosedError";
+
+  constructor(message = "channel is closed") {
+    super(message);
+  }
+}
+
+// Called with a received result, returning `false` if the receiver is no
+// longer waiting (e.g. another case of a `select()` won).
+type Receiver<T> = (result: IteratorResult<T, undefined>) => boolean;
+
+interface Sender<T> {
+  value: T;
+  resolve: () => void;
+  reject: (error: ChannelClosedError) => void;
+}
+
+// Used by `select()` to receive without blocking and to register receivers
+// that can be withdrawn.
+const poll = Symbol("poll");
+const watch = Symbol("watch");
+
+/**
+ * A Go-style channel passing values from producers to consumers. With the
+ * default capacity of `0`, `send()` waits until a receiver takes the value.
+ * Otherwise up to `capacity` values are buffered before `send()` waits.
+ *
+ *     const channel = new Channel<number>(10);
+ *     (async () => {
+ *       for (let i = 0; i < 100; i++) await channel.send(i);
+ *       channel.close();
+ *     })();
+ *     for await (const n of channel) {
+ *       console.log(n);
+ *     }
+ */
+export class Channel<T> implements AsyncIterable<T> {
+  readonly capacity: number;
+  #buffer: T[] = [];
+  #senders: Array<Sender<T>> = [];
+  #receivers: Array<Receiver<T>> = [];
+  #closed = false;
+
+  constructor(capacity = 0) {
+    if (!Number.isInteger(capacity) || capacity < 0) {
+      throw new RangeError(`invalid channel capacity: ${capacity}`);
+    }
+    this.capacity = capacity;
+  }
+
+  /** Whether `close()` was called */
+  get closed(): boolean {
+    return this.#closed;
+  }
+
+  /** The number of buffered values */
+  get size(): number {
+    return this.#buffer.length;
+  }
+
+  /**
+   * Send `value` to the channel, resolving once it was received or buffered.
+   * Rejects with a `ChannelClosedError` if the channel is closed, including
+   * when it is closed while waiting.
+   */
+  send(value: T): Promise<void> {
+    if (this.#closed) {
+      return Promise.reject(new ChannelClosedError());
+    }
+    while (this.#receivers.length > 0) {
+      const receiver = this.#receivers.shift()!;
+      if (receiver({ value, done: false })) {
+        return Promise.resolve();
+      }
+    }
+    if (this.#buffer.length < this.capacity) {
+      this.#buffer.push(value);
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      this.#senders.push({ value, resolve, reject });
+    });
+  }
+
+  /**
+   * Receive a value from the channel, waiting until one is available. After
+   * the channel is closed and drained, resolves with `{ done: true }`.
+   */
+  receive(): Promise<IteratorResult<T, undefined>> {
+    const result = this[poll]();
+    if (result) return Promise.resolve(result);
+    return new Promise((resolve) => {
+      this.#receivers.push((result) => {
+        resolve(result);
+        return true;
+      });
+    });
+  }
+
+  /**
+   * Close the channel. Buffered values can still be received, but waiting
+   * senders are rejected with a `ChannelClosedError`. Closing a closed
+   * channel throws.
+   */
+  close() {
+    if (this.#closed) {
+      throw new ChannelClosedError("channel is already closed");
+    }
+    this.#closed = true;
+    for (const { reject } of this.#senders.splice(0)) {
+      reject(new ChannelClosedError());
+    }
+    for (const receiver of this.#receivers.splice(0)) {
+      receiver({ value: undefined, done: true });
+    }
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterableIterator<T> {
+    while (true) {
+      const { value, done } = await this.receive();
+      if (done) return;
+      yield value as T;
+    }
+  }
+
+  /** Receive without waiting, returning `undefined` if it would block */
+  [poll](): IteratorResult<T, undefined> | undefined {
+    if (this.#buffer.length > 0) {
+      const value = this.#buffer.shift()!;
+      const sender = this.#senders.shift();
+      if (sender) {
+        this.#buffer.push(sender.value);
+        sender.resolve();
+      }
+      return { value, done: false };
+    }
+    const sender = this.#senders.shift();
+    if (sender) {
+      sender.resolve();
+      return { value: sender.value, done: false };
+    }
+    if (this.#closed) {
+      return { value: undefined, done: true };
+    }
+    return undefined;
+  }
+
+  /** Register `receiver`, returning a function to unregister it */
+  [watch](receiver: Receiver<T>): () => void {
+    this.#receivers.push(receiver);
+    return () => {
+      const index = this.#receivers.indexOf(receiver);
+      if (index >= 0) this.#receivers.splice(index, 1);
+    };
+  }
+}
+
+export interface SelectOptions {
+  /**
+   * Milliseconds to wait for any of the channels before resolving with
+   * `undefined`. With `0`, `select()` doesn't wait at all. Default is to
+   * wait forever
+   */
+  timeout?: number;
+}
+
+export interface SelectResult<T> {
+  /** The index of the channel that was received from */
+  index: number;
+  channel: Channel<T>;
+  /** The received result, `done` if the channel is closed */
+  result: IteratorResult<T, undefined>;
+}
+
+/**
+ * Wait until a value can be received from any of `channels` and receive it
+ * from that channel only. When several channels are ready, the first one in
+ * `channels` wins. Resolves with `undefined` if `options.timeout` elapses
+ * first.
+ *
+ *     const result = await select([jobs, control], { timeout: 1000 });
+ *     if (result === undefined) {
+ *       // timed out
+ *     } else if (result.channel === control) {
+ *       // ...
+ *     }
+ */
+export function select<T>(
+  channels: Array<Channel<T>>,
+  options: SelectOptions = {},
+): Promise<SelectResult<T> | undefined> {
+  const { timeout } = options;
+  for (const [index, channel] of channels.entries()) {
+    const result = channel[poll]();
+    if (result) return Promise.resolve({ index, channel, result });
+  }
+  if (timeout !== undefined && timeout <= 0) {
+    return Promise.resolve(undefined);
+  }
+  return new Promise((resolve) => {
+    let settled = false;
+    let timer: number | undefined;
+    const unwatchers: Array<() => void> = [];
+    const settle = (value: SelectResult<T> | undefined) => {
+      settled = true;
+      clearTimeout(timer);
+      for (const unwatch of unwatchers) unwatch();
+      resolve(value);
+    };
+    for (const [index, channel] of channels.entries()) {
+      unwatchers.push(channel[watch]((result) => {
+        if (settled) return false;
+        settle({ index, channel, result });
+        return true;
+      }));
+    }
+    if (timeout !== undefined) {
+      timer = setTimeout(() => settle(undefined), timeout);
+    }
+  });
+}
@@ -0,0 +1,113 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import {
+  assert,
+  assertEquals,
+  assertThrows,
+  assertThrowsAsync,
+} from "../testing/asserts.ts";
+import { Channel, ChannelClosedError, select } from "./channel.ts";
+import { delay } from "./delay.ts";
+
+Deno.test("[async] Channel: unbuffered", async function () {
+  const channel = new Channel<number>();
+  let sent = false;
+  const p = channel.send(1).then(() => sent = true);
+  await delay(0);
+  assert(!sent);
+  assertEquals(await channel.receive(), { value: 1, done: false });
+  await p;
+  assert(sent);
+});
+
+Deno.test("[async] Channel: buffered backpressure", async function () {
+  const channel = new Channel<number>(2);
+  await channel.send(1);
+  await channel.send(2);
+  assertEquals(channel.size, 2);
+  let sent = false;
+  const p = channel.send(3).then(() => sent = true);
+  await delay(0);
+  assert(!sent);
+  assertEquals((await channel.receive()).value, 1);
+  await p;
+  assertEquals(channel.size, 2);
+  channel.close();
+  const values = [];
+  for await (const value of channel) values.push(value);
+  assertEquals(values, [2, 3]);
+});
+
+Deno.test("[async] Channel: close", async function () {
+  const channel = new Channel<string>();
+  const receiving = channel.receive();
+  channel.close();
+  assertEquals(await receiving, { value: undefined, done: true });
+  assertEquals(await channel.receive(), { value: undefined, done: true });
+  await assertThrowsAsync(
+    () => channel.send("a"),
+    ChannelClosedError,
+    "channel is closed",
+  );
+  assertThrows(
+    () => channel.close(),
+    ChannelClosedError,
+    "channel is already closed",
+  );
+
+  const waiting = new Channel<string>();
+  const sending = waiting.send("a");
+  waiting.close();
+  await assertThrowsAsync(() => sending, ChannelClosedError);
+  assertThrows(() => new Channel(-1), RangeError);
+});
+
+Deno.test("[async] Channel: producers and consumers", async function () {
+  const channel = new Channel<number>(3);
+  const producers = [0, 1, 2].map(async (p) => {
+    for (let i = 0; i < 10; i++) await channel.send(p * 10 + i);
+  });
+  const consumers = [0, 1].map(async () => {
+    const values = [];
+    for await (const value of channel) values.push(value);
+    return values;
+  });
+  await Promise.all(producers);
+  channel.close();
+  const received = (await Promise.all(consumers)).flat().sort((a, b) => a - b);
+  assertEquals(received, Array.from({ length: 30 }, (_, i) => i));
+});
+
+Deno.test("[async] select", async function () {
+  const a = new Channel<string>(1);
+  const b = new Channel<string>(1);
+  await b.send("b");
+  const ready = await select([a, b]);
+  assertEquals(ready?.index, 1);
+  assertEquals(ready?.result, { value: "b", done: false });
+
+  // only the winning channel is received from
+  const waiting = select([a, b]);
+  await a.send("a1");
+  await b.send("b1");
+  const result = await waiting;
+  assertEquals(result?.channel, a);
+  assertEquals(result?.result.value, "a1");
+  assertEquals(b.size, 1);
+  assertEquals((await b.receive()).value, "b1");
+
+  a.close();
+  assertEquals((await select([b, a]))?.result, {
+    value: undefined,
+    done: true,
+  });
+});
+
+Deno.test("[async] select: timeout", async function () {
+  const channel = new Channel<number>();
+  assertEquals(await select([channel], { timeout: 0 }), undefined);
+  assertEquals(await select([channel], { timeout: 10 }), undefined);
+  // the timed out select no longer receives
+  const sending = channel.send(1);
+  assertEquals(await channel.receive(), { value: 1, done: false });
+  await sending;
+});
@@ -0,0 +1,296 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+// Combinators for async iterables. Closing an iterator returned from them,
+// e.g. by breaking out of a `for await` loop, closes the source iterators
+// with `return()`, so that the resources behind them are released.
+
+type AnyIterable<T> = AsyncIterable<T> | Iterable<T>;
+
+function iteratorOf<T>(
+  iterable: AnyIterable<T>,
+): AsyncIterator<T> | Iterator<T> {
+  return Symbol.asyncIterator in iterable
+    ? (iterable as AsyncIterable<T>)[Symbol.asyncIterator]()
+    : (iterable as Iterable<T>)[Symbol.iterator]();
+}
+
+/**
+ * Close `iterator`. If a `next()` call is still pending, `return()` is
+ * queued behind it, so it isn't waited for.
+ */
+async function close<T>(
+  iterator: AsyncIterator<T> | Iterator<T>,
+  pending?: Promise<unknown>,
+) {
+  if (pending) {
+    pending.catch(() => {});
+    Promise.resolve(iterator.return?.()).catch(() => {});
+  } else {
+    await iterator.return?.();
+  }
+}
+
+/**
+ * Transform each value with `fn`.
+ *
+ *     for await (const name of map(Deno.readDir("."), (e) => e.name)) {}
+ */
+export async function* map<T, U>(
+  iterable: AnyIterable<T>,
+  fn: (value: T, index: number) => U | Promise<U>,
+): AsyncIterableIterator<U> {
+  let index = 0;
+  for await (const value of iterable) {
+    yield await fn(value, index++);
+  }
+}
+
+/** Yield the values for which `predicate` returns `true` */
+export function filter<T, S extends T>(
+  iterable: AnyIterable<T>,
+  predicate: (value: T, index: number) => value is S,
+): AsyncIterableIterator<S>;
+export function filter<T>(
+  iterable: AnyIterable<T>,
+  predicate: (value: T, index: number) => boolean | Promise<boolean>,
+): AsyncIterableIterator<T>;
+export async function* filter<T>(
+  iterable: AnyIterable<T>,
+  predicate: (value: T, index: number) => boolean | Promise<boolean>,
+): AsyncIterableIterator<T> {
+  let index = 0;
+  for await (const value of iterable) {
+    if (await predicate(value, index++)) yield value;
+  }
+}
+
+/** Yield the first `n` values, then close the source */
+export async function* take<T>(
+  iterable: AnyIterable<T>,
+  n: number,
+): AsyncIterableIterator<T> {
+  if (n <= 0) return;
+  let count = 0;
+  for await (const value of iterable) {
+    yield value;
+    if (++count >= n) return;
+  }
+}
+
+/** Skip the first `n` values and yield the rest */
+export async function* drop<T>(
+  iterable: AnyIterable<T>,
+  n: number,
+): AsyncIterableIterator<T> {
+  let count = 0;
+  for await (const value of iterable) {
+    if (count++ >= n) yield value;
+  }
+}
+
+/**
+ * Group the values into arrays of `size` values. The last array holds the
+ * remaining values and may be shorter.
+ */
+export async function* chunk<T>(
+  iterable: AnyIterable<T>,
+  size: number,
+): AsyncIterableIterator<T[]> {
+  if (!Number.isInteger(size) || size < 1) {
+    throw new RangeError(`invalid chunk size: ${size}`);
+  }
+  let buffer: T[] = [];
+  for await (const value of iterable) {
+    buffer.push(value);
+    if (buffer.length >= size) {
+      yield buffer;
+      buffer = [];
+    }
+  }
+  if (buffer.length > 0) yield buffer;
+}
+
+export interface WindowByTimeOptions {
+  /** Yield the window early when it holds this many values */
+  maxSize?: number;
+}
+
+/**
+ * Group the values arriving within `ms` milliseconds of the first value of
+ * each group into arrays. No empty arrays are yielded.
+ *
+ *     for await (const lines of windowByTime(readLines(conn), 1000)) {
+ *       await flushToDisk(lines);
+ *     }
+ */
+export async function* windowByTime<T>(
+  iterable: AnyIterable<T>,
+  ms: number,
+  options: WindowByTimeOptions = {},
+): AsyncIterableIterator<T[]> {
+  const { maxSize = Infinity } = options;
+  const iterator = iteratorOf(iterable);
+  let pending: Promise<IteratorResult<T>> | undefined;
+  let timer: number | undefined;
+  let done = false;
+  try {
+    while (!done) {
+      const first = await (pending ?? iterator.next());
+      pending = undefined;
+      if (first.done) {
+        done = true;
+        return;
+      }
+      const window = [first.value];
+      const elapsed = new Promise<undefined>((resolve) => {
+        timer = setTimeout(resolve, ms);
+      });
+      while (window.length < maxSize) {
+        pending ??= Promise.resolve(iterator.next());
+        const result = await Promise.race([pending, elapsed]);
+        if (result === undefined) break;
+        pending = undefined;
+        if (result.done) {
+          done = true;
+          break;
+        }
+        window.push(result.value);
+      }
+      clearTimeout(timer);
+      yield window;
+    }
+  } finally {
+    clearTimeout(timer);
+    if (!done) await close(iterator, pending);
+  }
+}
+
+/**
+ * Combine the values at the same positions into tuples, until any of the
+ * iterables ends. The other iterables are then closed.
+ *
+ *     for await (const [name, size] of zip(names, sizes)) {}
+ */
+export async function* zip<T extends unknown[]>(
+  ...iterables: { [K in keyof T]: AnyIterable<T[K]> }
+): AsyncIterableIterator<T> {
+  const iterators = iterables.map((iterable) => iteratorOf(iterable));
+  const finished = new Set<number>();
+  try {
+    while (iterators.length > 0) {
+      const results = await Promise.allSettled(
+        iterators.map((iterator) => iterator.next()),
+      );
+      const values = [];
+      let error: { reason: unknown } | undefined;
+      for (const [index, result] of results.entries()) {
+        if (result.status === "rejected") {
+          finished.add(index);
+          error ??= { reason: result.reason };
+        } else if (result.value.done) {
+          finished.add(index);
+        } else {
+          values.push(result.value.value);
+        }
+      }
+      if (error) throw error.reason;
+      if (finished.size > 0) return;
+      yield values as T;
+    }
+  } finally {
+    await Promise.all(
+      iterators.map((iterator, index) =>
+        finished.has(index) ? undefined : close(iterator)
+      ),
+    );
+  }
+}
+
+/**
+ * Yield the values of all the iterables as they arrive, until all of them
+ * end. When any of them throws, the others are closed.
+ *
+ *     for await (const event of merge(watcherA, watcherB)) {}
+ */
+export async function* merge<T>(
+  ...iterables: Array<AnyIterable<T>>
+): AsyncIterableIterator<T> {
+  type Pulled = { index: number; result?: IteratorResult<T>; error?: unknown };
+  const iterators = iterables.map((iterable) => iteratorOf(iterable));
+  const pending = new Map<number, Promise<Pulled>>();
+  const finished = new Set<number>();
+  const pull = (index: number) => {
+    pending.set(
+      index,
+      Promise.resolve(iterators[index].next()).then(
+        (result) => ({ index, result }),
+        (error) => ({ index, error }),
+      ),
+    );
+  };
+  iterators.forEach((_, index) => pull(index));
+  try {
+    while (pending.size > 0) {
+      const { index, result, error } = await Promise.race(pending.values());
+      pending.delete(index);
+      if (!result) {
+        finished.add(index);
+        throw error;
+      }
+      if (result.done) {
+        finished.add(index);
+        continue;
+      }
+      yield result.value;
+      pull(index);
+    }
+  } finally {
+    await Promise.all(
+      iterators.map((iterator, index) =>
+        finished.has(index) ? undefined : close(iterator, pending.get(index))
+      ),
+    );
+  }
+}
+
+/**
+ * Yield the accumulated value after each value, like `reduce()` but
+ * yielding the intermediate results.
+ *
+ *     // 1, 3, 6
+ *     for await (const sum of scan([1, 2, 3], (sum, n) => sum + n, 0)) {}
+ */
+export async function* scan<T, U>(
+  iterable: AnyIterable<T>,
+  fn: (accumulator: U, value: T, index: number) => U | Promise<U>,
+  initial: U,
+): AsyncIterableIterator<U> {
+  let accumulator = initial;
+  let index = 0;
+  for await (const value of iterable) {
+    accumulator = await fn(accumulator, value, index++);
+    yield accumulator;
+  }
+}
+
+/** Reduce the values into a single value */
+export async function reduce<T, U>(
+  iterable: AnyIterable<T>,
+  fn: (accumulator: U, value: T, index: number) => U | Promise<U>,
+  initial: U,
+): Promise<U> {
+  let accumulator = initial;
+  let index = 0;
+  for await (const value of iterable) {
+    accumulator = await fn(accumulator, value, index++);
+  }
+  return accumulator;
+}
+
+/** Collect all the values into an array */
+export async function toArray<T>(iterable: AnyIterable<T>): Promise<T[]> {
+  const result: T[] = [];
+  for await (const value of iterable) {
+    result.push(value);
+  }
+  return result;
+}
@@ -0,0 +1,116 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { assertEquals, assertThrowsAsync } from "../testing/asserts.ts";
+import {
+  chunk,
+  drop,
+  filter,
+  map,
+  merge,
+  reduce,
+  scan,
+  take,
+  toArray,
+  windowByTime,
+  zip,
+} from "./combinators.ts";
+import { delay } from "./delay.ts";
+
+/** Yield `values` with `ms` between them, recording whether it was closed */
+function source<T>(values: T[], ms = 0) {
+  const state = { closed: false, pulled: 0 };
+  const iterable = (async function* () {
+    try {
+      for (const value of values) {
+        await delay(ms);
+        state.pulled++;
+        yield value;
+      }
+    } finally {
+      state.closed = true;
+    }
+  })();
+  return Object.assign(iterable, { state });
+}
+
+Deno.test("[async] map, filter and scan", async function () {
+  assertEquals(
+    await toArray(map([1, 2, 3], (n, i) => Promise.resolve(`${i}:${n * 2}`))),
+    ["0:2", "1:4", "2:6"],
+  );
+  const even = filter(source([1, 2, 3, 4]), (n) => n % 2 === 0);
+  assertEquals(await toArray(even), [2, 4]);
+  const sums = scan([1, 2, 3], (sum, n) => sum + n, 0);
+  assertEquals(await toArray(sums), [1, 3, 6]);
+  assertEquals(await reduce(source(["a", "b"]), (s, c) => s + c, ""), "ab");
+});
+
+Deno.test("[async] take and drop", async function () {
+  const src = source([1, 2, 3, 4, 5]);
+  assertEquals(await toArray(take(src, 2)), [1, 2]);
+  // the source is closed without pulling more values
+  assertEquals(src.state, { closed: true, pulled: 2 });
+  assertEquals(await toArray(take([1, 2], 0)), []);
+  assertEquals(await toArray(drop([1, 2, 3], 1)), [2, 3]);
+});
+
+Deno.test("[async] chunk", async function () {
+  const chunks = await toArray(chunk([1, 2, 3, 4, 5], 2));
+  assertEquals(chunks, [[1, 2], [3, 4], [5]]);
+  await assertThrowsAsync(() => toArray(chunk([1], 0)), RangeError);
+});
+
+Deno.test("[async] windowByTime", async function () {
+  const src = (async function* () {
+    yield 1;
+    yield 2;
+    await delay(60);
+    yield 3;
+    yield 4;
+    yield 5;
+  })();
+  assertEquals(await toArray(windowByTime(src, 30, { maxSize: 2 })), [
+    [1, 2],
+    [3, 4],
+    [5],
+  ]);
+
+  const slow = source([1, 2, 3], 20);
+  for await (const window of windowByTime(slow, 30)) {
+    assertEquals(window, [1, 2]);
+    break;
+  }
+  await delay(30);
+  assertEquals(slow.state.closed, true);
+});
+
+Deno.test("[async] zip", async function () {
+  const numbers = source([1, 2, 3]);
+  const result = await toArray(zip(numbers, ["a", "b"]));
+  assertEquals(result, [[1, "a"], [2, "b"]]);
+  assertEquals(numbers.state.closed, true);
+});
+
+Deno.test("[async] merge", async function () {
+  const a = source([1, 3, 5], 10);
+  const b = source([2, 4], 15);
+  const values = await toArray(merge(a, b));
+  assertEquals(values.sort(), [1, 2, 3, 4, 5]);
+
+  const c = source([1, 2, 3], 5);
+  const d = source([10, 20, 30], 50);
+  for await (const value of merge(c, d)) {
+    assertEquals(value, 1);
+    break;
+  }
+  await delay(60);
+  assertEquals(c.state.closed, true);
+  assertEquals(d.state.closed, true);
+
+  const failing = map(source([0], 5), () => {
+    throw new Error("failure");
+  });
+  const e = source([1, 2, 3], 20);
+  await assertThrowsAsync(() => toArray(merge(e, failing)), Error, "failure");
+  await delay(30);
+  assertEquals(e.state.closed, true);
+});
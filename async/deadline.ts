@@ -0,0 +1,27 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { deferred } from "./deferred.ts";
+
+/** Error thrown by `deadline()` when the deadline passes */
+export class DeadlineError extends Error {
+  name = "DeadlineError";
+
+  constructor(message = "deadline exceeded") {
+    super(message);
+  }
+}
+
+/**
+ * Make a promise reject with a `DeadlineError` if it doesn't settle within
+ * `ms` milliseconds. The timer is cleared as soon as the promise settles.
+ * The underlying operation isn't cancelled; its result is just ignored.
+ *
+ *     const conn = await deadline(Deno.connect({ port: 8080 }), 1000);
+ */
+export function deadline<T>(p: Promise<T>, ms: number): Promise<T> {
+  const waiter = deferred<never>();
+  const timer = setTimeout(
+    () => waiter.reject(new DeadlineError(`deadline exceeded after ${ms}ms`)),
+    ms,
+  );
+  return Promise.race([waiter, p]).finally(() => clearTimeout(timer));
+}
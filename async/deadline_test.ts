@@ -0,0 +1,29 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { assertEquals, assertThrowsAsync } from "../testing/asserts.ts";
+import { deadline, DeadlineError } from "./deadline.ts";
+import { deferred } from "./deferred.ts";
+
+Deno.test("[async] deadline: return fulfilled promise", async function () {
+  const p = deferred<string>();
+  const t = setTimeout(() => p.resolve("Hello"), 10);
+  assertEquals(await deadline(p, 1000), "Hello");
+  clearTimeout(t);
+});
+
+Deno.test("[async] deadline: throws DeadlineError", async function () {
+  const p = deferred<string>();
+  const t = setTimeout(() => p.resolve("Hello"), 1000);
+  await assertThrowsAsync(
+    () => deadline(p, 10),
+    DeadlineError,
+    "deadline exceeded after 10ms",
+  );
+  clearTimeout(t);
+});
+
+Deno.test("[async] deadline: thrown when promise is rejected", async function () {
+  const p = deferred<string>();
+  const t = setTimeout(() => p.reject(new Error("booom")), 10);
+  await assertThrowsAsync(() => deadline(p, 1000), Error, "booom");
+  clearTimeout(t);
+});
@@ -0,0 +1,90 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+
+export interface DebounceOptions {
+  /** Call the function on the first call of a burst. Default is `false` */
+  leading?: boolean;
+  /** Call the function after a burst of calls ends. Default is `true` */
+  trailing?: boolean;
+  /**
+   * The maximum milliseconds a pending trailing call can be delayed by
+   * further calls. Default is no limit
+   */
+  maxWait?: number;
+}
+
+/** A debounced function returned by `debounce()` */
+export interface DebouncedFunction<T extends unknown[]> {
+  (...args: T): void;
+  /** Call the pending trailing call, if any, immediately */
+  flush(): void;
+  /** Drop the pending trailing call, if any */
+  cancel(): void;
+  /** Whether a trailing call is pending */
+  readonly pending: boolean;
+}
+
+/**
+ * Create a function that delays calling `fn` until `wait` milliseconds have
+ * passed since it was last called. The arguments of the last call are used.
+ *
+ *     const log = debounce((event: Deno.FsEvent) => {
+ *       console.log("[%s] %s", event.kind, event.paths[0]);
+ *     }, 200);
+ *
+ *     for await (const event of Deno.watchFs("./")) {
+ *       log(event);
+ *     }
+ */
+export function debounce<T extends unknown[]>(
+  fn: (...args: T) => void,
+  wait: number,
+  options: DebounceOptions = {},
+): DebouncedFunction<T> {
+  const { leading = false, trailing = true, maxWait } = options;
+  let timer: number | undefined;
+  let maxTimer: number | undefined;
+  let pendingArgs: T | undefined;
+
+  const clearTimers = () => {
+    clearTimeout(timer);
+    clearTimeout(maxTimer);
+    timer = maxTimer = undefined;
+  };
+  const invoke = () => {
+    const args = pendingArgs;
+    pendingArgs = undefined;
+    if (args) fn(...args);
+  };
+
+  const debounced = ((...args: T) => {
+    if (timer === undefined && leading) {
+      fn(...args);
+    } else if (trailing) {
+      pendingArgs = args;
+    }
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      clearTimers();
+      invoke();
+    }, wait);
+    if (maxWait !== undefined && maxTimer === undefined && pendingArgs) {
+      maxTimer = setTimeout(() => {
+        maxTimer = undefined;
+        invoke();
+      }, maxWait);
+    }
+  }) as DebouncedFunction<T>;
+
+  debounced.flush = () => {
+    clearTimers();
+    invoke();
+  };
+  debounced.cancel = () => {
+    clearTimers();
+    pendingArgs = undefined;
+  };
+  Object.defineProperty(debounced, "pending", {
+    get: () => pendingArgs !== undefined,
+  });
+  return debounced;
+}
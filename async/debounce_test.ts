@@ -0,0 +1,62 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { assert, assertEquals } from "../testing/asserts.ts";
+import { debounce } from "./debounce.ts";
+import { delay } from "./delay.ts";
+
+Deno.test("[async] debounce", async function () {
+  const calls: number[] = [];
+  const fn = debounce((n: number) => calls.push(n), 20);
+  fn(1);
+  fn(2);
+  fn(3);
+  assert(fn.pending);
+  assertEquals(calls, []);
+  await delay(40);
+  assertEquals(calls, [3]);
+  assert(!fn.pending);
+});
+
+Deno.test("[async] debounce: leading", async function () {
+  const calls: number[] = [];
+  const fn = debounce((n: number) => calls.push(n), 20, {
+    leading: true,
+    trailing: false,
+  });
+  fn(1);
+  fn(2);
+  assertEquals(calls, [1]);
+  assert(!fn.pending);
+  await delay(40);
+  assertEquals(calls, [1]);
+  fn(3);
+  assertEquals(calls, [1, 3]);
+  fn.cancel();
+});
+
+Deno.test("[async] debounce: maxWait", async function () {
+  const calls: number[] = [];
+  const fn = debounce((n: number) => calls.push(n), 30, { maxWait: 50 });
+  for (let i = 0; i < 8; i++) {
+    fn(i);
+    await delay(10);
+  }
+  // the burst lasted longer than maxWait
+  assert(calls.length >= 1);
+  await delay(60);
+  assertEquals(calls[calls.length - 1], 7);
+});
+
+Deno.test("[async] debounce: flush and cancel", function () {
+  const calls: number[] = [];
+  const fn = debounce((n: number) => calls.push(n), 20);
+  fn(1);
+  fn.flush();
+  assertEquals(calls, [1]);
+  fn.flush();
+  assertEquals(calls, [1]);
+  fn(2);
+  fn.cancel();
+  assert(!fn.pending);
+  fn.flush();
+  assertEquals(calls, [1]);
+});
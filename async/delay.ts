@@ -1,9 +1,25 @@
 // Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+
+export interface DelayOptions {
+  /** Reject with an `AbortError` and clear the timer when aborted */
+  signal?: AbortSignal;
+}
+
 /* Resolves after the given number of milliseconds. */
-export function delay(ms: number): Promise<void> {
-  return new Promise((res): number =>
-    setTimeout((): void => {
+export function delay(ms: number, options: DelayOptions = {}): Promise<void> {
+  const { signal } = options;
+  if (signal?.aborted) {
+    return Promise.reject(new DOMException("Delay was aborted.", "AbortError"));
+  }
+  return new Promise((res, rej): void => {
+    const abort = (): void => {
+      clearTimeout(timer);
+      rej(new DOMException("Delay was aborted.", "AbortError"));
+    };
+    const timer = setTimeout((): void => {
+      signal?.removeEventListener("abort", abort);
       res();
-    }, ms)
-  );
+    }, ms);
+    signal?.addEventListener("abort", abort, { once: true });
+  });
 }
@@ -1,6 +1,6 @@
 // Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
 import { delay } from "./delay.ts";
-import { assert } from "../testing/asserts.ts";
+import { assert, assertThrowsAsync } from "../testing/asserts.ts";
 
 Deno.test("[async] delay", async function () {
   const start = new Date();
@@ -10,3 +10,23 @@ Deno.test("[async] delay", async function () {
   assert(result === undefined);
   assert(diff >= 100);
 });
+
+Deno.test("[async] delay with abort", async function () {
+  const start = new Date();
+  const abort = new AbortController();
+  const delayedPromise = delay(100, { signal: abort.signal });
+  setTimeout(() => abort.abort(), 0);
+  await assertThrowsAsync(
+    () => delayedPromise,
+    DOMException,
+    "Delay was aborted",
+  );
+  const diff = new Date().getTime() - start.getTime();
+  assert(diff < 100);
+
+  await assertThrowsAsync(
+    () => delay(100, { signal: abort.signal }),
+    DOMException,
+    "Delay was aborted",
+  );
+});
@@ -0,0 +1,285 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+
+export interface LockOptions {
+  /**
+   * Milliseconds to wait before rejecting with a `TimeoutError`. Default is
+   * to wait forever
+   */
+  timeout?: number;
+  /** Stop waiting when aborted, rejecting with an `AbortError` */
+  signal?: AbortSignal;
+}
+
+/**
+ * Handle returned when a lock is acquired. Releasing it more than once has
+ * no effect. Where the runtime defines `Symbol.dispose`, the handle also has
+ * a `[Symbol.dispose]()` method releasing it, so that it can be held with
+ * `using`. It isn't part of this type because the TypeScript version of this
+ * module doesn't know `Symbol.dispose`.
+ */
+export interface Releaser {
+  release(): void;
+}
+
+// undefined before TypeScript 5.2 and Deno 1.37
+const dispose = (Symbol as unknown as { dispose?: symbol }).dispose;
+
+interface Waiter<K> {
+  kind: K;
+  grant(): void;
+}
+
+function createReleaser(fn: () => void): Releaser {
+  let released = false;
+  const release = () => {
+    if (released) return;
+    released = true;
+    fn();
+  };
+  const releaser = { release };
+  if (dispose) Object.defineProperty(releaser, dispose, { value: release });
+  return releaser;
+}
+
+function abortError(): DOMException {
+  return new DOMException("Acquire was aborted.", "AbortError");
+}
+
+/**
+ * Append a waiter of `kind` to `queue`, resolving when `grant` is called
+ * with it. On timeout or abort, the waiter is removed from the queue and
+ * `onCancel` is called so that the waiters behind it can be reconsidered.
+ */
+function enqueue<K>(
+  queue: Array<Waiter<K>>,
+  kind: K,
+  grant: () => Releaser,
+  options: LockOptions,
+  onCancel: () => void,
+): Promise<Releaser> {
+  const { timeout, signal } = options;
+  return new Promise((resolve, reject) => {
+    let timer: number | undefined;
+    const cleanup = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", abort);
+    };
+    const cancel = (error: DOMException) => {
+      cleanup();
+      queue.splice(queue.indexOf(waiter), 1);
+      onCancel();
+      reject(error);
+    };
+    const abort = () => cancel(abortError());
+    const waiter: Waiter<K> = {
+      kind,
+      grant: () => {
+        cleanup();
+        resolve(grant());
+      },
+    };
+    queue.push(waiter);
+    signal?.addEventListener("abort", abort, { once: true });
+    if (timeout !== undefined) {
+      timer = setTimeout(() => {
+        cancel(new DOMException("Acquire timed out.", "TimeoutError"));
+      }, timeout);
+    }
+  });
+}
+
+/**
+ * A counting semaphore allowing up to `permits` holders at a time. Waiting
+ * callers are granted a permit in the order they called `acquire()`.
+ *
+ *     const semaphore = new Semaphore(3);
+ *     const releaser = await semaphore.acquire({ timeout: 1000 });
+ *     try {
+ *       // at most 3 callers run this at the same time
+ *     } finally {
+ *       releaser.release();
+ *     }
+ */
+export class Semaphore {
+  #permits: number;
+  #waiters: Array<Waiter<void>> = [];
+
+  constructor(permits: number) {
+    if (!Number.isInteger(permits) || permits < 1) {
+      throw new RangeError(`invalid number of permits: ${permits}`);
+    }
+    this.#permits = permits;
+  }
+
+  /** The number of permits that can be acquired without waiting */
+  get available(): number {
+    return this.#permits;
+  }
+
+  /** The number of callers waiting in `acquire()` */
+  get waiting(): number {
+    return this.#waiters.length;
+  }
+
+  /**
+   * Acquire a permit if one is available and nobody is waiting, returning
+   * `undefined` otherwise.
+   */
+  tryAcquire(): Releaser | undefined {
+    if (this.#permits === 0 || this.#waiters.length > 0) return undefined;
+    this.#permits--;
+    return this.#releaser();
+  }
+
+  /** Wait until a permit is available and acquire it */
+  acquire(options: LockOptions = {}): Promise<Releaser> {
+    if (options.signal?.aborted) return Promise.reject(abortError());
+    const releaser = this.tryAcquire();
+    if (releaser) return Promise.resolve(releaser);
+    return enqueue(
+      this.#waiters,
+      undefined,
+      () => this.#releaser(),
+      options,
+      () => {},
+    );
+  }
+
+  #releaser(): Releaser {
+    return createReleaser(() => {
+      const waiter = this.#waiters.shift();
+      // hand the permit over to the next waiter
+      if (waiter) waiter.grant();
+      else this.#permits++;
+    });
+  }
+}
+
+/**
+ * A mutual exclusion lock, i.e. a semaphore with a single permit.
+ *
+ *     const mutex = new Mutex();
+ *     const releaser = await mutex.acquire();
+ *     try {
+ *       // only one caller runs this at a time
+ *     } finally {
+ *       releaser.release();
+ *     }
+ */
+export class Mutex extends Semaphore {
+  constructor() {
+    super(1);
+  }
+
+  /** Whether the mutex is held */
+  get locked(): boolean {
+    return this.available === 0;
+  }
+}
+
+type Access = "read" | "write";
+
+/**
+ * A read-write lock allowing either any number of readers or a single
+ * writer at a time. Waiting callers are served in order: a waiting writer
+ * blocks the readers arriving after it, and consecutive waiting readers are
+ * granted together.
+ *
+ *     const lock = new RWLock();
+ *     const releaser = await lock.acquireRead();
+ *     try {
+ *       // other readers may run this at the same time, writers may not
+ *     } finally {
+ *       releaser.release();
+ *     }
+ */
+export class RWLock {
+  #readers = 0;
+  #writing = false;
+  #waiters: Array<Waiter<Access>> = [];
+
+  /** The number of readers holding the lock */
+  get readers(): number {
+    return this.#readers;
+  }
+
+  /** Whether a writer holds the lock */
+  get writing(): boolean {
+    return this.#writing;
+  }
+
+  /** The number of callers waiting to acquire the lock */
+  get waiting(): number {
+    return this.#waiters.length;
+  }
+
+  /**
+   * Acquire the lock for reading if that is possible without waiting,
+   * returning `undefined` otherwise.
+   */
+  tryAcquireRead(): Releaser | undefined {
+    if (this.#writing || this.#waiters.length > 0) return undefined;
+    return this.#grant("read");
+  }
+
+  /**
+   * Acquire the lock for writing if that is possible without waiting,
+   * returning `undefined` otherwise.
+   */
+  tryAcquireWrite(): Releaser | undefined {
+    if (this.#writing || this.#readers > 0 || this.#waiters.length > 0) {
+      return undefined;
+    }
+    return this.#grant("write");
+  }
+
+  /** Wait until no writer holds the lock and acquire it for reading */
+  acquireRead(options: LockOptions = {}): Promise<Releaser> {
+    return this.#acquire("read", options);
+  }
+
+  /** Wait until nobody holds the lock and acquire it for writing */
+  acquireWrite(options: LockOptions = {}): Promise<Releaser> {
+    return this.#acquire("write", options);
+  }
+
+  #acquire(access: Access, options: LockOptions): Promise<Releaser> {
+    if (options.signal?.aborted) return Promise.reject(abortError());
+    const releaser = access === "read"
+      ? this.tryAcquireRead()
+      : this.tryAcquireWrite();
+    if (releaser) return Promise.resolve(releaser);
+    return enqueue(
+      this.#waiters,
+      access,
+      () => this.#grant(access),
+      options,
+      () => this.#drain(),
+    );
+  }
+
+  #grant(access: Access): Releaser {
+    if (access === "read") {
+      this.#readers++;
+      return createReleaser(() => {
+        this.#readers--;
+        this.#drain();
+      });
+    }
+    this.#writing = true;
+    return createReleaser(() => {
+      this.#writing = false;
+      this.#drain();
+    });
+  }
+
+  // Grant the lock to the waiters at the head of the queue that can hold it
+  #drain() {
+    while (this.#waiters.length > 0 && !this.#writing) {
+      const [waiter] = this.#waiters;
+      if (waiter.kind === "write" && this.#readers > 0) return;
+      this.#waiters.shift();
+      waiter.grant();
+    }
+  }
+}
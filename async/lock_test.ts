@@ -0,0 +1,134 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import {
+  assert,
+  assertEquals,
+  assertThrows,
+  assertThrowsAsync,
+} from "../testing/asserts.ts";
+import { delay } from "./delay.ts";
+import { Mutex, RWLock, Semaphore } from "./lock.ts";
+
+Deno.test("[async] Mutex", async function () {
+  const mutex = new Mutex();
+  const events: string[] = [];
+  async function task(name: string) {
+    const releaser = await mutex.acquire();
+    try {
+      events.push(`${name} start`);
+      await delay(5);
+      events.push(`${name} end`);
+    } finally {
+      releaser.release();
+    }
+  }
+  await Promise.all([task("a"), task("b"), task("c")]);
+  assertEquals(events, [
+    "a start",
+    "a end",
+    "b start",
+    "b end",
+    "c start",
+    "c end",
+  ]);
+  assert(!mutex.locked);
+});
+
+Deno.test("[async] Mutex: release with Symbol.dispose", async function () {
+  const dispose = (Symbol as unknown as { dispose?: symbol }).dispose;
+  if (!dispose) return;
+  const mutex = new Mutex();
+  const release: () => void = Reflect.get(await mutex.acquire(), dispose);
+  release();
+  assert(!mutex.locked);
+  release();
+  assert(!mutex.locked);
+  (await mutex.acquire()).release();
+});
+
+Deno.test("[async] Semaphore", async function () {
+  const semaphore = new Semaphore(2);
+  const a = semaphore.tryAcquire();
+  const b = await semaphore.acquire();
+  assert(a);
+  assertEquals(semaphore.tryAcquire(), undefined);
+  const order: number[] = [];
+  const waiting = [1, 2].map((n) =>
+    semaphore.acquire().then((releaser) => {
+      order.push(n);
+      return releaser;
+    })
+  );
+  assertEquals(semaphore.waiting, 2);
+  b.release();
+  // releasing twice has no effect
+  b.release();
+  const c = await waiting[0];
+  assertEquals(order, [1]);
+  assertEquals(semaphore.waiting, 1);
+  a.release();
+  c.release();
+  (await waiting[1]).release();
+  assertEquals(order, [1, 2]);
+  assertEquals(semaphore.available, 2);
+  assertThrows(() => new Semaphore(0), RangeError);
+});
+
+Deno.test("[async] Semaphore: timeout and abort", async function () {
+  const semaphore = new Semaphore(1);
+  const releaser = await semaphore.acquire();
+  await assertThrowsAsync(
+    () => semaphore.acquire({ timeout: 10 }),
+    DOMException,
+    "Acquire timed out",
+  );
+  const abort = new AbortController();
+  const p = semaphore.acquire({ signal: abort.signal });
+  abort.abort();
+  await assertThrowsAsync(() => p, DOMException, "Acquire was aborted");
+  assertEquals(semaphore.waiting, 0);
+  releaser.release();
+  assertEquals(semaphore.available, 1);
+});
+
+Deno.test("[async] RWLock", async function () {
+  const lock = new RWLock();
+  const r1 = await lock.acquireRead();
+  const r2 = lock.tryAcquireRead();
+  assert(r2);
+  assertEquals(lock.readers, 2);
+  assertEquals(lock.tryAcquireWrite(), undefined);
+
+  const events: string[] = [];
+  const writer = lock.acquireWrite().then((releaser) => {
+    events.push("write");
+    return releaser;
+  });
+  // readers arriving after a waiting writer wait for it
+  const reader = lock.acquireRead().then((releaser) => {
+    events.push("read");
+    return releaser;
+  });
+  assertEquals(lock.tryAcquireRead(), undefined);
+  r1.release();
+  r2.release();
+  const w = await writer;
+  assert(lock.writing);
+  assertEquals(events, ["write"]);
+  w.release();
+  (await reader).release();
+  assertEquals(events, ["write", "read"]);
+  assertEquals(lock.readers, 0);
+});
+
+Deno.test("[async] RWLock: cancelled writer", async function () {
+  const lock = new RWLock();
+  const r = await lock.acquireRead();
+  const writer = lock.acquireWrite({ timeout: 10 });
+  const reader = lock.acquireRead();
+  await assertThrowsAsync(() => writer, DOMException, "Acquire timed out");
+  // the reader queued behind the timed out writer is granted
+  (await reader).release();
+  r.release();
+  assertEquals(lock.waiting, 0);
+  assertEquals(lock.readers, 0);
+});
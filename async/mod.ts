@@ -1,6 +1,16 @@
 // Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+export * from "./abortable.ts";
+export * from "./channel.ts";
+export * from "./combinators.ts";
+export * from "./deadline.ts";
+export * from "./debounce.ts";
 export * from "./deferred.ts";
 export * from "./delay.ts";
+export * from "./lock.ts";
 export * from "./mux_async_iterator.ts";
 export * from "./pool.ts";
+export * from "./rate_limiter.ts";
+export * from "./retry.ts";
+export * from "./task_queue.ts";
 export * from "./tee.ts";
+export * from "./throttle.ts";
@@ -1,4 +1,49 @@
 // Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { Deferred, deferred } from "./deferred.ts";
+
+/**
+ * What `pooledMap` does when a transformation rejects:
+ * - `"finish-running"`: no new transformations begin once the pool is full.
+ *   The running ones are allowed to finish, and after them the rejections are
+ *   thrown together in an `AggregateError`.
+ * - `"finish-started"`: like `"finish-running"`, but no new transformation
+ *   begins after the rejection even when there is room in the pool.
+ * - `"fail-fast"`: no new transformations begin, the running ones are
+ *   signalled to abort and the rejection is thrown immediately.
+ * - `"collect-all"`: all the items are transformed, and the rejections are
+ *   thrown together in an `AggregateError` at the end.
+ */
+export type PooledMapErrorMode =
+  | "finish-running"
+  | "finish-started"
+  | "fail-fast"
+  | "collect-all";
+
+export interface PooledMapOptions {
+  /** Default is `"finish-running"` */
+  errorMode?: PooledMapErrorMode;
+  /**
+   * Stop beginning new transformations and signal the running ones when
+   * aborted. The iterator then throws an `AbortError`.
+   */
+  signal?: AbortSignal;
+  /**
+   * Yield the results in the order of the input instead of the order they
+   * are completed in. Default is `false`
+   */
+  ordered?: boolean;
+  /**
+   * Yield a `PromiseSettledResult` (`{ status, value }` or
+   * `{ status, reason }`) for every item instead of throwing on rejections.
+   * `errorMode` is ignored. Default is `false`
+   */
+  settled?: boolean;
+}
+
+type PoolEvent<R> =
+  | { kind: "result"; index: number; result: PromiseSettledResult<R> }
+  | { kind: "error"; error: unknown }
+  | { kind: "end" };
 
 /**
  * pooledMap transforms values from an (async) iterable into another async
@@ -8,61 +53,153 @@
  * If an error is thrown from `iterableFn`, no new transformations will begin.
  * All currently executing transformations are allowed to finish and still
  * yielded on success. After that, the rejections among them are gathered and
- * thrown by the iterator in an `AggregateError`.
+ * thrown by the iterator in an `AggregateError`. This can be changed with
+ * `options.errorMode`.
+ *
+ * `iteratorFn` is passed an `AbortSignal` that is aborted when the mapping is
+ * aborted, fails fast or the returned iterator is closed early.
  *
  * @param poolLimit The maximum count of items being processed concurrently.
  * @param array The input array for mapping.
  * @param iteratorFn The function to call for every item of the array.
+ * @param options Error handling, cancellation and output options.
  */
 export function pooledMap<T, R>(
   poolLimit: number,
   array: Iterable<T> | AsyncIterable<T>,
-  iteratorFn: (data: T) => Promise<R>,
-): AsyncIterableIterator<R> {
-  // Create the async iterable that is returned from this function.
-  const res = new TransformStream<Promise<R>, R>({
-    async transform(
-      p: Promise<R>,
-      controller: TransformStreamDefaultController<R>,
-    ) {
-      controller.enqueue(await p);
-    },
-  });
+  iteratorFn: (data: T, signal: AbortSignal) => Promise<R>,
+  options: PooledMapOptions & { settled: true },
+): AsyncIterableIterator<PromiseSettledResult<R>>;
+export function pooledMap<T, R>(
+  poolLimit: number,
+  array: Iterable<T> | AsyncIterable<T>,
+  iteratorFn: (data: T, signal: AbortSignal) => Promise<R>,
+  options?: PooledMapOptions,
+): AsyncIterableIterator<R>;
+export function pooledMap<T, R>(
+  poolLimit: number,
+  array: Iterable<T> | AsyncIterable<T>,
+  iteratorFn: (data: T, signal: AbortSignal) => Promise<R>,
+  options: PooledMapOptions = {},
+): AsyncIterableIterator<R | PromiseSettledResult<R>> {
+  const {
+    errorMode = "finish-running",
+    signal,
+    ordered = false,
+    settled = false,
+  } = options;
+  const controller = new AbortController();
+  const events: Array<PoolEvent<R>> = [];
+  let wakeUp: Deferred<void> = deferred();
+  const push = (event: PoolEvent<R>) => {
+    events.push(event);
+    wakeUp.resolve();
+  };
+  const abort = () => {
+    controller.abort();
+    // Thrown before any result that is yet to be yielded.
+    events.unshift({
+      kind: "error",
+      error: new DOMException("pooledMap was aborted.", "AbortError"),
+    });
+    wakeUp.resolve();
+  };
+  if (signal?.aborted) abort();
+  else signal?.addEventListener("abort", abort, { once: true });
+
   // Start processing items from the iterator
   (async () => {
-    const writer = res.writable.getWriter();
-    const executing: Array<Promise<unknown>> = [];
+    const executing = new Set<Promise<void>>();
+    let stopped = false;
+    let index = 0;
     try {
       for await (const item of array) {
-        const p = Promise.resolve().then(() => iteratorFn(item));
-        // Only write on success. If we `writer.write()` a rejected promise,
-        // that will end the iteration. We don't want that yet. Instead let it
-        // fail the race, taking us to the catch block where all currently
-        // executing jobs are allowed to finish and all rejections among them
-        // can be reported together.
-        p.then((v) => writer.write(Promise.resolve(v))).catch(() => {});
-        const e: Promise<unknown> = p.then(() =>
-          executing.splice(executing.indexOf(e), 1)
-        );
-        executing.push(e);
-        if (executing.length >= poolLimit) {
+        if (controller.signal.aborted) break;
+        if (stopped && errorMode === "finish-started") break;
+        const i = index++;
+        const p: Promise<void> = Promise.resolve()
+          .then(() => iteratorFn(item, controller.signal))
+          .then(
+            (value) => {
+              push({
+                kind: "result",
+                index: i,
+                result: { status: "fulfilled", value },
+              });
+            },
+            (reason) => {
+              push({
+                kind: "result",
+                index: i,
+                result: { status: "rejected", reason },
+              });
+              if (!settled && errorMode !== "collect-all") stopped = true;
+              if (!settled && errorMode === "fail-fast") controller.abort();
+            },
+          )
+          .then(() => {
+            executing.delete(p);
+          });
+        executing.add(p);
+        if (executing.size >= poolLimit) {
           await Promise.race(executing);
+          if (stopped) break;
         }
       }
-      // Wait until all ongoing events have processed, then close the writer.
+      // Wait until all ongoing events have processed.
+      await Promise.all(executing);
+      push({ kind: "end" });
+    } catch (error) {
+      // The input iterable threw.
       await Promise.all(executing);
-      writer.close();
-    } catch {
-      const errors = [];
-      for (const result of await Promise.allSettled(executing)) {
-        if (result.status == "rejected") {
-          errors.push(result.reason);
+      push({ kind: "error", error });
+    }
+  })();
+
+  return (async function* () {
+    const errors: unknown[] = [];
+    const completed = new Map<number, PromiseSettledResult<R>>();
+    let next = 0;
+    let finished = false;
+    try {
+      while (true) {
+        await wakeUp;
+        wakeUp = deferred();
+        while (events.length > 0) {
+          const event = events.shift()!;
+          if (event.kind === "error") throw event.error;
+          if (event.kind === "end") {
+            finished = true;
+            if (errors.length > 0) {
+              throw new AggregateError(errors, "Threw while mapping.");
+            }
+            return;
+          }
+          const { result } = event;
+          if (result.status === "rejected" && !settled) {
+            if (errorMode === "fail-fast") throw result.reason;
+            errors.push(result.reason);
+          }
+          completed.set(event.index, result);
+          // Yield what can be yielded in the requested order.
+          const indices = ordered ? [] : [event.index];
+          if (ordered) {
+            while (completed.has(next)) indices.push(next++);
+          }
+          for (const index of indices) {
+            const result = completed.get(index)!;
+            completed.delete(index);
+            if (settled) {
+              yield result;
+            } else if (result.status === "fulfilled") {
+              yield result.value;
+            }
+          }
         }
       }
-      writer.write(Promise.reject(
-        new AggregateError(errors, "Threw while mapping."),
-      )).catch(() => {});
+    } finally {
+      signal?.removeEventListener("abort", abort);
+      if (!finished) controller.abort();
     }
   })();
-  return res.readable[Symbol.asyncIterator]();
 }
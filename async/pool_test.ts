@@ -42,3 +42,120 @@ Deno.test("[async] pooledMap errors", async function () {
   assertStringIncludes(error.errors[0].stack, "Error: Bad number: 1");
   assertStringIncludes(error.errors[1].stack, "Error: Bad number: 2");
 });
+
+Deno.test("[async] pooledMap finish-started", async function () {
+  async function* slowSource() {
+    for (let i = 0; i < 10; i++) {
+      yield i;
+      await delay(5);
+    }
+  }
+  const started: number[] = [];
+  const mappedNumbers: number[] = [];
+  await assertThrowsAsync(async () => {
+    const results = pooledMap(5, slowSource(), async (n) => {
+      started.push(n);
+      if (n === 0) throw new Error(`Bad number: ${n}`);
+      await delay(20);
+      return n;
+    }, { errorMode: "finish-started" });
+    for await (const m of results) {
+      mappedNumbers.push(m);
+    }
+  }, AggregateError);
+  assertEquals(started, [0]);
+  assertEquals(mappedNumbers, []);
+});
+
+Deno.test("[async] pooledMap fail-fast", async function () {
+  const aborted: number[] = [];
+  const mappedNumbers: number[] = [];
+  await assertThrowsAsync(
+    async () => {
+      const results = pooledMap(2, [1, 2, 3, 4], async (n, signal) => {
+        if (n === 2) throw new Error(`Bad number: ${n}`);
+        signal.addEventListener("abort", () => aborted.push(n));
+        await delay(50);
+        return n;
+      }, { errorMode: "fail-fast" });
+      for await (const m of results) {
+        mappedNumbers.push(m);
+      }
+    },
+    Error,
+    "Bad number: 2",
+  );
+  assertEquals(mappedNumbers, []);
+  assertEquals(aborted, [1]);
+  await delay(50);
+});
+
+Deno.test("[async] pooledMap collect-all", async function () {
+  const mappedNumbers: number[] = [];
+  const error = await assertThrowsAsync(async () => {
+    const results = pooledMap(2, [1, 2, 3, 4, 5], async (n) => {
+      await delay(10 * (5 - n));
+      if (n % 2 === 0) throw new Error(`Bad number: ${n}`);
+      return n;
+    }, { errorMode: "collect-all", ordered: true });
+    for await (const m of results) {
+      mappedNumbers.push(m);
+    }
+  }, AggregateError) as AggregateError;
+  assertEquals(mappedNumbers, [1, 3, 5]);
+  assertEquals(
+    error.errors.map((e) => e.message),
+    ["Bad number: 2", "Bad number: 4"],
+  );
+});
+
+Deno.test("[async] pooledMap ordered and settled", async function () {
+  const delays = [30, 10, 20];
+  const map = (n: number) =>
+    delay(delays[n]).then(() => {
+      if (n === 1) throw new Error("Bad number: 1");
+      return n;
+    });
+
+  const unordered = [];
+  for await (const result of pooledMap(3, [0, 1, 2], map, { settled: true })) {
+    unordered.push(result.status === "fulfilled" ? result.value : "rejected");
+  }
+  assertEquals(unordered, ["rejected", 2, 0]);
+
+  const ordered = [];
+  const results = pooledMap(3, [0, 1, 2], map, {
+    settled: true,
+    ordered: true,
+  });
+  for await (const result of results) ordered.push(result);
+  assertEquals(ordered[0], { status: "fulfilled", value: 0 });
+  assertEquals(ordered[1].status, "rejected");
+  assertEquals(ordered[2], { status: "fulfilled", value: 2 });
+});
+
+Deno.test("[async] pooledMap abort", async function () {
+  const c = new AbortController();
+  const started: number[] = [];
+  let aborted = 0;
+  const results = pooledMap(2, [1, 2, 3, 4], async (n, signal) => {
+    started.push(n);
+    signal.addEventListener("abort", () => aborted++);
+    await delay(20);
+    return n;
+  }, { signal: c.signal });
+  setTimeout(() => c.abort(), 10);
+  await assertThrowsAsync(
+    async () => {
+      for await (const _ of results) {
+        // ...
+      }
+    },
+    DOMException,
+    "pooledMap was aborted",
+  );
+  assertEquals(started, [1, 2]);
+  assertEquals(aborted, 2);
+  await delay(20);
+  assertEquals(started, [1, 2]);
+});
@@ -0,0 +1,156 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+
+export interface RateLimiterOptions {
+  /** The number of tokens added to the bucket per `interval` */
+  rate: number;
+  /** Milliseconds over which `rate` tokens are added. Default is `1000` */
+  interval?: number;
+  /**
+   * The maximum number of tokens in the bucket, i.e. the largest burst.
+   * Default is `rate`
+   */
+  capacity?: number;
+}
+
+export interface AcquireOptions {
+  /** Stop waiting when aborted, rejecting with an `AbortError` */
+  signal?: AbortSignal;
+}
+
+interface Waiter {
+  tokens: number;
+  resolve: () => void;
+  cleanup: () => void;
+}
+
+// Tolerance for the floating point refill arithmetic
+const epsilon = 1e-9;
+
+function abortError(): DOMException {
+  return new DOMException("Acquire was aborted.", "AbortError");
+}
+
+/**
+ * A token bucket rate limiter. The bucket starts full and is refilled
+ * continuously at `rate` tokens per `interval`. Waiting callers are served
+ * in order, so a large request isn't starved by smaller ones.
+ *
+ *     const limiter = new RateLimiter({ rate: 10, interval: 1000 });
+ *     for (const url of urls) {
+ *       await limiter.acquire();
+ *       fetch(url);
+ *     }
+ */
+export class RateLimiter {
+  readonly rate: number;
+  readonly interval: number;
+  readonly capacity: number;
+  #tokens: number;
+  #lastRefill = Date.now();
+  #waiters: Waiter[] = [];
+  #timer: number | undefined;
+
+  constructor({ rate, interval = 1000, capacity = rate }: RateLimiterOptions) {
+    if (!(rate > 0) || !(interval > 0) || !(capacity > 0)) {
+      throw new RangeError("rate, interval and capacity must be positive");
+    }
+    this.rate = rate;
+    this.interval = interval;
+    this.capacity = capacity;
+    this.#tokens = capacity;
+  }
+
+  /** The number of whole tokens currently available */
+  get available(): number {
+    this.#refill();
+    return Math.floor(this.#tokens + epsilon);
+  }
+
+  /** The number of callers waiting in `acquire()` */
+  get waiting(): number {
+    return this.#waiters.length;
+  }
+
+  /**
+   * Take `tokens` tokens if they are available now and nobody is waiting,
+   * returning whether they were taken.
+   */
+  tryAcquire(tokens = 1): boolean {
+    this.#check(tokens);
+    this.#refill();
+    if (this.#waiters.length > 0 || this.#tokens + epsilon < tokens) {
+      return false;
+    }
+    this.#tokens -= tokens;
+    return true;
+  }
+
+  /** Wait until `tokens` tokens are available and take them */
+  acquire(tokens = 1, options: AcquireOptions = {}): Promise<void> {
+    this.#check(tokens);
+    const { signal } = options;
+    if (signal?.aborted) {
+      return Promise.reject(abortError());
+    }
+    if (this.tryAcquire(tokens)) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      const abort = () => {
+        const index = this.#waiters.indexOf(waiter);
+        this.#waiters.splice(index, 1);
+        if (index === 0) this.#schedule();
+        reject(abortError());
+      };
+      const waiter: Waiter = {
+        tokens,
+        resolve,
+        cleanup: () => signal?.removeEventListener("abort", abort),
+      };
+      signal?.addEventListener("abort", abort, { once: true });
+      this.#waiters.push(waiter);
+      if (this.#waiters.length === 1) this.#schedule();
+    });
+  }
+
+  #check(tokens: number) {
+    if (!(tokens > 0) || tokens > this.capacity) {
+      throw new RangeError(
+        `tokens must be positive and at most the capacity: ${tokens}`,
+      );
+    }
+  }
+
+  #refill() {
+    const now = Date.now();
+    this.#tokens = Math.min(
+      this.capacity,
+      this.#tokens + (now - this.#lastRefill) * this.rate / this.interval,
+    );
+    this.#lastRefill = now;
+  }
+
+  // (Re)start the timer for the first waiter
+  #schedule() {
+    clearTimeout(this.#timer);
+    this.#timer = undefined;
+    const waiter = this.#waiters[0];
+    if (!waiter) return;
+    this.#refill();
+    const missing = waiter.tokens - this.#tokens;
+    const ms = Math.max(0, Math.ceil(missing * this.interval / this.rate));
+    this.#timer = setTimeout(() => {
+      this.#refill();
+      while (
+        this.#waiters.length > 0 &&
+        this.#tokens + epsilon >= this.#waiters[0].tokens
+      ) {
+        const waiter = this.#waiters.shift()!;
+        this.#tokens -= waiter.tokens;
+        waiter.cleanup();
+        waiter.resolve();
+      }
+      this.#schedule();
+    }, ms);
+  }
+}
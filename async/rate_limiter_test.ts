@@ -0,0 +1,40 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import {
+  assert,
+  assertEquals,
+  assertThrows,
+  assertThrowsAsync,
+} from "../testing/asserts.ts";
+import { RateLimiter } from "./rate_limiter.ts";
+
+Deno.test("[async] RateLimiter", async function () {
+  const limiter = new RateLimiter({ rate: 2, interval: 100 });
+  assertEquals(limiter.available, 2);
+  assert(limiter.tryAcquire());
+  assert(limiter.tryAcquire());
+  assert(!limiter.tryAcquire());
+
+  const start = Date.now();
+  const order: number[] = [];
+  await Promise.all([
+    limiter.acquire(2).then(() => order.push(2)),
+    limiter.acquire(1).then(() => order.push(1)),
+  ]);
+  const elapsed = Date.now() - start;
+  // three tokens at two per 100ms
+  assert(elapsed >= 140, `${elapsed}`);
+  assertEquals(order, [2, 1]);
+});
+
+Deno.test("[async] RateLimiter: abort", async function () {
+  const limiter = new RateLimiter({ rate: 1, interval: 1000 });
+  await limiter.acquire();
+  const abort = new AbortController();
+  const p = limiter.acquire(1, { signal: abort.signal });
+  assertEquals(limiter.waiting, 1);
+  abort.abort();
+  await assertThrowsAsync(() => p, DOMException, "Acquire was aborted");
+  assertEquals(limiter.waiting, 0);
+  assertThrows(() => limiter.tryAcquire(2), RangeError);
+  assertThrows(() => new RateLimiter({ rate: 0 }), RangeError);
+});
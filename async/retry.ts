@@ -0,0 +1,161 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { delay } from "./delay.ts";
+
+/**
+ * How the delay between attempts is randomized:
+ * - `"none"`: the exponential delay as is
+ * - `"full"`: a random delay between `0` and the exponential delay
+ * - `"equal"`: half the exponential delay plus a random delay up to the
+ *   other half
+ * - `"decorrelated"`: a random delay between `initialDelay` and three times
+ *   the previous delay
+ */
+export type RetryJitter = "none" | "full" | "equal" | "decorrelated";
+
+export interface RetryOptions {
+  /** The maximum number of attempts, including the first one. Default is `5` */
+  maxAttempts?: number;
+  /** Milliseconds to wait after the first failed attempt. Default is `100` */
+  initialDelay?: number;
+  /** The upper bound of the delay between attempts. Default is `30000` */
+  maxDelay?: number;
+  /** The factor the delay grows by after each attempt. Default is `2` */
+  multiplier?: number;
+  /** Default is `"full"` */
+  jitter?: RetryJitter;
+  /**
+   * Called with the error of each failed attempt and its number (starting
+   * at `1`). Returning `false` stops retrying. By default every error is
+   * retried.
+   */
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+  /**
+   * Milliseconds from the first attempt after which no new attempt is
+   * started. A delay that would end after the deadline stops retrying.
+   */
+  deadline?: number;
+  /**
+   * Stop waiting and retrying when aborted, rejecting with an `AbortError`.
+   * An attempt in progress is not interrupted unless `fn` observes the
+   * signal itself.
+   */
+  signal?: AbortSignal;
+}
+
+export interface RetryAttempt {
+  /** The number of the attempt, starting at `1` */
+  attempt: number;
+  error: unknown;
+  /** Milliseconds waited before the next attempt, if any */
+  delay?: number;
+}
+
+/** Error thrown by `retry()` when no attempt succeeded */
+export class RetryError extends Error {
+  name = "RetryError";
+
+  constructor(message: string, public attempts: RetryAttempt[]) {
+    super(message);
+  }
+
+  /** The error of the last attempt */
+  get lastError(): unknown {
+    return this.attempts[this.attempts.length - 1]?.error;
+  }
+}
+
+function abortError(): DOMException {
+  return new DOMException("Retry was aborted.", "AbortError");
+}
+
+/**
+ * Call `fn` until it succeeds, waiting with exponential backoff between
+ * attempts. When the attempts are exhausted, `shouldRetry` returns `false`
+ * or the deadline is reached, a `RetryError` holding the errors of all the
+ * attempts is thrown.
+ *
+ *     const res = await retry(() => fetch(url), {
+ *       maxAttempts: 3,
+ *       shouldRetry: (error) => error instanceof TypeError,
+ *     });
+ */
+export async function retry<T>(
+  fn: (attempt: number) => Promise<T> | T,
+  options: RetryOptions = {},
+): Promise<T> {
+  const {
+    maxAttempts = 5,
+    initialDelay = 100,
+    maxDelay = 30000,
+    multiplier = 2,
+    jitter = "full",
+    shouldRetry = () => true,
+    deadline,
+    signal,
+  } = options;
+  if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+    throw new RangeError(`invalid maximum attempts: ${maxAttempts}`);
+  }
+  const start = Date.now();
+  const attempts: RetryAttempt[] = [];
+  let previousDelay = initialDelay;
+  for (let attempt = 1;; attempt++) {
+    if (signal?.aborted) throw abortError();
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (signal?.aborted) throw abortError();
+      const record: RetryAttempt = { attempt, error };
+      attempts.push(record);
+      if (!shouldRetry(error, attempt)) {
+        throw new RetryError(
+          `retry stopped by shouldRetry after ${attempt} attempts`,
+          attempts,
+        );
+      }
+      if (attempt >= maxAttempts) {
+        throw new RetryError(
+          `retry failed after ${attempt} attempts`,
+          attempts,
+        );
+      }
+
+      const exponential = Math.min(
+        maxDelay,
+        initialDelay * multiplier ** (attempt - 1),
+      );
+      let ms: number;
+      switch (jitter) {
+        case "none":
+          ms = exponential;
+          break;
+        case "full":
+          ms = Math.random() * exponential;
+          break;
+        case "equal":
+          ms = exponential / 2 + Math.random() * exponential / 2;
+          break;
+        case "decorrelated":
+          ms = Math.min(
+            maxDelay,
+            initialDelay + Math.random() * (previousDelay * 3 - initialDelay),
+          );
+          break;
+        default:
+          throw new TypeError(`unsupported jitter: ${jitter}`);
+      }
+      ms = Math.round(ms);
+      previousDelay = ms;
+      if (deadline !== undefined && Date.now() + ms - start > deadline) {
+        throw new RetryError(
+          `retry deadline exceeded after ${attempt} attempts`,
+          attempts,
+        );
+      }
+      record.delay = ms;
+      await delay(ms, { signal }).catch(() => {
+        throw abortError();
+      });
+    }
+  }
+}
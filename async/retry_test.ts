@@ -0,0 +1,113 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { assert, assertEquals, assertThrowsAsync } from "../testing/asserts.ts";
+import { retry, RetryError } from "./retry.ts";
+
+function failing(times: number): (attempt: number) => Promise<number> {
+  return (attempt) => {
+    if (attempt <= times) {
+      return Promise.reject(new Error(`failure ${attempt}`));
+    }
+    return Promise.resolve(attempt);
+  };
+}
+
+Deno.test("[async] retry", async function () {
+  assertEquals(await retry(failing(0)), 1);
+  assertEquals(
+    await retry(failing(2), { initialDelay: 1, jitter: "none" }),
+    3,
+  );
+});
+
+Deno.test("[async] retry: attempts exhausted", async function () {
+  const error = await assertThrowsAsync(
+    () =>
+      retry(failing(10), {
+        maxAttempts: 4,
+        initialDelay: 2,
+        multiplier: 3,
+        maxDelay: 10,
+        jitter: "none",
+      }),
+    RetryError,
+    "retry failed after 4 attempts",
+  ) as RetryError;
+  assertEquals(error.attempts.map(({ attempt }) => attempt), [1, 2, 3, 4]);
+  assertEquals(error.attempts.map(({ delay }) => delay), [2, 6, 10, undefined]);
+  assertEquals((error.lastError as Error).message, "failure 4");
+});
+
+Deno.test("[async] retry: jitter", async function () {
+  for (const jitter of ["full", "equal", "decorrelated"] as const) {
+    const error = await assertThrowsAsync(
+      () =>
+        retry(failing(10), {
+          maxAttempts: 6,
+          initialDelay: 2,
+          maxDelay: 20,
+          jitter,
+        }),
+      RetryError,
+    ) as RetryError;
+    const delays = error.attempts.slice(0, -1).map(({ delay }) => delay!);
+    assertEquals(delays.length, 5);
+    delays.forEach((delay, i) => {
+      const exponential = Math.min(20, 2 * 2 ** i);
+      assert(delay >= (jitter === "equal" ? exponential / 2 : 0));
+      assert(delay <= (jitter === "decorrelated" ? 20 : exponential));
+    });
+  }
+});
+
+Deno.test("[async] retry: shouldRetry", async function () {
+  const calls: Array<[string, number]> = [];
+  const error = await assertThrowsAsync(
+    () =>
+      retry(failing(10), {
+        initialDelay: 1,
+        shouldRetry: (error, attempt) => {
+          calls.push([(error as Error).message, attempt]);
+          return attempt < 2;
+        },
+      }),
+    RetryError,
+    "retry stopped by shouldRetry after 2 attempts",
+  ) as RetryError;
+  assertEquals(calls, [["failure 1", 1], ["failure 2", 2]]);
+  assertEquals(error.attempts.length, 2);
+});
+
+Deno.test("[async] retry: deadline", async function () {
+  const error = await assertThrowsAsync(
+    () =>
+      retry(failing(10), {
+        maxAttempts: 100,
+        initialDelay: 10,
+        jitter: "none",
+        deadline: 50,
+      }),
+    RetryError,
+    "retry deadline exceeded after 3 attempts",
+  ) as RetryError;
+  assertEquals(error.attempts.map(({ delay }) => delay), [10, 20, undefined]);
+});
+
+Deno.test("[async] retry: abort", async function () {
+  const abort = new AbortController();
+  let attempts = 0;
+  const start = Date.now();
+  const p = retry(() => {
+    attempts++;
+    return Promise.reject(new Error("failure"));
+  }, { initialDelay: 1000, jitter: "none", signal: abort.signal });
+  setTimeout(() => abort.abort(), 10);
+  await assertThrowsAsync(() => p, DOMException, "Retry was aborted");
+  assertEquals(attempts, 1);
+  assert(Date.now() - start < 1000);
+
+  await assertThrowsAsync(
+    () => retry(() => 1, { signal: abort.signal }),
+    DOMException,
+    "Retry was aborted",
+  );
+});
@@ -0,0 +1,222 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { deadline } from "./deadline.ts";
+import { Deferred, deferred } from "./deferred.ts";
+import { retry, RetryOptions } from "./retry.ts";
+
+export interface TaskQueueOptions {
+  /** The maximum number of tasks running at a time. Default is `1` */
+  concurrency?: number;
+  /** Start the queue paused. Default is `false` */
+  paused?: boolean;
+}
+
+export interface TaskOptions {
+  /** Tasks with a higher priority run first. Default is `0` */
+  priority?: number;
+  /**
+   * Milliseconds an attempt of the task may take before it fails with a
+   * `DeadlineError` and its signal is aborted
+   */
+  timeout?: number;
+  /** Retry the failed attempts of the task with `retry()` */
+  retry?: Omit<RetryOptions, "signal">;
+  /**
+   * Remove the task from the queue when aborted, or abort the signal passed
+   * to the running task. The task then rejects with an `AbortError`.
+   */
+  signal?: AbortSignal;
+}
+
+/** The `detail` of the events dispatched by a `TaskQueue` */
+export interface TaskEventDetail {
+  /** The sequential number of the task, starting at `1` */
+  id: number;
+  priority: number;
+  /** The result of a completed task */
+  result?: unknown;
+  /** The error of a failed task */
+  error?: unknown;
+}
+
+interface Task {
+  id: number;
+  priority: number;
+  run: () => Promise<void>;
+}
+
+function abortError(): DOMException {
+  return new DOMException("The task was aborted.", "AbortError");
+}
+
+/**
+ * A queue running async tasks with a maximum concurrency, in the order of
+ * their priority. Tasks can be added at any time. A `CustomEvent` with a
+ * `TaskEventDetail` is dispatched when a task is `"started"`, `"completed"`
+ * or `"failed"`.
+ *
+ *     const queue = new TaskQueue({ concurrency: 4 });
+ *     queue.addEventListener("failed", (event) => {
+ *       console.error((event as CustomEvent<TaskEventDetail>).detail.error);
+ *     });
+ *     for (const url of urls) {
+ *       queue.add((signal) => fetch(url, { signal }), { timeout: 5000 });
+ *     }
+ *     await queue.onIdle();
+ */
+export class TaskQueue extends EventTarget {
+  readonly concurrency: number;
+  #queue: Task[] = [];
+  #running = 0;
+  #paused: boolean;
+  #lastId = 0;
+  #emptyWaiters: Array<Deferred<void>> = [];
+  #idleWaiters: Array<Deferred<void>> = [];
+
+  constructor(options: TaskQueueOptions = {}) {
+    super();
+    const { concurrency = 1, paused = false } = options;
+    if (!(concurrency >= 1)) {
+      throw new RangeError(`invalid concurrency: ${concurrency}`);
+    }
+    this.concurrency = concurrency;
+    this.#paused = paused;
+  }
+
+  /** The number of tasks waiting to run */
+  get size(): number {
+    return this.#queue.length;
+  }
+
+  /** The number of running tasks */
+  get running(): number {
+    return this.#running;
+  }
+
+  /** Whether the queue is paused */
+  get paused(): boolean {
+    return this.#paused;
+  }
+
+  /**
+   * Add a task to the queue, resolving with its result. The task is passed
+   * an `AbortSignal` that is aborted when the attempt times out or
+   * `options.signal` is aborted.
+   */
+  add<T>(
+    fn: (signal: AbortSignal) => Promise<T>,
+    options: TaskOptions = {},
+  ): Promise<T> {
+    const { priority = 0, timeout, retry: retryOptions, signal } = options;
+    if (signal?.aborted) return Promise.reject(abortError());
+    const id = ++this.#lastId;
+    const result = deferred<T>();
+
+    const attempt = async () => {
+      const controller = new AbortController();
+      const abort = () => controller.abort();
+      signal?.addEventListener("abort", abort, { once: true });
+      try {
+        const p = fn(controller.signal);
+        return await (timeout === undefined ? p : deadline(p, timeout));
+      } catch (error) {
+        controller.abort();
+        throw error;
+      } finally {
+        signal?.removeEventListener("abort", abort);
+      }
+    };
+    const cancel = () => {
+      const index = this.#queue.indexOf(task);
+      if (index < 0) return;
+      this.#queue.splice(index, 1);
+      result.reject(abortError());
+      this.#settle();
+    };
+    const task: Task = {
+      id,
+      priority,
+      run: async () => {
+        signal?.removeEventListener("abort", cancel);
+        this.#dispatch("started", { id, priority });
+        try {
+          const value = retryOptions
+            ? await retry(attempt, { ...retryOptions, signal })
+            : await attempt();
+          if (signal?.aborted) throw abortError();
+          this.#dispatch("completed", { id, priority, result: value });
+          result.resolve(value);
+        } catch (error) {
+          const reason = signal?.aborted ? abortError() : error;
+          this.#dispatch("failed", { id, priority, error: reason });
+          result.reject(reason);
+        }
+      },
+    };
+    signal?.addEventListener("abort", cancel, { once: true });
+
+    // Keep the queue sorted by priority, in insertion order within one.
+    const index = this.#queue.findIndex((t) => t.priority < priority);
+    if (index < 0) this.#queue.push(task);
+    else this.#queue.splice(index, 0, task);
+    this.#next();
+    return result;
+  }
+
+  /** Stop starting new tasks. The running tasks are not affected. */
+  pause() {
+    this.#paused = true;
+  }
+
+  /** Start running tasks again after `pause()` */
+  resume() {
+    this.#paused = false;
+    this.#next();
+  }
+
+  /** Resolve when no task is waiting to run */
+  onEmpty(): Promise<void> {
+    if (this.#queue.length === 0) return Promise.resolve();
+    const waiter = deferred<void>();
+    this.#emptyWaiters.push(waiter);
+    return waiter;
+  }
+
+  /** Resolve when no task is waiting or running */
+  onIdle(): Promise<void> {
+    if (this.#queue.length === 0 && this.#running === 0) {
+      return Promise.resolve();
+    }
+    const waiter = deferred<void>();
+    this.#idleWaiters.push(waiter);
+    return waiter;
+  }
+
+  #next() {
+    while (
+      !this.#paused &&
+      this.#running < this.concurrency &&
+      this.#queue.length > 0
+    ) {
+      const task = this.#queue.shift()!;
+      this.#running++;
+      task.run().finally(() => {
+        this.#running--;
+        this.#next();
+        this.#settle();
+      });
+    }
+    this.#settle();
+  }
+
+  // Resolve the onEmpty() and onIdle() promises that are due
+  #settle() {
+    if (this.#queue.length > 0) return;
+    for (const waiter of this.#emptyWaiters.splice(0)) waiter.resolve();
+    if (this.#running > 0) return;
+    for (const waiter of this.#idleWaiters.splice(0)) waiter.resolve();
+  }
+
+  #dispatch(type: string, detail: TaskEventDetail) {
+    this.dispatchEvent(new CustomEvent(type, { detail }));
+  }
+}
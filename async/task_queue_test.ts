@@ -0,0 +1,130 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { assert, assertEquals, assertThrowsAsync } from "../testing/asserts.ts";
+import { DeadlineError } from "./deadline.ts";
+import { delay } from "./delay.ts";
+import { RetryError } from "./retry.ts";
+import { TaskEventDetail, TaskQueue } from "./task_queue.ts";
+
+Deno.test("[async] TaskQueue: concurrency and priority", async function () {
+  const queue = new TaskQueue({ concurrency: 2, paused: true });
+  const order: string[] = [];
+  let maxRunning = 0;
+  const task = (name: string) => async () => {
+    order.push(name);
+    maxRunning = Math.max(maxRunning, queue.running);
+    await delay(10);
+    return name;
+  };
+  const results = [
+    queue.add(task("low")),
+    queue.add(task("high"), { priority: 10 }),
+    queue.add(task("medium"), { priority: 5 }),
+    queue.add(task("medium 2"), { priority: 5 }),
+  ];
+  assertEquals(queue.size, 4);
+  assertEquals(order, []);
+  queue.resume();
+  assertEquals(await Promise.all(results), [
+    "low",
+    "high",
+    "medium",
+    "medium 2",
+  ]);
+  assertEquals(order, ["high", "medium", "medium 2", "low"]);
+  assertEquals(maxRunning, 2);
+});
+
+Deno.test("[async] TaskQueue: onEmpty, onIdle and pause", async function () {
+  const queue = new TaskQueue();
+  await queue.onIdle();
+  let done = 0;
+  for (let i = 0; i < 3; i++) {
+    queue.add(() => delay(10).then(() => done++));
+  }
+  await queue.onEmpty();
+  assertEquals(queue.size, 0);
+  assertEquals(queue.running, 1);
+  assertEquals(done, 2);
+  queue.pause();
+  queue.add(() => delay(0).then(() => done++));
+  await delay(20);
+  assertEquals(done, 3);
+  assertEquals(queue.size, 1);
+  queue.resume();
+  await queue.onIdle();
+  assertEquals(done, 4);
+});
+
+Deno.test("[async] TaskQueue: events", async function () {
+  const queue = new TaskQueue();
+  const events: Array<[string, TaskEventDetail]> = [];
+  for (const type of ["started", "completed", "failed"]) {
+    queue.addEventListener(type, (event) => {
+      events.push([type, (event as CustomEvent<TaskEventDetail>).detail]);
+    });
+  }
+  const error = new Error("failure");
+  await queue.add(() => Promise.resolve("ok"));
+  await assertThrowsAsync(() => queue.add(() => Promise.reject(error)));
+  assertEquals(events, [
+    ["started", { id: 1, priority: 0 }],
+    ["completed", { id: 1, priority: 0, result: "ok" }],
+    ["started", { id: 2, priority: 0 }],
+    ["failed", { id: 2, priority: 0, error }],
+  ]);
+});
+
+Deno.test("[async] TaskQueue: timeout and retry", async function () {
+  const queue = new TaskQueue();
+  let aborted = false;
+  await assertThrowsAsync(
+    () =>
+      queue.add((signal) => {
+        signal.addEventListener("abort", () => aborted = true);
+        return delay(100, { signal });
+      }, { timeout: 10 }),
+    DeadlineError,
+  );
+  assert(aborted);
+
+  let attempts = 0;
+  const result = await queue.add(() => {
+    attempts++;
+    return attempts < 3
+      ? Promise.reject(new Error("failure"))
+      : Promise.resolve(attempts);
+  }, { retry: { initialDelay: 1, jitter: "none" } });
+  assertEquals(result, 3);
+
+  await assertThrowsAsync(
+    () =>
+      queue.add((signal) => delay(50, { signal }), {
+        timeout: 5,
+        retry: { maxAttempts: 2, initialDelay: 1 },
+      }),
+    RetryError,
+    "retry failed after 2 attempts",
+  );
+});
+
+Deno.test("[async] TaskQueue: abort", async function () {
+  const queue = new TaskQueue();
+  const running = new AbortController();
+  const queued = new AbortController();
+  const first = queue.add((signal) =>
+    new Promise((_, reject) => {
+      signal.addEventListener("abort", () => reject(new Error("stopped")));
+    }), { signal: running.signal });
+  let started = false;
+  const second = queue.add(() => {
+    started = true;
+    return Promise.resolve();
+  }, { signal: queued.signal });
+  queued.abort();
+  await assertThrowsAsync(() => second, DOMException, "The task was aborted");
+  assertEquals(queue.size, 0);
+  running.abort();
+  await assertThrowsAsync(() => first, DOMException, "The task was aborted");
+  await queue.onIdle();
+  assert(!started);
+});
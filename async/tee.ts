@@ -1,4 +1,5 @@
 // Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { Deferred, deferred } from "./deferred.ts";
 
 // Utility for representing n-tuple
 type Tuple<T, N extends number> = N extends N
@@ -8,43 +9,105 @@ type TupleOf<T, N extends number, R extends unknown[]> = R["length"] extends N
   ? R
   : TupleOf<T, N, [T, ...R]>;
 
-const noop = () => {};
+/**
+ * What happens when a value arrives for a branch whose buffer is full:
+ * - `"block"`: the source isn't read until every branch has room, so the
+ *   faster branches wait for the slowest one
+ * - `"drop"`: the value is dropped for the full branch
+ * - `"error"`: the full branch throws a `TeeBufferOverflowError` and stops
+ *   receiving values
+ */
+export type TeeStrategy = "block" | "drop" | "error";
+
+export interface TeeOptions {
+  /**
+   * The maximum number of values buffered for a branch that is behind the
+   * others. Default is `1`
+   */
+  highWaterMark?: number;
+  /** Default is `"block"` */
+  strategy?: TeeStrategy;
+}
 
-class AsyncIterableClone<T> implements AsyncIterable<T> {
-  currentPromise: Promise<IteratorResult<T>>;
-  resolveCurrent: (x: Promise<IteratorResult<T>>) => void = noop;
-  consumed: Promise<void>;
-  consume: () => void = noop;
+/** Error thrown by a branch that fell behind with the `"error"` strategy */
+export class TeeBufferOverflowError extends Error {
+  name = "TeeBufferOverflowError";
 
-  constructor() {
-    this.currentPromise = new Promise<IteratorResult<T>>((resolve) => {
-      this.resolveCurrent = resolve;
-    });
-    this.consumed = new Promise<void>((resolve) => {
-      this.consume = resolve;
-    });
+  constructor(message = "tee branch buffer overflow") {
+    super(message);
   }
+}
 
-  reset() {
-    this.currentPromise = new Promise<IteratorResult<T>>((resolve) => {
-      this.resolveCurrent = resolve;
-    });
-    this.consumed = new Promise<void>((resolve) => {
-      this.consume = resolve;
-    });
+/** A branch returned by `tee()` */
+export interface TeeBranch<T> extends AsyncIterable<T> {
+  /** The number of values buffered for the branch */
+  readonly buffered: number;
+  /** The number of values dropped for the branch with the `"drop"` strategy */
+  readonly dropped: number;
+}
+
+class AsyncIterableClone<T> implements TeeBranch<T>, AsyncIterator<T> {
+  buffer: T[] = [];
+  dropped = 0;
+  // Pending `next()` calls, only while the buffer is empty
+  waiters: Array<Deferred<IteratorResult<T>>> = [];
+  // Set when the branch stops receiving values
+  detached = false;
+  // The error to throw once before the branch is done
+  error: { reason: unknown } | undefined;
+
+  constructor(private source: TeeSource<T>) {}
+
+  get buffered(): number {
+    return this.buffer.length;
   }
 
-  async next(): Promise<IteratorResult<T>> {
-    const res = await this.currentPromise;
-    this.consume();
-    this.reset();
-    return res;
+  next(): Promise<IteratorResult<T>> {
+    if (this.buffer.length > 0) {
+      const value = this.buffer.shift()!;
+      this.source.pump();
+      return Promise.resolve({ value, done: false });
+    }
+    if (this.error) {
+      const { reason } = this.error;
+      this.error = undefined;
+      return Promise.reject(reason);
+    }
+    if (this.detached) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+    const waiter = deferred<IteratorResult<T>>();
+    this.waiters.push(waiter);
+    this.source.pump();
+    return waiter;
   }
 
-  async push(res: Promise<IteratorResult<T>>): Promise<void> {
-    this.resolveCurrent(res);
-    // Wait until current promise is consumed and next item is requested.
-    await this.consumed;
+  return(): Promise<IteratorResult<T>> {
+    this.buffer = [];
+    this.error = undefined;
+    if (!this.detached) {
+      this.detached = true;
+      this.source.detach();
+    }
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  deliver(value: T) {
+    if (this.waiters.length > 0) {
+      this.waiters.shift()!.resolve({ value, done: false });
+    } else {
+      this.buffer.push(value);
+    }
+  }
+
+  // Stop receiving values, ending the branch once its buffer is consumed
+  end(error?: { reason: unknown }) {
+    this.detached = true;
+    this.error = error;
+    // the buffer is empty when consumers are waiting
+    for (const waiter of this.waiters.splice(0)) {
+      waiter.resolve(this.next());
+    }
   }
 
   [Symbol.asyncIterator](): AsyncIterator<T> {
@@ -52,9 +115,92 @@ class AsyncIterableClone<T> implements AsyncIterable<T> {
   }
 }
 
+// Reads the source on demand of the branches and distributes the values
+class TeeSource<T> {
+  branches: Array<AsyncIterableClone<T>> = [];
+  #iterator: AsyncIterator<T>;
+  #highWaterMark: number;
+  #strategy: TeeStrategy;
+  #pulling = false;
+  #done = false;
+
+  constructor(
+    src: AsyncIterable<T>,
+    highWaterMark: number,
+    strategy: TeeStrategy,
+  ) {
+    this.#iterator = src[Symbol.asyncIterator]();
+    this.#highWaterMark = highWaterMark;
+    this.#strategy = strategy;
+  }
+
+  // Read the next value if a branch is waiting and the strategy allows
+  pump() {
+    if (this.#pulling || this.#done) return;
+    const active = this.branches.filter((b) => !b.detached);
+    if (!active.some((b) => b.waiters.length > 0)) return;
+    if (
+      this.#strategy === "block" &&
+      active.some((b) => b.buffer.length >= this.#highWaterMark)
+    ) {
+      return;
+    }
+    this.#pulling = true;
+    this.#iterator.next().then((result) => {
+      this.#pulling = false;
+      if (result.done) {
+        this.#finish();
+        return;
+      }
+      for (const branch of this.branches) {
+        if (branch.detached) continue;
+        if (
+          branch.waiters.length > 0 ||
+          branch.buffer.length < this.#highWaterMark
+        ) {
+          branch.deliver(result.value);
+        } else if (this.#strategy === "drop") {
+          branch.dropped++;
+        } else if (this.#strategy === "error") {
+          branch.buffer = [];
+          branch.end({ reason: new TeeBufferOverflowError() });
+          this.detach();
+        }
+      }
+      this.pump();
+    }, (reason) => {
+      this.#pulling = false;
+      this.#finish({ reason });
+    });
+  }
+
+  // Called when a branch stops receiving values
+  detach() {
+    if (this.branches.every((b) => b.detached) && !this.#done) {
+      this.#done = true;
+      this.#iterator.return?.().catch(() => {});
+      return;
+    }
+    this.pump();
+  }
+
+  #finish(error?: { reason: unknown }) {
+    this.#done = true;
+    for (const branch of this.branches) {
+      if (!branch.detached) branch.end(error);
+    }
+  }
+}
+
 /**
  * Branches the given async iterable into the n branches.
  *
+ * The source is read as fast as the fastest branch consumes it. Up to
+ * `options.highWaterMark` values are buffered for the slower branches, and
+ * `options.strategy` decides what happens when a buffer is full. A branch
+ * closed early (e.g. by `break`) no longer holds the others back; the source
+ * is closed when all the branches are.
+ *
  * Example:
  *
  *     const gen = async function* gen() {
@@ -80,23 +226,16 @@ class AsyncIterableClone<T> implements AsyncIterable<T> {
 export function tee<T, N extends number = 2>(
   src: AsyncIterable<T>,
   n: N = 2 as N,
-): Tuple<AsyncIterable<T>, N> {
-  const clones: Tuple<AsyncIterableClone<T>, N> = Array.from({ length: n }).map(
-    () => new AsyncIterableClone(),
-    // deno-lint-ignore no-explicit-any
-  ) as any;
-  (async () => {
-    const iter = src[Symbol.asyncIterator]();
-    await Promise.resolve();
-    while (true) {
-      const res = iter.next();
-      await Promise.all(clones.map((c) => c.push(res)));
-      if ((await res).done) {
-        break;
-      }
-    }
-  })().catch((e) => {
-    console.error(e);
-  });
-  return clones;
+  options: TeeOptions = {},
+): Tuple<TeeBranch<T>, N> {
+  const { highWaterMark = 1, strategy = "block" } = options;
+  if (!(highWaterMark >= 1)) {
+    throw new RangeError(`invalid highWaterMark: ${highWaterMark}`);
+  }
+  const source = new TeeSource(src, highWaterMark, strategy);
+  source.branches = Array.from({ length: n }).map(
+    () => new AsyncIterableClone(source),
+  );
+  // deno-lint-ignore no-explicit-any
+  return source.branches as any;
 }
@@ -1,6 +1,6 @@
 // Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
-import { tee } from "./tee.ts";
-import { assertEquals } from "https://deno.land/std@0.95.0/testing/asserts.ts";
+import { tee, TeeBufferOverflowError } from "./tee.ts";
+import { assert, assertEquals, assertThrowsAsync } from "../testing/asserts.ts";
 
 /** An example async generator */
 const gen = async function* iter() {
@@ -60,3 +60,94 @@ Deno.test("async/tee - 3 branches - delayed consumption", async () => {
     ],
   );
 });
+
+/** An async generator yielding 1..n, recording whether it was closed */
+function counter(n: number) {
+  const state = { pulled: 0, closed: false };
+  const iter = (async function* () {
+    try {
+      for (let i = 1; i <= n; i++) {
+        state.pulled++;
+        yield i;
+      }
+    } finally {
+      state.closed = true;
+    }
+  })();
+  return { iter, state };
+}
+
+Deno.test("async/tee - block strategy", async () => {
+  const { iter, state } = counter(10);
+  const [fast, slow] = tee(iter, 2, { highWaterMark: 3 });
+  const fastIter = fast[Symbol.asyncIterator]();
+  const values = [];
+  for (let i = 0; i < 3; i++) values.push((await fastIter.next()).value);
+  assertEquals(values, [1, 2, 3]);
+  assertEquals(slow.buffered, 3);
+
+  // the fast branch waits until the slow one consumes
+  const next = fastIter.next();
+  let resolved = false;
+  next.then(() => resolved = true);
+  await new Promise((resolve) => setTimeout(resolve, 10));
+  assert(!resolved);
+  assertEquals(state.pulled, 3);
+  const [slowValues, fastValues] = await Promise.all([
+    accumulate(slow),
+    accumulate(fast),
+  ]);
+  assertEquals(slowValues, [1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+  assertEquals(await next, { value: 4, done: false });
+  assertEquals(fastValues, [5, 6, 7, 8, 9, 10]);
+});
+
+Deno.test("async/tee - drop strategy", async () => {
+  const { iter } = counter(5);
+  const [fast, slow] = tee(iter, 2, { highWaterMark: 2, strategy: "drop" });
+  assertEquals(await accumulate(fast), [1, 2, 3, 4, 5]);
+  assertEquals(slow.buffered, 2);
+  assertEquals(slow.dropped, 3);
+  assertEquals(await accumulate(slow), [1, 2]);
+});
+
+Deno.test("async/tee - error strategy", async () => {
+  const { iter } = counter(5);
+  const [fast, slow] = tee(iter, 2, { highWaterMark: 2, strategy: "error" });
+  assertEquals(await accumulate(fast), [1, 2, 3, 4, 5]);
+  await assertThrowsAsync(
+    () => accumulate(slow),
+    TeeBufferOverflowError,
+    "tee branch buffer overflow",
+  );
+});
+
+Deno.test("async/tee - closing branches", async () => {
+  const { iter, state } = counter(10);
+  const [a, b] = tee(iter, 2, { highWaterMark: 10 });
+  for await (const n of a) {
+    if (n === 2) break;
+  }
+  // a closed branch no longer holds the others back
+  assertEquals(await accumulate(b), [1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+  assert(state.closed);
+
+  const second = counter(10);
+  const branches = tee(second.iter, 3);
+  for (const branch of branches) {
+    for await (const _ of branch) break;
+  }
+  assert(second.state.closed);
+});
+
+Deno.test("async/tee - source error", async () => {
+  const src = (async function* () {
+    yield 1;
+    throw new Error("source failure");
+  })();
+  const [a, b] = tee(src);
+  await Promise.all([
+    assertThrowsAsync(() => accumulate(a), Error, "source failure"),
+    assertThrowsAsync(() => accumulate(b), Error, "source failure"),
+  ]);
+});
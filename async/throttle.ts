@@ -0,0 +1,65 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+
+/** A throttled function returned by `throttle()` */
+export interface ThrottledFunction<T extends unknown[]> {
+  (...args: T): void;
+  /** Call the pending trailing call, if any, immediately */
+  flush(): void;
+  /** Drop the pending trailing call, if any, and reset the interval */
+  cancel(): void;
+  /** Whether a trailing call is pending */
+  readonly pending: boolean;
+}
+
+/**
+ * Create a function that calls `fn` at most once per `interval`
+ * milliseconds. The first call is passed through immediately; calls made
+ * during the interval are collapsed into one trailing call with the
+ * arguments of the last of them.
+ *
+ *     const report = throttle((progress: number) => {
+ *       console.log(`${progress}%`);
+ *     }, 1000);
+ */
+export function throttle<T extends unknown[]>(
+  fn: (...args: T) => void,
+  interval: number,
+): ThrottledFunction<T> {
+  let lastCall = -Infinity;
+  let timer: number | undefined;
+  let pendingArgs: T | undefined;
+
+  const invoke = () => {
+    timer = undefined;
+    lastCall = Date.now();
+    const args = pendingArgs!;
+    pendingArgs = undefined;
+    fn(...args);
+  };
+
+  const throttled = ((...args: T) => {
+    const remaining = lastCall + interval - Date.now();
+    pendingArgs = args;
+    if (timer !== undefined) return;
+    if (remaining <= 0) {
+      invoke();
+    } else {
+      timer = setTimeout(invoke, remaining);
+    }
+  }) as ThrottledFunction<T>;
+
+  throttled.flush = () => {
+    if (timer === undefined) return;
+    clearTimeout(timer);
+    invoke();
+  };
+  throttled.cancel = () => {
+    clearTimeout(timer);
+    timer = pendingArgs = undefined;
+    lastCall = -Infinity;
+  };
+  Object.defineProperty(throttled, "pending", {
+    get: () => pendingArgs !== undefined,
+  });
+  return throttled;
+}
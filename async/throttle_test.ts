@@ -0,0 +1,35 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { assert, assertEquals } from "../testing/asserts.ts";
+import { delay } from "./delay.ts";
+import { throttle } from "./throttle.ts";
+
+Deno.test("[async] throttle", async function () {
+  const calls: number[] = [];
+  const fn = throttle((n: number) => calls.push(n), 30);
+  fn(1);
+  fn(2);
+  fn(3);
+  assertEquals(calls, [1]);
+  assert(fn.pending);
+  await delay(50);
+  assertEquals(calls, [1, 3]);
+  // still within the interval of the trailing call
+  fn(4);
+  assertEquals(calls, [1, 3]);
+  await delay(50);
+  assertEquals(calls, [1, 3, 4]);
+});
+
+Deno.test("[async] throttle: flush and cancel", function () {
+  const calls: number[] = [];
+  const fn = throttle((n: number) => calls.push(n), 1000);
+  fn(1);
+  fn(2);
+  fn.flush();
+  assertEquals(calls, [1, 2]);
+  fn(3);
+  fn.cancel();
+  assert(!fn.pending);
+  fn(4);
+  assertEquals(calls, [1, 2, 4]);
+});
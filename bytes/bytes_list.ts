@@ -1,14 +1,16 @@
+interface Chunk {
+  value: Uint8Array;
+  start: number; // start offset from head of chunk
+  end: number; // end offset from head of chunk
+  offset: number; // offset of head in all bytes
+}
+
 /**
  * An abstraction of multiple Uint8Arrays
  */
 export class BytesList {
   private len = 0;
-  private chunks: {
-    value: Uint8Array;
-    start: number; // start offset from head of chunk
-    end: number; // end offset from head of chunk
-    offset: number; // offset of head in all bytes
-  }[] = [];
+  private chunks: Chunk[] = [];
   constructor() {}
 
   /**
@@ -137,6 +139,190 @@ export class BytesList {
     result.set(last.value.subarray(last.start, last.start + rest), written);
     return result;
   }
+  /**
+   * Find the first index of `pattern` at or after `start`, also across chunk
+   * boundaries. returns -1 if not found or if `pattern` is empty
+   */
+  indexOfPattern(pattern: Uint8Array, start = 0): number {
+    const m = pattern.length;
+    if (start < 0) start = 0;
+    const startIdx = this.getChunkIndex(start);
+    if (m === 0 || startIdx < 0) return -1;
+    // Knuth-Morris-Pratt failure table
+    const fail = new Int32Array(m);
+    for (let i = 1, k = 0; i < m; i++) {
+      while (k > 0 && pattern[i] !== pattern[k]) k = fail[k - 1];
+      if (pattern[i] === pattern[k]) k++;
+      fail[i] = k;
+    }
+    let k = 0;
+    for (let i = startIdx; i < this.chunks.length; i++) {
+      const chunk = this.chunks[i];
+      const from = chunk.start + (i === startIdx ? start - chunk.offset : 0);
+      for (let j = from; j < chunk.end; j++) {
+        const b = chunk.value[j];
+        while (k > 0 && b !== pattern[k]) k = fail[k - 1];
+        if (b === pattern[k]) k++;
+        if (k === m) {
+          return chunk.offset + j - chunk.start - m + 1;
+        }
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Remove `deleteCount` bytes at `start` and insert `items` there, without
+   * copying. returns the removed bytes
+   */
+  splice(
+    start: number,
+    deleteCount = this.len - start,
+    ...items: Uint8Array[]
+  ): BytesList {
+    checkRange(start, start, this.len);
+    const end = start + Math.max(0, Math.min(deleteCount, this.len - start));
+    const removed = new BytesList();
+    const chunks: Chunk[] = [];
+    let inserted = false;
+    const insert = () => {
+      if (inserted) return;
+      inserted = true;
+      for (const value of items) {
+        if (value.byteLength === 0) continue;
+        chunks.push({ value, start: 0, end: value.byteLength, offset: 0 });
+      }
+    };
+    for (const chunk of this.chunks) {
+      const chunkStart = chunk.offset;
+      const chunkEnd = chunk.offset + chunk.end - chunk.start;
+      if (chunkEnd <= start) {
+        chunks.push(chunk);
+        continue;
+      }
+      if (end <= chunkStart) {
+        insert();
+        chunks.push(chunk);
+        continue;
+      }
+      const { value } = chunk;
+      if (chunkStart < start) {
+        chunks.push({
+          value,
+          start: chunk.start,
+          end: chunk.start + start - chunkStart,
+          offset: 0,
+        });
+      }
+      const from = Math.max(start, chunkStart);
+      const to = Math.min(end, chunkEnd);
+      if (from < to) {
+        removed.add(
+          value,
+          chunk.start + from - chunkStart,
+          chunk.start + to - chunkStart,
+        );
+      }
+      insert();
+      if (end < chunkEnd) {
+        chunks.push({
+          value,
+          start: chunk.start + end - chunkStart,
+          end: chunk.end,
+          offset: 0,
+        });
+      }
+    }
+    insert();
+    this.chunks = chunks;
+    this.reindex();
+    return removed;
+  }
+
+  /**
+   * Iterator of the chunks between `start` and `end` as subarrays, without
+   * copying
+   */
+  *segments(start = 0, end: number = this.len): IterableIterator<Uint8Array> {
+    checkRange(start, end, this.len);
+    if (start === end) return;
+    for (let i = this.getChunkIndex(start); i < this.chunks.length; i++) {
+      const { value, offset, start: s, end: e } = this.chunks[i];
+      if (end <= offset) return;
+      yield value.subarray(
+        s + Math.max(start - offset, 0),
+        Math.min(e, s + end - offset),
+      );
+    }
+  }
+
+  /**
+   * Reader of the bytes from `offset`. The bytes are read from the list as
+   * it is at the time of each read
+   */
+  readerFrom(offset = 0): Deno.Reader {
+    checkRange(offset, offset, this.len);
+    let pos = offset;
+    return {
+      read: (p: Uint8Array): Promise<number | null> => {
+        if (pos >= this.len) return Promise.resolve(null);
+        let n = 0;
+        for (const segment of this.segments(pos)) {
+          const size = Math.min(segment.byteLength, p.byteLength - n);
+          p.set(segment.subarray(0, size), n);
+          n += size;
+          if (n === p.byteLength) break;
+        }
+        pos += n;
+        return Promise.resolve(n);
+      },
+    };
+  }
+
+  /**
+   * Merge consecutive chunks smaller than `threshold` bytes into single
+   * chunks, copying them
+   */
+  compact(threshold = 1024) {
+    const chunks: Chunk[] = [];
+    let run: Chunk[] = [];
+    const flush = () => {
+      if (run.length === 1) {
+        chunks.push(run[0]);
+      } else if (run.length > 1) {
+        const size = run.reduce((sum, c) => sum + c.end - c.start, 0);
+        const value = new Uint8Array(size);
+        let written = 0;
+        for (const c of run) {
+          value.set(c.value.subarray(c.start, c.end), written);
+          written += c.end - c.start;
+        }
+        chunks.push({ value, start: 0, end: size, offset: 0 });
+      }
+      run = [];
+    };
+    for (const chunk of this.chunks) {
+      if (chunk.end - chunk.start < threshold) {
+        run.push(chunk);
+      } else {
+        flush();
+        chunks.push(chunk);
+      }
+    }
+    flush();
+    this.chunks = chunks;
+    this.reindex();
+  }
+
+  private reindex() {
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      chunk.offset = offset;
+      offset += chunk.end - chunk.start;
+    }
+    this.len = offset;
+  }
+
   /**
    * Concatenate chunks into single Uint8Array copied.
    */
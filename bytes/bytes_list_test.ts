@@ -210,3 +210,77 @@ Deno.test("[bytes] BytesList.iterator()", () => {
 
 Deno.test("[bytes] ByteList.iterator() range", () => {
 });
+
+Deno.test("[bytes] BytesList.indexOfPattern", () => {
+  const arr = setup();
+  assertEquals(arr.indexOfPattern(new Uint8Array([2, 3, 4])), 2);
+  assertEquals(arr.indexOfPattern(new Uint8Array([6, 7, 8, 9])), 6);
+  assertEquals(arr.indexOfPattern(new Uint8Array([9])), 9);
+  assertEquals(arr.indexOfPattern(new Uint8Array([2, 3]), 3), -1);
+  assertEquals(arr.indexOfPattern(new Uint8Array([9, 10])), -1);
+  assertEquals(arr.indexOfPattern(new Uint8Array()), -1);
+  const repeated = new BytesList();
+  repeated.add(new Uint8Array([1, 1, 2, 1]));
+  repeated.add(new Uint8Array([1, 1, 2]));
+  assertEquals(repeated.indexOfPattern(new Uint8Array([1, 1, 2])), 0);
+  assertEquals(repeated.indexOfPattern(new Uint8Array([1, 1, 2]), 1), 4);
+  assertEquals(repeated.indexOfPattern(new Uint8Array([2, 1, 1])), 2);
+});
+
+Deno.test("[bytes] BytesList.splice", () => {
+  const arr = setup();
+  const removed = arr.splice(2, 5, new Uint8Array([20, 30]));
+  assertEquals(Array.from(removed.iterator()), [2, 3, 4, 5, 6]);
+  assertEquals(Array.from(arr.iterator()), [0, 1, 20, 30, 7, 8, 9]);
+  assertEquals(arr.size(), 7);
+  assertEquals(arr.get(3), 30);
+  arr.splice(0, 0, new Uint8Array([10]));
+  arr.splice(arr.size(), 0, new Uint8Array([11]), new Uint8Array([12]));
+  assertEquals(Array.from(arr.iterator()), [10, 0, 1, 20, 30, 7, 8, 9, 11, 12]);
+  assertEquals(arr.splice(8).size(), 2);
+  assertEquals(Array.from(arr.iterator()), [10, 0, 1, 20, 30, 7, 8, 9]);
+  assertThrows(() => arr.splice(100, 1), Error, "invalid range");
+});
+
+Deno.test("[bytes] BytesList.segments", () => {
+  const arr = setup();
+  assertEquals(Array.from(arr.segments()).map((s) => Array.from(s)), [
+    [0, 1, 2],
+    [3, 4, 5, 6],
+    [7],
+    [8],
+    [9],
+  ]);
+  assertEquals(Array.from(arr.segments(1, 5)).map((s) => Array.from(s)), [
+    [1, 2],
+    [3, 4],
+  ]);
+  assertEquals(Array.from(arr.segments(4, 4)), []);
+  // the segments are views of the added arrays
+  const part = new Uint8Array([1, 2, 3]);
+  const list = new BytesList();
+  list.add(part, 1);
+  const [segment] = list.segments();
+  assertEquals(segment.buffer, part.buffer);
+});
+
+Deno.test("[bytes] BytesList.readerFrom", async () => {
+  const arr = setup();
+  const reader = arr.readerFrom(3);
+  const buf = new Uint8Array(5);
+  assertEquals(await reader.read(buf), 5);
+  assertEquals(Array.from(buf), [3, 4, 5, 6, 7]);
+  assertEquals(await reader.read(buf), 2);
+  assertEquals(Array.from(buf.subarray(0, 2)), [8, 9]);
+  assertEquals(await reader.read(buf), null);
+});
+
+Deno.test("[bytes] BytesList.compact", () => {
+  const arr = setup();
+  arr.compact(2);
+  assertEquals(Array.from(arr.segments()).map((s) => s.byteLength), [3, 4, 3]);
+  assertEquals(Array.from(arr.iterator()), [0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+  assertEquals(arr.get(8), 8);
+  arr.compact(8);
+  assertEquals(Array.from(arr.segments()).map((s) => s.byteLength), [10]);
+});
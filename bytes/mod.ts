@@ -1,5 +1,8 @@
 // Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
 
+// Patterns shorter than this are found faster by the naive scan
+const searcherMinPattern = 4;
+
 /** Find first index of binary pattern from source. If not found, then return -1
  * @param source source array
  * @param pat pattern to find in source array
@@ -16,6 +19,9 @@ export function indexOf(
   if (start < 0) {
     start = 0;
   }
+  if (pat.length >= searcherMinPattern && source.length - start >= 1024) {
+    return new BytesSearcher(pat).indexOf(source, start);
+  }
   const s = pat[0];
   for (let i = start; i < source.length; i++) {
     if (source[i] !== s) continue;
@@ -36,6 +42,61 @@ export function indexOf(
   return -1;
 }
 
+/**
+ * A substring searcher using the Boyer-Moore-Horspool algorithm. Building the
+ * skip table once makes repeated searches for the same pattern fast, e.g.
+ * scanning a stream for a multipart boundary.
+ *
+ *     const searcher = new BytesSearcher(encoder.encode("\r\n--boundary"));
+ *     const i = searcher.indexOf(chunk);
+ */
+export class BytesSearcher {
+  readonly pattern: Uint8Array;
+  #skip = new Uint32Array(256);
+
+  constructor(pattern: Uint8Array) {
+    this.pattern = pattern;
+    const m = pattern.length;
+    this.#skip.fill(Math.max(m, 1));
+    for (let i = 0; i < m - 1; i++) {
+      this.#skip[pattern[i]] = m - 1 - i;
+    }
+  }
+
+  /** Find the first index of the pattern in `source` at or after `start`,
+   * or -1 if there is none. An empty pattern is never found.
+   */
+  indexOf(source: Uint8Array, start = 0): number {
+    const pat = this.pattern;
+    const m = pat.length;
+    if (m === 0) return -1;
+    const skip = this.#skip;
+    const last = pat[m - 1];
+    const end = source.length - m;
+    for (let i = Math.max(start, 0); i <= end;) {
+      const c = source[i + m - 1];
+      if (c === last) {
+        let j = m - 2;
+        while (j >= 0 && source[i + j] === pat[j]) j--;
+        if (j < 0) return i;
+      }
+      i += skip[c];
+    }
+    return -1;
+  }
+
+  /** Find the indices of all the non-overlapping occurrences of the pattern */
+  indicesOf(source: Uint8Array): number[] {
+    const indices = [];
+    const step = Math.max(this.pattern.length, 1);
+    for (let i = this.indexOf(source); i >= 0; i = this.indexOf(source, i)) {
+      indices.push(i);
+      i += step;
+    }
+    return indices;
+  }
+}
+
 /** Find last index of binary pattern from source. If not found, then return -1.
  * @param source source array
  * @param pat pattern to find in source array
@@ -78,12 +139,38 @@ export function lastIndexOf(
  */
 export function equals(a: Uint8Array, b: Uint8Array): boolean {
   if (a.length !== b.length) return false;
-  for (let i = 0; i < b.length; i++) {
+  if (a.length >= 1024 && a.byteOffset % 4 === b.byteOffset % 4) {
+    return equals32Bit(a, b);
+  }
+  return equalsNaive(a, b, 0, a.length);
+}
+
+function equalsNaive(
+  a: Uint8Array,
+  b: Uint8Array,
+  start: number,
+  end: number,
+): boolean {
+  for (let i = start; i < end; i++) {
     if (a[i] !== b[i]) return false;
   }
   return true;
 }
 
+/** Compare 32 bits at a time, given that `a` and `b` share the alignment */
+function equals32Bit(a: Uint8Array, b: Uint8Array): boolean {
+  const head = (4 - a.byteOffset % 4) % 4;
+  const words = (a.length - head) >>> 2;
+  const tail = head + words * 4;
+  if (!equalsNaive(a, b, 0, head)) return false;
+  const a32 = new Uint32Array(a.buffer, a.byteOffset + head, words);
+  const b32 = new Uint32Array(b.buffer, b.byteOffset + head, words);
+  for (let i = 0; i < words; i++) {
+    if (a32[i] !== b32[i]) return false;
+  }
+  return equalsNaive(a, b, tail, a.length);
+}
+
 /** Check whether binary array starts with prefix.
  * @param source source array
  * @param prefix prefix array to check in source
@@ -188,3 +275,114 @@ export function copy(src: Uint8Array, dst: Uint8Array, off = 0): number {
   dst.set(src, off);
   return src.byteLength;
 }
+
+/** Count the non-overlapping occurrences of pattern in source.
+ * @param source source array
+ * @param pat pattern to count in source array
+ * @throws `RangeError` When the pattern is empty
+ */
+export function count(source: Uint8Array, pat: Uint8Array): number {
+  if (pat.length === 0) {
+    throw new RangeError("bytes: empty pattern");
+  }
+  return new BytesSearcher(pat).indicesOf(source).length;
+}
+
+/** Check whether source contains any of the patterns.
+ * @param source source array
+ * @param pats patterns to find in source array
+ */
+export function includesAny(source: Uint8Array, pats: Uint8Array[]): boolean {
+  return pats.some((pat) => indexOf(source, pat) !== -1);
+}
+
+/** Split source around each occurrence of separator. The parts are subarrays
+ * of source, so no bytes are copied.
+ * @param source source array
+ * @param sep separator to split at
+ * @param limit the maximum number of parts; the last part holds the rest
+ * @throws `RangeError` When the separator is empty
+ */
+export function split(
+  source: Uint8Array,
+  sep: Uint8Array,
+  limit = Infinity,
+): Uint8Array[] {
+  if (sep.length === 0) {
+    throw new RangeError("bytes: empty separator");
+  }
+  const parts = [];
+  const searcher = new BytesSearcher(sep);
+  let start = 0;
+  while (parts.length < limit - 1) {
+    const i = searcher.indexOf(source, start);
+    if (i === -1) break;
+    parts.push(source.subarray(start, i));
+    start = i + sep.length;
+  }
+  if (limit > 0) parts.push(source.subarray(start));
+  return parts;
+}
+
+/** Concatenate the parts with separator between them and return new array.
+ * @param parts binary arrays to join
+ * @param sep separator to insert between the parts
+ */
+export function join(
+  parts: Uint8Array[],
+  sep: Uint8Array = new Uint8Array(),
+): Uint8Array {
+  if (parts.length === 0) return new Uint8Array();
+  let length = sep.length * (parts.length - 1);
+  for (const part of parts) {
+    length += part.length;
+  }
+  const output = new Uint8Array(length);
+  let index = 0;
+  for (const [i, part] of parts.entries()) {
+    if (i > 0) {
+      output.set(sep, index);
+      index += sep.length;
+    }
+    output.set(part, index);
+    index += part.length;
+  }
+  return output;
+}
+
+/** Replace all the non-overlapping occurrences of pattern and return new
+ * array.
+ * @param source source array
+ * @param pat pattern to replace
+ * @param replacement array to insert in place of each occurrence
+ * @throws `RangeError` When the pattern is empty
+ */
+export function replaceAll(
+  source: Uint8Array,
+  pat: Uint8Array,
+  replacement: Uint8Array,
+): Uint8Array {
+  if (pat.length === 0) {
+    throw new RangeError("bytes: empty pattern");
+  }
+  return join(split(source, pat), replacement);
+}
+
+// ASCII whitespace: HT, LF, VT, FF, CR and space
+const whitespace = new Uint8Array([9, 10, 11, 12, 13, 32]);
+
+/** Remove the leading and trailing bytes contained in cutset. The result is a
+ * subarray of source.
+ * @param source source array
+ * @param cutset bytes to remove, ASCII whitespace by default
+ */
+export function trim(
+  source: Uint8Array,
+  cutset: Uint8Array = whitespace,
+): Uint8Array {
+  let start = 0;
+  let end = source.length;
+  while (start < end && cutset.includes(source[start])) start++;
+  while (end > start && cutset.includes(source[end - 1])) end--;
+  return source.subarray(start, end);
+}
@@ -1,15 +1,22 @@
 // Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
 
 import {
+  BytesSearcher,
   concat,
   contains,
   copy,
+  count,
   endsWith,
   equals,
+  includesAny,
   indexOf,
+  join,
   lastIndexOf,
   repeat,
+  replaceAll,
+  split,
   startsWith,
+  trim,
 } from "./mod.ts";
 import { assert, assertEquals, assertThrows } from "../testing/asserts.ts";
 
@@ -214,3 +221,106 @@ Deno.test("[bytes] copy", function (): void {
   assert(len === 2);
   assertEquals(dst, Uint8Array.of(3, 4, 0, 0));
 });
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+Deno.test("[bytes] BytesSearcher", () => {
+  const searcher = new BytesSearcher(encoder.encode("--boundary"));
+  const source = encoder.encode("a--boundar--boundary--b--boundary");
+  assertEquals(searcher.indexOf(source), 10);
+  assertEquals(searcher.indexOf(source, 11), 23);
+  assertEquals(searcher.indexOf(source, 24), -1);
+  assertEquals(searcher.indicesOf(source), [10, 23]);
+  assertEquals(searcher.indicesOf(encoder.encode("--boundary")), [0]);
+  assertEquals(new BytesSearcher(new Uint8Array()).indexOf(source), -1);
+  assertEquals(
+    new BytesSearcher(encoder.encode("aa")).indicesOf(encoder.encode("aaaaa")),
+    [0, 2],
+  );
+});
+
+Deno.test("[bytes] indexOf long source", () => {
+  const source = new Uint8Array(5000);
+  const pat = new Uint8Array([1, 2, 3, 4, 5]);
+  source.set(pat, 4000);
+  source.set(pat.subarray(0, 4), 3000);
+  assertEquals(indexOf(source, pat), 4000);
+  assertEquals(indexOf(source, pat, 4001), -1);
+  assertEquals(indexOf(source, pat.subarray(0, 4)), 3000);
+});
+
+Deno.test("[bytes] equals large arrays", () => {
+  const a = new Uint8Array(4099).map((_, i) => i % 251);
+  const b = a.slice();
+  assert(equals(a, b));
+  // differently aligned views
+  assert(equals(a.subarray(1), b.subarray(1)));
+  assert(equals(a.subarray(1, 4000), new Uint8Array(a.subarray(1, 4000))));
+  for (const i of [0, 2, 2000, 4098]) {
+    const c = b.slice();
+    c[i] ^= 1;
+    assert(!equals(a, c));
+    assert(!equals(a.subarray(1), c.subarray(1)) || i === 0);
+  }
+});
+
+Deno.test("[bytes] count and includesAny", () => {
+  const source = encoder.encode("a,b,,c,");
+  assertEquals(count(source, encoder.encode(",")), 4);
+  assertEquals(count(source, encoder.encode(",,")), 1);
+  assertEquals(count(encoder.encode("aaaa"), encoder.encode("aa")), 2);
+  assertThrows(() => count(source, new Uint8Array()), RangeError);
+  assert(includesAny(source, [encoder.encode("x"), encoder.encode("c,")]));
+  assert(!includesAny(source, [encoder.encode("x"), encoder.encode(",,,")]));
+  assert(!includesAny(source, []));
+});
+
+Deno.test("[bytes] split and join", () => {
+  const source = encoder.encode("a, b, , c");
+  const sep = encoder.encode(", ");
+  const parts = split(source, sep);
+  assertEquals(parts.map((p) => decoder.decode(p)), ["a", "b", "", "c"]);
+  // the parts are views of the source
+  assertEquals(parts[1].buffer, source.buffer);
+  assertEquals(
+    split(source, sep, 2).map((p) => decoder.decode(p)),
+    ["a", "b, , c"],
+  );
+  assertEquals(split(source, sep, 0), []);
+  assertEquals(split(new Uint8Array(), sep), [new Uint8Array()]);
+  assertThrows(() => split(source, new Uint8Array()), RangeError);
+  assertEquals(join(parts, sep), source);
+  assertEquals(decoder.decode(join(parts)), "abc");
+  assertEquals(join([]), new Uint8Array());
+});
+
+Deno.test("[bytes] replaceAll", () => {
+  const source = encoder.encode("\r\na\r\nb\r\n");
+  assertEquals(
+    decoder.decode(
+      replaceAll(source, encoder.encode("\r\n"), encoder.encode("\n")),
+    ),
+    "\na\nb\n",
+  );
+  assertEquals(
+    decoder.decode(
+      replaceAll(source, encoder.encode("x"), encoder.encode("y")),
+    ),
+    "\r\na\r\nb\r\n",
+  );
+  assertThrows(
+    () => replaceAll(source, new Uint8Array(), source),
+    RangeError,
+    "bytes: empty pattern",
+  );
+});
+
+Deno.test("[bytes] trim", () => {
+  assertEquals(decoder.decode(trim(encoder.encode(" \t deno\r\n"))), "deno");
+  assertEquals(trim(encoder.encode(" \n ")), new Uint8Array());
+  assertEquals(
+    decoder.decode(trim(encoder.encode("--deno--"), encoder.encode("-"))),
+    "deno",
+  );
+});
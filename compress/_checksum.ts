@@ -0,0 +1,45 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+
+const crcTable = new Uint32Array(256);
+for (let n = 0; n < 256; n++) {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  crcTable[n] = c >>> 0;
+}
+
+/**
+ * Update the CRC-32 (ISO 3309, as used by gzip) `crc` with `data`.
+ * The initial value is `0`.
+ */
+export function crc32(data: Uint8Array, crc = 0): number {
+  crc = ~crc;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return ~crc >>> 0;
+}
+
+// largest n such that 255n(n+1)/2 + (n+1)(65520) <= 2^32-1
+const adlerNmax = 5552;
+
+/**
+ * Update the Adler-32 (RFC 1950, as used by zlib) `adler` with `data`.
+ * The initial value is `1`.
+ */
+export function adler32(data: Uint8Array, adler = 1): number {
+  let a = adler & 0xffff;
+  let b = adler >>> 16;
+  let i = 0;
+  while (i < data.length) {
+    const end = Math.min(i + adlerNmax, data.length);
+    for (; i < end; i++) {
+      a += data[i];
+      b += a;
+    }
+    a %= 65521;
+    b %= 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
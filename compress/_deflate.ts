@@ -0,0 +1,562 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+// DEFLATE encoder: https://datatracker.ietf.org/doc/html/rfc1951
+// The match finder follows the hash chain design of zlib.
+import {
+  buildCodeLengths,
+  canonicalCodes,
+  codeLengthOrder,
+  distBase,
+  distExtra,
+  endOfBlock,
+  fixedDistLengths,
+  fixedLitLenLengths,
+  lengthBase,
+  lengthExtra,
+  maxMatch,
+  minMatch,
+  windowSize,
+} from "./_huffman.ts";
+
+const windowMask = windowSize - 1;
+// enough lookahead for a match of maxMatch and the hash of the next string
+const minLookahead = maxMatch + minMatch + 1;
+const maxDist = windowSize - minLookahead;
+// matches of minMatch bytes this far back cost more than the literals
+const tooFar = 4096;
+const hashBits = 15;
+const hashSize = 1 << hashBits;
+const hashMask = hashSize - 1;
+// number of symbols buffered before a block is emitted
+const symbolBufferSize = 16384;
+const maxStoredBlock = 65535;
+
+interface LevelConfig {
+  /** reduce the chain search when the previous match is at least this long */
+  good: number;
+  /** do not try a lazy match when the previous match is at least this long */
+  lazy: number;
+  /** stop searching when a match is at least this long */
+  nice: number;
+  /** maximum number of hash chain entries searched */
+  chain: number;
+}
+
+// Tuned like zlib, levels below 4 do not look for lazy matches.
+const levelConfigs: LevelConfig[] = [
+  { good: 0, lazy: 0, nice: 0, chain: 0 },
+  { good: 4, lazy: 0, nice: 8, chain: 4 },
+  { good: 4, lazy: 0, nice: 16, chain: 8 },
+  { good: 4, lazy: 0, nice: 32, chain: 32 },
+  { good: 4, lazy: 4, nice: 16, chain: 16 },
+  { good: 8, lazy: 16, nice: 32, chain: 32 },
+  { good: 8, lazy: 16, nice: 128, chain: 128 },
+  { good: 8, lazy: 32, nice: 128, chain: 256 },
+  { good: 32, lazy: 128, nice: 258, chain: 1024 },
+  { good: 32, lazy: 258, nice: 258, chain: 4096 },
+];
+
+// length (3..258) to length symbol index, and distance to distance symbol
+const lengthCode = new Uint8Array(maxMatch + 1);
+for (let code = 0; code < lengthBase.length; code++) {
+  const end = code === lengthBase.length - 1
+    ? maxMatch + 1
+    : lengthBase[code + 1];
+  lengthCode.fill(code, lengthBase[code], end);
+}
+const distCode = new Uint8Array(512);
+for (let code = 0; code < distBase.length; code++) {
+  for (
+    let d = distBase[code];
+    d < distBase[code] + (1 << distExtra[code]);
+    d++
+  ) {
+    if (d <= 256) distCode[d - 1] = code;
+    else distCode[256 + ((d - 1) >> 7)] = code;
+  }
+}
+
+function distanceCode(distance: number): number {
+  return distance <= 256
+    ? distCode[distance - 1]
+    : distCode[256 + ((distance - 1) >> 7)];
+}
+
+const fixedLitLenCodes = canonicalCodes(fixedLitLenLengths);
+const fixedDistCodes = canonicalCodes(fixedDistLengths);
+
+export interface RawDeflaterOptions {
+  /**
+   * Compression level from `0` (no compression) to `9` (best compression).
+   * Default is `6`
+   */
+  level?: number;
+}
+
+/**
+ * Incremental encoder of a raw DEFLATE stream. Data is pushed in chunks of
+ * any size, and the compressed data available so far is returned.
+ */
+export class RawDeflater {
+  #config: LevelConfig;
+
+  // input history and lookahead
+  #window = new Uint8Array(windowSize * 2);
+  #windowEnd = 0;
+  #strStart = 0;
+  #blockStart = 0;
+  #head = new Int32Array(hashSize).fill(-1);
+  #prev = new Int32Array(windowSize).fill(-1);
+  // lazy match state
+  #matchAvailable = false;
+  #matchLength = minMatch - 1;
+  #matchStart = 0;
+
+  // buffered symbols of the current block, a distance of 0 means a literal.
+  // One extra symbol for the pending lazy match literal emitted on flush.
+  #lits = new Uint16Array(symbolBufferSize + 1);
+  #dists = new Uint16Array(symbolBufferSize + 1);
+  #symbols = 0;
+  #litLenFreq = new Uint32Array(286);
+  #distFreq = new Uint32Array(30);
+
+  // output
+  #bitBuf = 0;
+  #bitCount = 0;
+  #out = new Uint8Array(16384);
+  #outPos = 0;
+  #chunks: Uint8Array[] = [];
+  #finished = false;
+
+  constructor({ level = 6 }: RawDeflaterOptions = {}) {
+    if (!Number.isInteger(level) || level < 0 || level > 9) {
+      throw new RangeError(`invalid compression level: ${level}`);
+    }
+    this.#config = levelConfigs[level];
+  }
+
+  /** Compress the `chunk` and return the compressed data available so far */
+  push(chunk: Uint8Array): Uint8Array {
+    if (this.#finished) throw new Error("deflate stream already finished");
+    let offset = 0;
+    while (offset < chunk.length) {
+      if (this.#windowEnd === this.#window.length) this.#slide();
+      const n = Math.min(
+        chunk.length - offset,
+        this.#window.length - this.#windowEnd,
+      );
+      this.#window.set(chunk.subarray(offset, offset + n), this.#windowEnd);
+      this.#windowEnd += n;
+      offset += n;
+      this.#deflate(false);
+    }
+    return this.#take();
+  }
+
+  /**
+   * Compress all the pushed data and align the output to a byte boundary with
+   * an empty stored block, so that a decoder can decompress everything
+   * written so far.
+   */
+  flush(): Uint8Array {
+    if (this.#finished) throw new Error("deflate stream already finished");
+    this.#deflate(true);
+    this.#flushBlock(false);
+    // sync flush marker
+    this.#writeBits(0, 3);
+    this.#alignToByte();
+    this.#writeBits(0, 16);
+    this.#writeBits(0xffff, 16);
+    return this.#take();
+  }
+
+  /** Compress all the pushed data and end the stream */
+  finish(): Uint8Array {
+    if (this.#finished) throw new Error("deflate stream already finished");
+    this.#deflate(true);
+    this.#flushBlock(true);
+    this.#alignToByte();
+    this.#finished = true;
+    return this.#take();
+  }
+
+  /** Insert the string at `pos` in the hash table, returning the chain head */
+  #insert(pos: number): number {
+    const w = this.#window;
+    const hash = ((w[pos] << 10) ^ (w[pos + 1] << 5) ^ w[pos + 2]) & hashMask;
+    const head = this.#head[hash];
+    this.#prev[pos & windowMask] = head;
+    this.#head[hash] = pos;
+    return head;
+  }
+
+  /** Find the longest match for the string at `#strStart` */
+  #longestMatch(chainHead: number, prevLength: number): number {
+    const w = this.#window;
+    const pos = this.#strStart;
+    const { good, nice } = this.#config;
+    let chain = this.#config.chain;
+    if (prevLength >= good) chain >>= 2;
+    const limit = pos > maxDist ? pos - maxDist : 0;
+    const maxLength = Math.min(maxMatch, this.#windowEnd - pos);
+    let bestLength = prevLength;
+    let cur = chainHead;
+    while (cur >= limit && chain-- > 0) {
+      if (
+        w[cur + bestLength] === w[pos + bestLength] &&
+        w[cur] === w[pos] && w[cur + 1] === w[pos + 1]
+      ) {
+        let length = 2;
+        while (length < maxLength && w[cur + length] === w[pos + length]) {
+          length++;
+        }
+        if (length > bestLength) {
+          bestLength = length;
+          this.#matchStart = cur;
+          if (length >= nice || length >= maxLength) break;
+        }
+      }
+      const next = this.#prev[cur & windowMask];
+      if (next >= cur) break;
+      cur = next;
+    }
+    return bestLength;
+  }
+
+  /** Find matches up to the end of the lookahead */
+  #deflate(flush: boolean) {
+    const end = flush ? this.#windowEnd : this.#windowEnd - minLookahead;
+    if (this.#config.chain === 0) {
+      // level 0 only stores the data
+      this.#strStart = Math.max(this.#strStart, end);
+      return;
+    }
+    const lazy = this.#config.lazy > 0;
+    while (this.#strStart < end) {
+      const lookahead = this.#windowEnd - this.#strStart;
+      const chainHead = lookahead >= minMatch
+        ? this.#insert(this.#strStart)
+        : -1;
+
+      if (!lazy) {
+        let length = 0;
+        if (chainHead >= 0 && this.#strStart - chainHead <= maxDist) {
+          length = this.#longestMatch(chainHead, minMatch - 1);
+          if (
+            length === minMatch && this.#strStart - this.#matchStart > tooFar
+          ) {
+            length = 0;
+          }
+        }
+        if (length >= minMatch) {
+          this.#tally(length, this.#strStart - this.#matchStart);
+          const maxInsert = this.#windowEnd - minMatch;
+          for (let i = 1; i < length; i++) {
+            if (this.#strStart + i <= maxInsert) {
+              this.#insert(this.#strStart + i);
+            }
+          }
+          this.#strStart += length;
+        } else {
+          this.#tally(this.#window[this.#strStart], 0);
+          this.#strStart++;
+        }
+        if (this.#symbols >= symbolBufferSize) this.#flushBlock(false);
+        continue;
+      }
+
+      const prevLength = this.#matchLength;
+      const prevStart = this.#matchStart;
+      this.#matchLength = minMatch - 1;
+      if (
+        chainHead >= 0 && prevLength < this.#config.lazy &&
+        this.#strStart - chainHead <= maxDist
+      ) {
+        this.#matchLength = this.#longestMatch(chainHead, prevLength);
+        if (
+          this.#matchLength === minMatch &&
+          this.#strStart - this.#matchStart > tooFar
+        ) {
+          this.#matchLength = minMatch - 1;
+        }
+      }
+
+      if (prevLength >= minMatch && this.#matchLength <= prevLength) {
+        // the match at the previous position is better: emit it
+        this.#tally(prevLength, this.#strStart - 1 - prevStart);
+        const maxInsert = this.#windowEnd - minMatch;
+        for (let i = 1; i < prevLength - 1; i++) {
+          if (this.#strStart + i <= maxInsert) {
+            this.#insert(this.#strStart + i);
+          }
+        }
+        this.#strStart += prevLength - 1;
+        this.#matchAvailable = false;
+        this.#matchLength = minMatch - 1;
+      } else if (this.#matchAvailable) {
+        this.#tally(this.#window[this.#strStart - 1], 0);
+        this.#strStart++;
+      } else {
+        this.#matchAvailable = true;
+        this.#strStart++;
+      }
+      if (this.#symbols >= symbolBufferSize) this.#flushBlock(false);
+    }
+    if (flush && this.#matchAvailable) {
+      this.#tally(this.#window[this.#strStart - 1], 0);
+      this.#matchAvailable = false;
+      this.#matchLength = minMatch - 1;
+    }
+  }
+
+  /** Record a literal (`distance` is 0) or a match */
+  #tally(litOrLength: number, distance: number) {
+    this.#lits[this.#symbols] = litOrLength;
+    this.#dists[this.#symbols] = distance;
+    this.#symbols++;
+    if (distance === 0) {
+      this.#litLenFreq[litOrLength]++;
+    } else {
+      this.#litLenFreq[257 + lengthCode[litOrLength]]++;
+      this.#distFreq[distanceCode(distance)]++;
+    }
+  }
+
+  /** Move the second half of the window to the first half */
+  #slide() {
+    // the stored block alternative needs the data of the whole block
+    this.#flushBlock(false);
+    this.#window.copyWithin(0, windowSize, this.#windowEnd);
+    this.#windowEnd -= windowSize;
+    this.#strStart -= windowSize;
+    this.#blockStart -= windowSize;
+    this.#matchStart -= windowSize;
+    for (const table of [this.#head, this.#prev]) {
+      for (let i = 0; i < table.length; i++) {
+        table[i] = table[i] >= windowSize ? table[i] - windowSize : -1;
+      }
+    }
+  }
+
+  /** Emit the buffered symbols as a stored, fixed or dynamic block */
+  #flushBlock(final: boolean) {
+    // data covered by the buffered symbols
+    const blockEnd = this.#strStart - (this.#matchAvailable ? 1 : 0);
+    const stored = this.#window.subarray(this.#blockStart, blockEnd);
+    this.#blockStart = blockEnd;
+    if (stored.length === 0 && !final) return;
+
+    this.#litLenFreq[endOfBlock]++;
+    const litLenFreq = this.#litLenFreq;
+    const distFreq = this.#distFreq;
+    const litLenLengths = buildCodeLengths(withTwoCodes(litLenFreq), 15);
+    const distLengths = buildCodeLengths(withTwoCodes(distFreq), 15);
+
+    let hlit = 286;
+    while (hlit > 257 && litLenLengths[hlit - 1] === 0) hlit--;
+    let hdist = 30;
+    while (hdist > 1 && distLengths[hdist - 1] === 0) hdist--;
+    const codeLengthSymbols = encodeCodeLengths(
+      litLenLengths.subarray(0, hlit),
+      distLengths.subarray(0, hdist),
+    );
+    const codeLengthFreq = new Uint32Array(19);
+    for (const [symbol] of codeLengthSymbols) codeLengthFreq[symbol]++;
+    const codeLengthLengths = buildCodeLengths(codeLengthFreq, 7);
+    let hclen = 19;
+    while (hclen > 4 && codeLengthLengths[codeLengthOrder[hclen - 1]] === 0) {
+      hclen--;
+    }
+
+    // sizes in bits of the alternatives
+    let extraBits = 0;
+    for (let code = 0; code < lengthExtra.length; code++) {
+      extraBits += litLenFreq[257 + code] * lengthExtra[code];
+    }
+    for (let code = 0; code < distExtra.length; code++) {
+      extraBits += distFreq[code] * distExtra[code];
+    }
+    let dynamicBits = 3 + 5 + 5 + 4 + hclen * 3 + extraBits;
+    for (const [symbol] of codeLengthSymbols) {
+      dynamicBits += codeLengthLengths[symbol] +
+        (symbol === 16 ? 2 : symbol === 17 ? 3 : symbol === 18 ? 7 : 0);
+    }
+    let fixedBits = 3 + extraBits;
+    for (let i = 0; i < 286; i++) {
+      dynamicBits += litLenFreq[i] * litLenLengths[i];
+      fixedBits += litLenFreq[i] * fixedLitLenLengths[i];
+    }
+    for (let i = 0; i < 30; i++) {
+      dynamicBits += distFreq[i] * distLengths[i];
+      fixedBits += distFreq[i] * fixedDistLengths[i];
+    }
+    const storedBits = stored.length * 8 +
+      Math.ceil(stored.length / maxStoredBlock || 1) * (3 + 7 + 32);
+
+    if (
+      this.#config.chain === 0 ||
+      (storedBits <= fixedBits && storedBits <= dynamicBits)
+    ) {
+      this.#writeStored(stored, final);
+    } else if (fixedBits <= dynamicBits) {
+      this.#writeBits(final ? 3 : 2, 3);
+      this.#writeSymbols(
+        fixedLitLenCodes,
+        fixedLitLenLengths,
+        fixedDistCodes,
+        fixedDistLengths,
+      );
+    } else {
+      this.#writeBits(final ? 5 : 4, 3);
+      this.#writeBits(hlit - 257, 5);
+      this.#writeBits(hdist - 1, 5);
+      this.#writeBits(hclen - 4, 4);
+      for (let i = 0; i < hclen; i++) {
+        this.#writeBits(codeLengthLengths[codeLengthOrder[i]], 3);
+      }
+      const codeLengthCodes = canonicalCodes(codeLengthLengths);
+      for (const [symbol, extra] of codeLengthSymbols) {
+        this.#writeBits(codeLengthCodes[symbol], codeLengthLengths[symbol]);
+        if (symbol === 16) this.#writeBits(extra, 2);
+        else if (symbol === 17) this.#writeBits(extra, 3);
+        else if (symbol === 18) this.#writeBits(extra, 7);
+      }
+      this.#writeSymbols(
+        canonicalCodes(litLenLengths),
+        litLenLengths,
+        canonicalCodes(distLengths),
+        distLengths,
+      );
+    }
+
+    this.#symbols = 0;
+    this.#litLenFreq.fill(0);
+    this.#distFreq.fill(0);
+  }
+
+  #writeStored(data: Uint8Array, final: boolean) {
+    let offset = 0;
+    do {
+      const length = Math.min(data.length - offset, maxStoredBlock);
+      const last = offset + length === data.length;
+      this.#writeBits(final && last ? 1 : 0, 3);
+      this.#alignToByte();
+      this.#writeBits(length, 16);
+      this.#writeBits(length ^ 0xffff, 16);
+      for (let i = 0; i < length; i++) this.#writeByte(data[offset + i]);
+      offset += length;
+    } while (offset < data.length);
+  }
+
+  #writeSymbols(
+    litLenCodes: Uint16Array,
+    litLenLengths: Uint8Array,
+    distCodes: Uint16Array,
+    distLengths: Uint8Array,
+  ) {
+    for (let i = 0; i < this.#symbols; i++) {
+      const lit = this.#lits[i];
+      const distance = this.#dists[i];
+      if (distance === 0) {
+        this.#writeBits(litLenCodes[lit], litLenLengths[lit]);
+        continue;
+      }
+      const code = lengthCode[lit];
+      this.#writeBits(litLenCodes[257 + code], litLenLengths[257 + code]);
+      this.#writeBits(lit - lengthBase[code], lengthExtra[code]);
+      const dcode = distanceCode(distance);
+      this.#writeBits(distCodes[dcode], distLengths[dcode]);
+      this.#writeBits(distance - distBase[dcode], distExtra[dcode]);
+    }
+    this.#writeBits(litLenCodes[endOfBlock], litLenLengths[endOfBlock]);
+  }
+
+  #writeBits(value: number, length: number) {
+    this.#bitBuf |= value << this.#bitCount;
+    this.#bitCount += length;
+    while (this.#bitCount >= 8) {
+      this.#writeByte(this.#bitBuf & 0xff);
+      this.#bitBuf >>>= 8;
+      this.#bitCount -= 8;
+    }
+  }
+
+  #alignToByte() {
+    if (this.#bitCount > 0) this.#writeBits(0, 8 - this.#bitCount);
+  }
+
+  #writeByte(byte: number) {
+    if (this.#outPos === this.#out.length) {
+      this.#chunks.push(this.#out);
+      this.#out = new Uint8Array(this.#out.length);
+      this.#outPos = 0;
+    }
+    this.#out[this.#outPos++] = byte;
+  }
+
+  #take(): Uint8Array {
+    const chunks = this.#chunks;
+    chunks.push(this.#out.subarray(0, this.#outPos));
+    this.#chunks = [];
+    this.#out = new Uint8Array(this.#out.length);
+    this.#outPos = 0;
+    const length = chunks.reduce((sum, c) => sum + c.length, 0);
+    const result = new Uint8Array(length);
+    let offset = 0;
+    for (const c of chunks) {
+      result.set(c, offset);
+      offset += c.length;
+    }
+    return result;
+  }
+}
+
+/**
+ * Copy of the frequencies with at least two used symbols, as some decoders
+ * reject a code with a single codeword
+ */
+function withTwoCodes(freqs: Uint32Array): Uint32Array {
+  const result = freqs.slice();
+  let used = result.reduce((n, f) => n + (f > 0 ? 1 : 0), 0);
+  for (let i = 0; used < 2; i++) {
+    if (result[i] === 0) {
+      result[i] = 1;
+      used++;
+    }
+  }
+  return result;
+}
+
+/**
+ * Run length encode the code lengths of a dynamic block with the code length
+ * symbols 16 (repeat the previous length), 17 and 18 (repeat zero).
+ * Returns `[symbol, extra bits value]` pairs.
+ */
+function encodeCodeLengths(
+  litLenLengths: Uint8Array,
+  distLengths: Uint8Array,
+): Array<[number, number]> {
+  const lengths = new Uint8Array(litLenLengths.length + distLengths.length);
+  lengths.set(litLenLengths);
+  lengths.set(distLengths, litLenLengths.length);
+  const symbols: Array<[number, number]> = [];
+  let i = 0;
+  while (i < lengths.length) {
+    const length = lengths[i];
+    let run = 1;
+    while (i + run < lengths.length && lengths[i + run] === length) run++;
+    if (length === 0 && run >= 3) {
+      const n = Math.min(run, 138);
+      symbols.push(n >= 11 ? [18, n - 11] : [17, n - 3]);
+      i += n;
+    } else if (length !== 0 && run >= 4) {
+      symbols.push([length, 0]);
+      const n = Math.min(run - 1, 6);
+      symbols.push([16, n - 3]);
+      i += n + 1;
+    } else {
+      symbols.push([length, 0]);
+      i++;
+    }
+  }
+  return symbols;
+}
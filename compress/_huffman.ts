@@ -0,0 +1,313 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+// Tables and Huffman coding helpers shared by the DEFLATE encoder and decoder.
+// https://datatracker.ietf.org/doc/html/rfc1951
+
+/** Base lengths of the length symbols 257..285 */
+export const lengthBase = [
+  3,
+  4,
+  5,
+  6,
+  7,
+  8,
+  9,
+  10,
+  11,
+  13,
+  15,
+  17,
+  19,
+  23,
+  27,
+  31,
+  35,
+  43,
+  51,
+  59,
+  67,
+  83,
+  99,
+  115,
+  131,
+  163,
+  195,
+  227,
+  258,
+];
+/** Number of extra bits of the length symbols 257..285 */
+export const lengthExtra = [
+  0,
+  0,
+  0,
+  0,
+  0,
+  0,
+  0,
+  0,
+  1,
+  1,
+  1,
+  1,
+  2,
+  2,
+  2,
+  2,
+  3,
+  3,
+  3,
+  3,
+  4,
+  4,
+  4,
+  4,
+  5,
+  5,
+  5,
+  5,
+  0,
+];
+/** Base distances of the distance symbols 0..29 */
+export const distBase = [
+  1,
+  2,
+  3,
+  4,
+  5,
+  7,
+  9,
+  13,
+  17,
+  25,
+  33,
+  49,
+  65,
+  97,
+  129,
+  193,
+  257,
+  385,
+  513,
+  769,
+  1025,
+  1537,
+  2049,
+  3073,
+  4097,
+  6145,
+  8193,
+  12289,
+  16385,
+  24577,
+];
+/** Number of extra bits of the distance symbols 0..29 */
+export const distExtra = [
+  0,
+  0,
+  0,
+  0,
+  1,
+  1,
+  2,
+  2,
+  3,
+  3,
+  4,
+  4,
+  5,
+  5,
+  6,
+  6,
+  7,
+  7,
+  8,
+  8,
+  9,
+  9,
+  10,
+  10,
+  11,
+  11,
+  12,
+  12,
+  13,
+  13,
+];
+/** Order in which the code length code lengths are stored */
+export const codeLengthOrder = [
+  16,
+  17,
+  18,
+  0,
+  8,
+  7,
+  9,
+  6,
+  10,
+  5,
+  11,
+  4,
+  12,
+  3,
+  13,
+  2,
+  14,
+  1,
+  15,
+];
+
+export const windowSize = 32768;
+export const endOfBlock = 256;
+export const maxMatch = 258;
+export const minMatch = 3;
+
+/** Code lengths of the fixed literal/length code */
+export const fixedLitLenLengths = new Uint8Array(288);
+fixedLitLenLengths.fill(8, 0, 144);
+fixedLitLenLengths.fill(9, 144, 256);
+fixedLitLenLengths.fill(7, 256, 280);
+fixedLitLenLengths.fill(8, 280, 288);
+/** Code lengths of the fixed distance code */
+export const fixedDistLengths = new Uint8Array(30).fill(5);
+
+function reverseBits(code: number, length: number): number {
+  let reversed = 0;
+  for (let i = 0; i < length; i++) {
+    reversed = (reversed << 1) | (code & 1);
+    code >>>= 1;
+  }
+  return reversed;
+}
+
+/**
+ * Assign the canonical Huffman codes for the code `lengths`. The codes are
+ * bit reversed, as DEFLATE packs them starting from the most significant bit.
+ */
+export function canonicalCodes(lengths: Uint8Array): Uint16Array {
+  const count = new Uint16Array(16);
+  for (const length of lengths) count[length]++;
+  count[0] = 0;
+  const next = new Uint16Array(16);
+  let code = 0;
+  for (let bits = 1; bits < 16; bits++) {
+    code = (code + count[bits - 1]) << 1;
+    next[bits] = code;
+  }
+  const codes = new Uint16Array(lengths.length);
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    const length = lengths[symbol];
+    if (length !== 0) {
+      codes[symbol] = reverseBits(next[length]++, length);
+    }
+  }
+  return codes;
+}
+
+/**
+ * Compute Huffman code lengths, limited to `maxBits`, for the symbol
+ * frequencies `freqs`. Symbols with a zero frequency get no code.
+ */
+export function buildCodeLengths(
+  freqs: ArrayLike<number>,
+  maxBits: number,
+): Uint8Array {
+  const lengths = new Uint8Array(freqs.length);
+  const symbols: number[] = [];
+  for (let i = 0; i < freqs.length; i++) {
+    if (freqs[i] > 0) symbols.push(i);
+  }
+  const n = symbols.length;
+  if (n === 0) return lengths;
+  if (n === 1) {
+    lengths[symbols[0]] = 1;
+    return lengths;
+  }
+  symbols.sort((a, b) => freqs[a] - freqs[b] || a - b);
+
+  // Build the tree with two queues: the sorted leaves, and the internal
+  // nodes which are created in non decreasing weight order.
+  const weight = new Float64Array(2 * n - 1);
+  const parent = new Int32Array(2 * n - 1);
+  for (let i = 0; i < n; i++) weight[i] = freqs[symbols[i]];
+  let leaf = 0;
+  let internal = n;
+  const pick = (next: number): number =>
+    leaf < n && (internal >= next || weight[leaf] <= weight[internal])
+      ? leaf++
+      : internal++;
+  for (let next = n; next < 2 * n - 1; next++) {
+    const a = pick(next);
+    const b = pick(next);
+    weight[next] = weight[a] + weight[b];
+    parent[a] = parent[b] = next;
+  }
+  const depth = new Uint16Array(2 * n - 1);
+  const count = new Uint16Array(Math.max(maxBits, n) + 1);
+  for (let i = 2 * n - 3; i >= 0; i--) {
+    depth[i] = depth[parent[i]] + 1;
+    if (i < n) count[Math.min(depth[i], maxBits)]++;
+  }
+
+  // Lengthen the shorter codes until the (clamped) code is complete again
+  let total = 0;
+  for (let bits = 1; bits <= maxBits; bits++) {
+    total += count[bits] << (maxBits - bits);
+  }
+  while (total > 1 << maxBits) {
+    count[maxBits]--;
+    for (let bits = maxBits - 1; bits > 0; bits--) {
+      if (count[bits] !== 0) {
+        count[bits]--;
+        count[bits + 1] += 2;
+        break;
+      }
+    }
+    total--;
+  }
+
+  // The least frequent symbols get the longest codes
+  let i = 0;
+  for (let bits = maxBits; bits > 0; bits--) {
+    for (let c = count[bits]; c > 0; c--) {
+      lengths[symbols[i++]] = bits;
+    }
+  }
+  return lengths;
+}
+
+/** Lookup table decoding `bits` bits at once */
+export interface DecodeTable {
+  /** `symbol << 4 | length` indexed by the next `bits` input bits, or `0` */
+  table: Uint16Array;
+  bits: number;
+}
+
+/**
+ * Build the decoding table of a canonical Huffman code given by its code
+ * `lengths`. Returns `undefined` if the code is over-subscribed.
+ */
+export function buildDecodeTable(
+  lengths: Uint8Array,
+): DecodeTable | undefined {
+  let bits = 0;
+  const count = new Uint16Array(16);
+  for (const length of lengths) {
+    count[length]++;
+    if (length > bits) bits = length;
+  }
+  let left = 1;
+  for (let length = 1; length < 16; length++) {
+    left = (left << 1) - count[length];
+    if (left < 0) return undefined;
+  }
+  const table = new Uint16Array(1 << bits);
+  const codes = canonicalCodes(lengths);
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    const length = lengths[symbol];
+    if (length === 0) continue;
+    const entry = (symbol << 4) | length;
+    for (let i = codes[symbol]; i < table.length; i += 1 << length) {
+      table[i] = entry;
+    }
+  }
+  return { table, bits };
+}
@@ -0,0 +1,342 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+// DEFLATE decoder: https://datatracker.ietf.org/doc/html/rfc1951
+import {
+  buildDecodeTable,
+  codeLengthOrder,
+  DecodeTable,
+  distBase,
+  distExtra,
+  endOfBlock,
+  fixedDistLengths,
+  fixedLitLenLengths,
+  lengthBase,
+  lengthExtra,
+  maxMatch,
+  windowSize,
+} from "./_huffman.ts";
+
+/** Error thrown when the compressed data is invalid or truncated */
+export class DecompressionError extends Error {
+  name = "DecompressionError";
+}
+
+// Thrown internally when the input ends in the middle of a symbol
+const needInput = Symbol("needInput");
+
+enum State {
+  BlockHeader,
+  Stored,
+  Codes,
+  Done,
+}
+
+const fixedLitLen = buildDecodeTable(fixedLitLenLengths)!;
+const fixedDist = buildDecodeTable(fixedDistLengths)!;
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  if (a.length === 0) return b;
+  if (b.length === 0) return a;
+  const c = new Uint8Array(a.length + b.length);
+  c.set(a);
+  c.set(b, a.length);
+  return c;
+}
+
+/**
+ * Incremental decoder of a raw DEFLATE stream. Compressed data is pushed in
+ * chunks of any size and the decompressed data available so far is returned.
+ */
+export class RawInflater {
+  #input = new Uint8Array(0);
+  #pos = 0;
+  #bitBuf = 0;
+  #bitCount = 0;
+  // restore point at the start of the current symbol or block header
+  #savedPos = 0;
+  #savedBitBuf = 0;
+  #savedBitCount = 0;
+
+  #state = State.BlockHeader;
+  #final = false;
+  #storedLeft = 0;
+  #litLen: DecodeTable = fixedLitLen;
+  #dist: DecodeTable = fixedDist;
+
+  // output, of which the last `windowSize` bytes are kept for back references
+  #out = new Uint8Array(windowSize * 4);
+  #outPos = 0;
+  #flushed = 0;
+  #chunks: Uint8Array[] = [];
+
+  /** Whether the end of the last block was decoded */
+  get finished(): boolean {
+    return this.#state === State.Done;
+  }
+
+  /**
+   * Decode the `chunk` and return the data decompressed so far. Once
+   * `finished`, pushed data is not decoded but kept as `remaining()`.
+   */
+  push(chunk: Uint8Array): Uint8Array {
+    this.#input = concat(this.#input.subarray(this.#pos), chunk);
+    this.#pos = 0;
+    this.#savedPos = 0;
+    try {
+      this.#run();
+    } catch (err) {
+      if (err !== needInput) throw err;
+      this.#pos = this.#savedPos;
+      this.#bitBuf = this.#savedBitBuf;
+      this.#bitCount = this.#savedBitCount;
+    }
+    return this.#take();
+  }
+
+  /** Input left after the end of the DEFLATE stream */
+  remaining(): Uint8Array {
+    return this.#input.subarray(this.#pos - (this.#bitCount >> 3));
+  }
+
+  #save() {
+    this.#savedPos = this.#pos;
+    this.#savedBitBuf = this.#bitBuf;
+    this.#savedBitCount = this.#bitCount;
+  }
+
+  /** Try to have `n` (<= 24) bits in the bit buffer */
+  #fill(n: number): boolean {
+    while (this.#bitCount < n) {
+      if (this.#pos >= this.#input.length) return false;
+      this.#bitBuf |= this.#input[this.#pos++] << this.#bitCount;
+      this.#bitCount += 8;
+    }
+    return true;
+  }
+
+  #bits(n: number): number {
+    if (n === 0) return 0;
+    if (!this.#fill(n)) throw needInput;
+    const value = this.#bitBuf & ((1 << n) - 1);
+    this.#bitBuf >>>= n;
+    this.#bitCount -= n;
+    return value;
+  }
+
+  #decode(code: DecodeTable): number {
+    // The input may end with fewer bits than the longest code
+    this.#fill(code.bits);
+    const entry = code.table[this.#bitBuf & ((1 << code.bits) - 1)];
+    const length = entry & 15;
+    if (entry === 0) {
+      if (this.#bitCount < code.bits) throw needInput;
+      throw new DecompressionError("invalid Huffman code");
+    }
+    if (length > this.#bitCount) throw needInput;
+    this.#bitBuf >>>= length;
+    this.#bitCount -= length;
+    return entry >> 4;
+  }
+
+  #run() {
+    while (true) {
+      switch (this.#state) {
+        case State.BlockHeader:
+          this.#save();
+          this.#blockHeader();
+          break;
+        case State.Stored:
+          this.#stored();
+          break;
+        case State.Codes:
+          this.#codes();
+          break;
+        case State.Done:
+          return;
+      }
+    }
+  }
+
+  #blockHeader() {
+    const header = this.#bits(3);
+    const final = (header & 1) === 1;
+    switch (header >> 1) {
+      case 0: {
+        // skip to the byte boundary
+        this.#bits(this.#bitCount & 7);
+        const length = this.#bits(16);
+        const nlength = this.#bits(16);
+        if ((length ^ 0xffff) !== nlength) {
+          throw new DecompressionError("invalid stored block length");
+        }
+        this.#storedLeft = length;
+        this.#state = State.Stored;
+        break;
+      }
+      case 1:
+        this.#litLen = fixedLitLen;
+        this.#dist = fixedDist;
+        this.#state = State.Codes;
+        break;
+      case 2:
+        this.#dynamicHeader();
+        this.#state = State.Codes;
+        break;
+      default:
+        throw new DecompressionError("invalid block type");
+    }
+    this.#final = final;
+  }
+
+  #dynamicHeader() {
+    const hlit = this.#bits(5) + 257;
+    const hdist = this.#bits(5) + 1;
+    const hclen = this.#bits(4) + 4;
+    if (hlit > 286 || hdist > 30) {
+      throw new DecompressionError("invalid dynamic block header");
+    }
+    const codeLengthLengths = new Uint8Array(19);
+    for (let i = 0; i < hclen; i++) {
+      codeLengthLengths[codeLengthOrder[i]] = this.#bits(3);
+    }
+    const codeLengthCode = buildDecodeTable(codeLengthLengths);
+    if (!codeLengthCode) {
+      throw new DecompressionError("invalid code length code");
+    }
+    const lengths = new Uint8Array(hlit + hdist);
+    let i = 0;
+    while (i < lengths.length) {
+      const symbol = this.#decode(codeLengthCode);
+      if (symbol < 16) {
+        lengths[i++] = symbol;
+        continue;
+      }
+      let repeat: number;
+      let value = 0;
+      if (symbol === 16) {
+        if (i === 0) {
+          throw new DecompressionError("invalid code length repeat");
+        }
+        value = lengths[i - 1];
+        repeat = 3 + this.#bits(2);
+      } else if (symbol === 17) {
+        repeat = 3 + this.#bits(3);
+      } else {
+        repeat = 11 + this.#bits(7);
+      }
+      if (i + repeat > lengths.length) {
+        throw new DecompressionError("invalid code length repeat");
+      }
+      lengths.fill(value, i, i + repeat);
+      i += repeat;
+    }
+    if (lengths[endOfBlock] === 0) {
+      throw new DecompressionError("missing end of block code");
+    }
+    const litLen = buildDecodeTable(lengths.subarray(0, hlit));
+    const dist = buildDecodeTable(lengths.subarray(hlit));
+    if (!litLen || !dist) {
+      throw new DecompressionError("invalid Huffman code lengths");
+    }
+    this.#litLen = litLen;
+    this.#dist = dist;
+  }
+
+  #stored() {
+    // bytes left in the bit buffer after the block header come first
+    while (this.#storedLeft > 0 && this.#bitCount >= 8) {
+      this.#ensureSpace(1);
+      this.#out[this.#outPos++] = this.#bits(8);
+      this.#storedLeft--;
+    }
+    while (this.#storedLeft > 0) {
+      const available = this.#input.length - this.#pos;
+      if (available === 0) {
+        this.#save();
+        throw needInput;
+      }
+      this.#ensureSpace(1);
+      const n = Math.min(
+        this.#storedLeft,
+        available,
+        this.#out.length - this.#outPos,
+      );
+      this.#out.set(
+        this.#input.subarray(this.#pos, this.#pos + n),
+        this.#outPos,
+      );
+      this.#pos += n;
+      this.#outPos += n;
+      this.#storedLeft -= n;
+    }
+    this.#endBlock();
+  }
+
+  #codes() {
+    while (true) {
+      this.#save();
+      const symbol = this.#decode(this.#litLen);
+      if (symbol < 256) {
+        this.#ensureSpace(1);
+        this.#out[this.#outPos++] = symbol;
+        continue;
+      }
+      if (symbol === endOfBlock) {
+        this.#endBlock();
+        return;
+      }
+      const lengthSymbol = symbol - 257;
+      if (lengthSymbol >= lengthBase.length) {
+        throw new DecompressionError("invalid length code");
+      }
+      const length = lengthBase[lengthSymbol] +
+        this.#bits(lengthExtra[lengthSymbol]);
+      const distSymbol = this.#decode(this.#dist);
+      if (distSymbol >= distBase.length) {
+        throw new DecompressionError("invalid distance code");
+      }
+      const distance = distBase[distSymbol] +
+        this.#bits(distExtra[distSymbol]);
+      this.#ensureSpace(maxMatch);
+      let from = this.#outPos - distance;
+      if (from < 0) {
+        throw new DecompressionError("invalid distance too far back");
+      }
+      const buf = this.#out;
+      const end = this.#outPos + length;
+      while (this.#outPos < end) {
+        buf[this.#outPos++] = buf[from++];
+      }
+    }
+  }
+
+  #endBlock() {
+    this.#state = this.#final ? State.Done : State.BlockHeader;
+  }
+
+  /** Make room for `n` more bytes of output, keeping the window */
+  #ensureSpace(n: number) {
+    if (this.#outPos + n <= this.#out.length) return;
+    this.#chunks.push(this.#out.slice(this.#flushed, this.#outPos));
+    this.#out.copyWithin(0, this.#outPos - windowSize, this.#outPos);
+    this.#outPos = windowSize;
+    this.#flushed = windowSize;
+  }
+
+  #take(): Uint8Array {
+    if (this.#outPos > this.#flushed) {
+      this.#chunks.push(this.#out.slice(this.#flushed, this.#outPos));
+      this.#flushed = this.#outPos;
+    }
+    const chunks = this.#chunks;
+    this.#chunks = [];
+    if (chunks.length === 1) return chunks[0];
+    const length = chunks.reduce((sum, c) => sum + c.length, 0);
+    const result = new Uint8Array(length);
+    let offset = 0;
+    for (const c of chunks) {
+      result.set(c, offset);
+      offset += c.length;
+    }
+    return result;
+  }
+}
@@ -0,0 +1,385 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { RawDeflater } from "./_deflate.ts";
+import { DecompressionError, RawInflater } from "./_inflate.ts";
+import { adler32, crc32 } from "./_checksum.ts";
+
+export { DecompressionError };
+
+/**
+ * The framing of the compressed data, named like the formats of the Web
+ * `CompressionStream`:
+ * - `"gzip"`: gzip file format (RFC 1952)
+ * - `"deflate"`: zlib format (RFC 1950)
+ * - `"deflate-raw"`: raw DEFLATE data (RFC 1951) without header or trailer
+ */
+export type CompressionFormat = "gzip" | "deflate" | "deflate-raw";
+
+export interface CompressOptions {
+  /** Default is `"gzip"` */
+  format?: CompressionFormat;
+  /**
+   * Compression level from `0` (no compression) to `9` (best compression).
+   * Default is `6`
+   */
+  level?: number;
+}
+
+export interface DecompressOptions {
+  /** Default is `"gzip"` */
+  format?: CompressionFormat;
+}
+
+const gzipId1 = 0x1f;
+const gzipId2 = 0x8b;
+const deflateMethod = 8;
+// gzip header flags
+const fhcrc = 2;
+const fextra = 4;
+const fname = 8;
+const fcomment = 16;
+
+function concat(...chunks: Uint8Array[]): Uint8Array {
+  const length = chunks.reduce((sum, c) => sum + c.length, 0);
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const c of chunks) {
+    result.set(c, offset);
+    offset += c.length;
+  }
+  return result;
+}
+
+/**
+ * Incremental compressor. Uncompressed data is pushed in chunks and the
+ * compressed data available so far is returned.
+ *
+ *       const compressor = new Compressor({ format: "gzip", level: 9 });
+ *       const a = compressor.push(new TextEncoder().encode("hello "));
+ *       const b = compressor.push(new TextEncoder().encode("world"));
+ *       const c = compressor.finish();
+ */
+export class Compressor {
+  #format: CompressionFormat;
+  #level: number;
+  #deflater: RawDeflater;
+  #headerWritten = false;
+  #crc = 0;
+  #adler = 1;
+  #size = 0;
+
+  constructor({ format = "gzip", level = 6 }: CompressOptions = {}) {
+    if (!["gzip", "deflate", "deflate-raw"].includes(format)) {
+      throw new TypeError(`unsupported compression format: ${format}`);
+    }
+    this.#format = format;
+    this.#level = level;
+    this.#deflater = new RawDeflater({ level });
+  }
+
+  /** Compress `chunk`, returning the compressed data available so far */
+  push(chunk: Uint8Array): Uint8Array {
+    this.#update(chunk);
+    return this.#withHeader(this.#deflater.push(chunk));
+  }
+
+  /**
+   * Return all the data compressed so far, so that the receiver can
+   * decompress everything pushed until now. Flushing too often degrades the
+   * compression.
+   */
+  flush(): Uint8Array {
+    return this.#withHeader(this.#deflater.flush());
+  }
+
+  /** End the compressed stream, returning the remaining data and trailer */
+  finish(): Uint8Array {
+    const data = this.#withHeader(this.#deflater.finish());
+    const trailer = new Uint8Array(this.#format === "gzip" ? 8 : 4);
+    const view = new DataView(trailer.buffer);
+    switch (this.#format) {
+      case "gzip":
+        view.setUint32(0, this.#crc, true);
+        view.setUint32(4, this.#size, true);
+        break;
+      case "deflate":
+        view.setUint32(0, this.#adler);
+        break;
+      case "deflate-raw":
+        return data;
+    }
+    return concat(data, trailer);
+  }
+
+  #update(chunk: Uint8Array) {
+    switch (this.#format) {
+      case "gzip":
+        this.#crc = crc32(chunk, this.#crc);
+        this.#size = (this.#size + chunk.length) >>> 0;
+        break;
+      case "deflate":
+        this.#adler = adler32(chunk, this.#adler);
+        break;
+    }
+  }
+
+  #withHeader(data: Uint8Array): Uint8Array {
+    if (this.#headerWritten) return data;
+    this.#headerWritten = true;
+    let header: Uint8Array;
+    switch (this.#format) {
+      case "gzip": {
+        // no flags, no mtime, unknown OS
+        header = new Uint8Array(10);
+        header.set([gzipId1, gzipId2, deflateMethod]);
+        header[8] = this.#level === 9 ? 2 : this.#level === 1 ? 4 : 0;
+        header[9] = 255;
+        break;
+      }
+      case "deflate": {
+        // 32K window
+        const cmf = 0x78;
+        const level = this.#level < 2
+          ? 0
+          : this.#level < 6
+          ? 1
+          : this.#level === 6
+          ? 2
+          : 3;
+        let flg = level << 6;
+        flg += 31 - ((cmf * 256 + flg) % 31);
+        header = Uint8Array.of(cmf, flg);
+        break;
+      }
+      default:
+        return data;
+    }
+    return concat(header, data);
+  }
+}
+
+enum State {
+  Header,
+  Body,
+  Trailer,
+  Done,
+}
+
+/**
+ * Parse a gzip member header, returning its length or `undefined` if `buf`
+ * doesn't contain the whole header yet.
+ */
+function parseGzipHeader(buf: Uint8Array): number | undefined {
+  if (buf.length < 10) return undefined;
+  if (buf[0] !== gzipId1 || buf[1] !== gzipId2) {
+    throw new DecompressionError("invalid gzip header");
+  }
+  if (buf[2] !== deflateMethod) {
+    throw new DecompressionError(`unsupported compression method: ${buf[2]}`);
+  }
+  const flags = buf[3];
+  let offset = 10;
+  if (flags & fextra) {
+    if (buf.length < offset + 2) return undefined;
+    offset += 2 + (buf[offset] | (buf[offset + 1] << 8));
+  }
+  for (const flag of [fname, fcomment]) {
+    if (flags & flag) {
+      // zero terminated string
+      const end = buf.indexOf(0, offset);
+      if (end < 0) return undefined;
+      offset = end + 1;
+    }
+  }
+  if (flags & fhcrc) {
+    offset += 2;
+  }
+  return buf.length < offset ? undefined : offset;
+}
+
+function parseZlibHeader(buf: Uint8Array): number | undefined {
+  if (buf.length < 2) return undefined;
+  const [cmf, flg] = buf;
+  if ((cmf & 15) !== deflateMethod || cmf >> 4 > 7) {
+    throw new DecompressionError("invalid zlib header");
+  }
+  if ((cmf * 256 + flg) % 31 !== 0) {
+    throw new DecompressionError("invalid zlib header check");
+  }
+  if (flg & 0x20) {
+    throw new DecompressionError("zlib preset dictionary is not supported");
+  }
+  return 2;
+}
+
+/**
+ * Incremental decompressor. Compressed data is pushed in chunks and the
+ * decompressed data available so far is returned. Checksum and size
+ * trailer mismatches are reported with a `DecompressionError`.
+ * Concatenated gzip members are decompressed as a single stream, and zero
+ * bytes after the last one are ignored.
+ *
+ *       const decompressor = new Decompressor({ format: "gzip" });
+ *       const data = decompressor.push(compressed);
+ *       decompressor.finish();
+ */
+export class Decompressor {
+  #format: CompressionFormat;
+  #state = State.Header;
+  #buf = new Uint8Array(0);
+  #inflater = new RawInflater();
+  #crc = 0;
+  #adler = 1;
+  #size = 0;
+  #padded = false;
+
+  constructor({ format = "gzip" }: DecompressOptions = {}) {
+    if (!["gzip", "deflate", "deflate-raw"].includes(format)) {
+      throw new TypeError(`unsupported compression format: ${format}`);
+    }
+    this.#format = format;
+    if (format === "deflate-raw") this.#state = State.Body;
+  }
+
+  /** Whether the end of the compressed stream was reached */
+  get finished(): boolean {
+    return this.#state === State.Done;
+  }
+
+  /** Decompress `chunk`, returning the decompressed data available so far */
+  push(chunk: Uint8Array): Uint8Array {
+    const output: Uint8Array[] = [];
+    let input = chunk;
+    while (input.length > 0) {
+      switch (this.#state) {
+        case State.Header: {
+          this.#buf = concat(this.#buf, input);
+          input = new Uint8Array(0);
+          const length = this.#format === "gzip"
+            ? parseGzipHeader(this.#buf)
+            : parseZlibHeader(this.#buf);
+          if (length === undefined) break;
+          input = this.#buf.subarray(length);
+          this.#buf = new Uint8Array(0);
+          this.#state = State.Body;
+          break;
+        }
+        case State.Body: {
+          const data = this.#inflater.push(input);
+          input = new Uint8Array(0);
+          if (data.length > 0) {
+            this.#update(data);
+            output.push(data);
+          }
+          if (this.#inflater.finished) {
+            input = this.#inflater.remaining();
+            this.#state = this.#format === "deflate-raw"
+              ? State.Done
+              : State.Trailer;
+          }
+          break;
+        }
+        case State.Trailer: {
+          this.#buf = concat(this.#buf, input);
+          input = new Uint8Array(0);
+          const length = this.#format === "gzip" ? 8 : 4;
+          if (this.#buf.length < length) break;
+          this.#checkTrailer(this.#buf.subarray(0, length));
+          input = this.#buf.subarray(length);
+          this.#buf = new Uint8Array(0);
+          this.#state = State.Done;
+          break;
+        }
+        case State.Done:
+          if (
+            this.#format === "gzip" && input[0] === gzipId1 && !this.#padded
+          ) {
+            // another gzip member follows
+            this.#state = State.Header;
+            this.#inflater = new RawInflater();
+            this.#crc = 0;
+            this.#size = 0;
+            break;
+          }
+          if (this.#format === "gzip" && input.every((b) => b === 0)) {
+            // zero padding, as written by tape and block writers
+            this.#padded = true;
+            input = new Uint8Array(0);
+            break;
+          }
+          throw new DecompressionError(
+            "unexpected data after the end of the compressed stream",
+          );
+      }
+    }
+    return output.length === 1 ? output[0] : concat(...output);
+  }
+
+  /**
+   * Check that the end of the compressed stream was reached, throwing a
+   * `DecompressionError` otherwise.
+   */
+  finish() {
+    if (this.#state !== State.Done) {
+      throw new DecompressionError("unexpected end of compressed data");
+    }
+  }
+
+  #update(data: Uint8Array) {
+    switch (this.#format) {
+      case "gzip":
+        this.#crc = crc32(data, this.#crc);
+        this.#size = (this.#size + data.length) >>> 0;
+        break;
+      case "deflate":
+        this.#adler = adler32(data, this.#adler);
+        break;
+    }
+  }
+
+  #checkTrailer(trailer: Uint8Array) {
+    const view = new DataView(
+      trailer.buffer,
+      trailer.byteOffset,
+      trailer.byteLength,
+    );
+    if (this.#format === "gzip") {
+      if (view.getUint32(0, true) !== this.#crc) {
+        throw new DecompressionError("gzip CRC-32 checksum mismatch");
+      }
+      if (view.getUint32(4, true) !== this.#size) {
+        throw new DecompressionError("gzip ISIZE (data length) mismatch");
+      }
+    } else if (view.getUint32(0) !== this.#adler) {
+      throw new DecompressionError("zlib Adler-32 checksum mismatch");
+    }
+  }
+}
+
+/**
+ * Compress `data` at once.
+ *
+ *       const gz = compress(new TextEncoder().encode("hello"), { level: 9 });
+ */
+export function compress(
+  data: Uint8Array,
+  options?: CompressOptions,
+): Uint8Array {
+  const compressor = new Compressor(options);
+  return concat(compressor.push(data), compressor.finish());
+}
+
+/**
+ * Decompress `data` at once. Throws a `DecompressionError` if the data is
+ * invalid or truncated.
+ *
+ *       const text = new TextDecoder().decode(decompress(gz));
+ */
+export function decompress(
+  data: Uint8Array,
+  options?: DecompressOptions,
+): Uint8Array {
+  const decompressor = new Decompressor(options);
+  const result = decompressor.push(data);
+  decompressor.finish();
+  return result;
+}
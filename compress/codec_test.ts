@@ -0,0 +1,237 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { assert, assertEquals, assertThrows } from "../testing/asserts.ts";
+import { dirname, fromFileUrl, resolve } from "../path/mod.ts";
+import { equals } from "../bytes/mod.ts";
+import {
+  compress,
+  CompressionFormat,
+  Compressor,
+  decompress,
+  DecompressionError,
+  Decompressor,
+} from "./codec.ts";
+import { adler32, crc32 } from "./_checksum.ts";
+
+const moduleDir = dirname(fromFileUrl(import.meta.url));
+const testdataDir = resolve(moduleDir, "testdata");
+const text = Deno.readFileSync(resolve(testdataDir, "deno.txt"));
+const formats: CompressionFormat[] = ["gzip", "deflate", "deflate-raw"];
+
+function randomBytes(length: number): Uint8Array {
+  // deterministic xorshift so that failures are reproducible
+  const data = new Uint8Array(length);
+  let x = 2463534242;
+  for (let i = 0; i < length; i++) {
+    x ^= x << 13;
+    x ^= x >>> 17;
+    x ^= x << 5;
+    data[i] = x;
+  }
+  return data;
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+  let offset = 0;
+  for (const c of chunks) {
+    result.set(c, offset);
+    offset += c.length;
+  }
+  return result;
+}
+
+Deno.test("checksums", function (): void {
+  const check = new TextEncoder().encode("123456789");
+  assertEquals(crc32(check), 0xcbf43926);
+  assertEquals(
+    crc32(check.subarray(4), crc32(check.subarray(0, 4))),
+    0xcbf43926,
+  );
+  assertEquals(adler32(new TextEncoder().encode("Wikipedia")), 0x11e60398);
+  assertEquals(adler32(new Uint8Array(0)), 1);
+});
+
+Deno.test("compressRoundTrip", function (): void {
+  const repetitive = new TextEncoder().encode(
+    Array.from({ length: 20000 }, (_, i) => `line ${i % 997}`).join("\n"),
+  );
+  const inputs = [
+    new Uint8Array(0),
+    Uint8Array.of(42),
+    text,
+    repetitive,
+    randomBytes(100000),
+    new Uint8Array(200000),
+  ];
+  for (const format of formats) {
+    for (let level = 0; level <= 9; level++) {
+      for (const input of inputs) {
+        const compressed = compress(input, { format, level });
+        assert(equals(decompress(compressed, { format }), input));
+        if (level > 0 && input.length > 1000) {
+          // random data is stored with a few bytes of overhead
+          assert(compressed.length < input.length + 100);
+        }
+      }
+    }
+  }
+  assert(compress(repetitive, { level: 1 }).length < repetitive.length / 4);
+});
+
+Deno.test("compressHeaders", function (): void {
+  const gz = compress(text);
+  assertEquals([...gz.subarray(0, 4)], [0x1f, 0x8b, 8, 0]);
+  const zlib = compress(text, { format: "deflate", level: 9 });
+  assertEquals([...zlib.subarray(0, 2)], [0x78, 0xda]);
+  assertEquals(
+    new DataView(zlib.buffer).getUint32(zlib.length - 4),
+    adler32(text),
+  );
+});
+
+Deno.test("compressInvalidOptions", function (): void {
+  assertThrows(
+    () => compress(text, { level: 10 }),
+    RangeError,
+    "invalid compression level",
+  );
+  assertThrows(
+    () => compress(text, { format: "zip" as CompressionFormat }),
+    TypeError,
+    "unsupported compression format: zip",
+  );
+});
+
+Deno.test("compressorChunksAndFlush", function (): void {
+  const compressor = new Compressor({ format: "deflate" });
+  const decompressor = new Decompressor({ format: "deflate" });
+  const output: Uint8Array[] = [];
+  for (let i = 0; i < text.length; i += 100) {
+    output.push(decompressor.push(compressor.push(text.subarray(i, i + 100))));
+  }
+  // flushing makes everything written so far available
+  output.push(decompressor.push(compressor.flush()));
+  assertEquals(concat(output), text);
+  assert(!decompressor.finished);
+  assertEquals(decompressor.push(compressor.finish()).length, 0);
+  assert(decompressor.finished);
+  decompressor.finish();
+  assertThrows(
+    () => compressor.push(text),
+    Error,
+    "deflate stream already finished",
+  );
+});
+
+Deno.test("decompressGeneratedFiles", function (): void {
+  // generated with the gzip and zlib Python modules
+  const gz = Deno.readFileSync(resolve(testdataDir, "deno.txt.gz"));
+  assertEquals(decompress(gz), text);
+  const zlib = Deno.readFileSync(resolve(testdataDir, "deno.txt.zz"));
+  assertEquals(decompress(zlib, { format: "deflate" }), text);
+});
+
+Deno.test("decompressOneByteAtATime", function (): void {
+  for (const format of formats) {
+    const compressed = compress(text, { format });
+    const decompressor = new Decompressor({ format });
+    const output: Uint8Array[] = [];
+    for (let i = 0; i < compressed.length; i++) {
+      output.push(decompressor.push(compressed.subarray(i, i + 1)));
+    }
+    decompressor.finish();
+    assertEquals(concat(output), text);
+  }
+});
+
+Deno.test("decompressMultipleGzipMembers", function (): void {
+  const data = concat([compress(text), compress(Uint8Array.of(1, 2, 3))]);
+  assertEquals(decompress(data), concat([text, Uint8Array.of(1, 2, 3)]));
+});
+
+Deno.test("decompressChecksumMismatch", function (): void {
+  const gz = compress(text);
+  const badCrc = gz.slice();
+  badCrc[gz.length - 8] ^= 1;
+  assertThrows(
+    () => decompress(badCrc),
+    DecompressionError,
+    "gzip CRC-32 checksum mismatch",
+  );
+  const badSize = gz.slice();
+  badSize[gz.length - 1] ^= 1;
+  assertThrows(
+    () => decompress(badSize),
+    DecompressionError,
+    "gzip ISIZE (data length) mismatch",
+  );
+  const zlib = compress(text, { format: "deflate" });
+  zlib[zlib.length - 1] ^= 1;
+  assertThrows(
+    () => decompress(zlib, { format: "deflate" }),
+    DecompressionError,
+    "zlib Adler-32 checksum mismatch",
+  );
+});
+
+Deno.test("decompressInvalidData", function (): void {
+  const gz = compress(text);
+  for (const length of [5, 20, gz.length - 4]) {
+    assertThrows(
+      () => decompress(gz.subarray(0, length)),
+      DecompressionError,
+      "unexpected end of compressed data",
+    );
+  }
+  assertThrows(
+    () => decompress(text),
+    DecompressionError,
+    "invalid gzip header",
+  );
+  assertThrows(
+    () => decompress(text, { format: "deflate" }),
+    DecompressionError,
+    "invalid zlib header",
+  );
+  assertThrows(
+    () => decompress(Uint8Array.of(0xff), { format: "deflate-raw" }),
+    DecompressionError,
+    "invalid block type",
+  );
+  assertThrows(
+    () => decompress(concat([gz, Uint8Array.of(1)])),
+    DecompressionError,
+    "unexpected data after the end of the compressed stream",
+  );
+  assertThrows(
+    () => decompress(concat([gz, new Uint8Array(4), Uint8Array.of(0, 1)])),
+    DecompressionError,
+    "unexpected data after the end of the compressed stream",
+  );
+  assertThrows(
+    () => decompress(concat([gz, new Uint8Array(4), gz])),
+    DecompressionError,
+    "unexpected data after the end of the compressed stream",
+  );
+});
+
+Deno.test("decompressZeroPadding", function (): void {
+  const gz = concat([compress(text), new Uint8Array(512)]);
+  assertEquals(decompress(gz), text);
+  const decompressor = new Decompressor();
+  const output = [];
+  for (let i = 0; i < gz.length; i += 100) {
+    output.push(decompressor.push(gz.subarray(i, i + 100)));
+  }
+  decompressor.finish();
+  assertEquals(concat(output), text);
+  assertThrows(
+    () =>
+      decompress(
+        concat([compress(text, { format: "deflate" }), Uint8Array.of(0)]),
+        { format: "deflate" },
+      ),
+    DecompressionError,
+    "unexpected data after the end of the compressed stream",
+  );
+});
@@ -0,0 +1,163 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { writeAll } from "../io/util.ts";
+import {
+  CompressOptions,
+  Compressor,
+  DecompressOptions,
+  Decompressor,
+} from "./codec.ts";
+
+const bufSize = 32 * 1024;
+
+/** Reader returning data of `reader` transformed chunk by chunk */
+abstract class TransformReader implements Deno.Reader {
+  #reader: Deno.Reader;
+  #buf = new Uint8Array(bufSize);
+  #pending = new Uint8Array(0);
+  #eof = false;
+
+  constructor(reader: Deno.Reader) {
+    this.#reader = reader;
+  }
+
+  protected abstract transform(chunk: Uint8Array): Uint8Array;
+  protected abstract end(): Uint8Array;
+
+  async read(p: Uint8Array): Promise<number | null> {
+    while (this.#pending.length === 0) {
+      if (this.#eof) return null;
+      const n = await this.#reader.read(this.#buf);
+      if (n === null) {
+        this.#eof = true;
+        this.#pending = this.end();
+      } else {
+        this.#pending = this.transform(this.#buf.subarray(0, n));
+      }
+    }
+    const n = Math.min(p.length, this.#pending.length);
+    p.set(this.#pending.subarray(0, n));
+    this.#pending = this.#pending.subarray(n);
+    return n;
+  }
+}
+
+/**
+ * Reader compressing the data read from `reader`.
+ *
+ *       const file = await Deno.open("data.txt");
+ *       const gz = await Deno.open("data.txt.gz", { write: true, create: true });
+ *       await Deno.copy(new CompressReader(file), gz);
+ */
+export class CompressReader extends TransformReader {
+  #compressor: Compressor;
+
+  constructor(reader: Deno.Reader, options?: CompressOptions) {
+    super(reader);
+    this.#compressor = new Compressor(options);
+  }
+
+  protected transform(chunk: Uint8Array): Uint8Array {
+    return this.#compressor.push(chunk);
+  }
+
+  protected end(): Uint8Array {
+    return this.#compressor.finish();
+  }
+}
+
+/**
+ * Reader decompressing the data read from `reader`. The read rejects with a
+ * `DecompressionError` if the compressed data is invalid or truncated.
+ *
+ *       const gz = await Deno.open("data.txt.gz");
+ *       await Deno.copy(new DecompressReader(gz), Deno.stdout);
+ */
+export class DecompressReader extends TransformReader {
+  #decompressor: Decompressor;
+
+  constructor(reader: Deno.Reader, options?: DecompressOptions) {
+    super(reader);
+    this.#decompressor = new Decompressor(options);
+  }
+
+  protected transform(chunk: Uint8Array): Uint8Array {
+    return this.#decompressor.push(chunk);
+  }
+
+  protected end(): Uint8Array {
+    this.#decompressor.finish();
+    return new Uint8Array(0);
+  }
+}
+
+/**
+ * Writer compressing the data written to it into `writer`. `close()` must be
+ * called to write the end of the compressed stream; it doesn't close
+ * `writer`.
+ *
+ *       const gz = await Deno.open("data.txt.gz", { write: true, create: true });
+ *       const writer = new CompressWriter(gz, { level: 9 });
+ *       await writeAll(writer, new TextEncoder().encode("hello"));
+ *       await writer.close();
+ *       gz.close();
+ */
+export class CompressWriter implements Deno.Writer, Deno.Closer {
+  #writer: Deno.Writer;
+  #compressor: Compressor;
+  #closed = false;
+
+  constructor(writer: Deno.Writer, options?: CompressOptions) {
+    this.#writer = writer;
+    this.#compressor = new Compressor(options);
+  }
+
+  async write(p: Uint8Array): Promise<number> {
+    if (this.#closed) throw new Deno.errors.BadResource("writer is closed");
+    const data = this.#compressor.push(p);
+    if (data.length > 0) await writeAll(this.#writer, data);
+    return p.length;
+  }
+
+  /** Write all the data compressed so far to the underlying writer */
+  async flush() {
+    if (this.#closed) throw new Deno.errors.BadResource("writer is closed");
+    await writeAll(this.#writer, this.#compressor.flush());
+  }
+
+  /** Write the end of the compressed stream to the underlying writer */
+  async close() {
+    if (this.#closed) return;
+    this.#closed = true;
+    await writeAll(this.#writer, this.#compressor.finish());
+  }
+}
+
+/**
+ * Writer decompressing the data written to it into `writer`. `close()`
+ * rejects with a `DecompressionError` if the compressed stream is
+ * incomplete; it doesn't close `writer`.
+ */
+export class DecompressWriter implements Deno.Writer, Deno.Closer {
+  #writer: Deno.Writer;
+  #decompressor: Decompressor;
+  #closed = false;
+
+  constructor(writer: Deno.Writer, options?: DecompressOptions) {
+    this.#writer = writer;
+    this.#decompressor = new Decompressor(options);
+  }
+
+  async write(p: Uint8Array): Promise<number> {
+    if (this.#closed) throw new Deno.errors.BadResource("writer is closed");
+    const data = this.#decompressor.push(p);
+    if (data.length > 0) await writeAll(this.#writer, data);
+    return p.length;
+  }
+
+  /** Check that the end of the compressed stream was written */
+  close() {
+    if (this.#closed) return;
+    this.#closed = true;
+    this.#decompressor.finish();
+  }
+}
@@ -0,0 +1,88 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import {
+  assertEquals,
+  assertThrows,
+  assertThrowsAsync,
+} from "../testing/asserts.ts";
+import { dirname, fromFileUrl, resolve } from "../path/mod.ts";
+import { Buffer } from "../io/buffer.ts";
+import { readAll, writeAll } from "../io/util.ts";
+import { compress, decompress, DecompressionError } from "./codec.ts";
+import {
+  CompressReader,
+  CompressWriter,
+  DecompressReader,
+  DecompressWriter,
+} from "./io.ts";
+
+const moduleDir = dirname(fromFileUrl(import.meta.url));
+const testdataDir = resolve(moduleDir, "testdata");
+const text = Deno.readFileSync(resolve(testdataDir, "deno.txt"));
+
+Deno.test("compressReader", async function (): Promise<void> {
+  const reader = new CompressReader(new Buffer(text), { format: "deflate" });
+  const compressed = await readAll(reader);
+  assertEquals(decompress(compressed, { format: "deflate" }), text);
+});
+
+Deno.test("decompressReader", async function (): Promise<void> {
+  const file = await Deno.open(resolve(testdataDir, "deno.txt.gz"));
+  try {
+    assertEquals(await readAll(new DecompressReader(file)), text);
+  } finally {
+    file.close();
+  }
+});
+
+Deno.test("decompressReaderTruncated", async function (): Promise<void> {
+  const compressed = compress(text);
+  const reader = new DecompressReader(
+    new Buffer(compressed.subarray(0, compressed.length - 1)),
+  );
+  await assertThrowsAsync(
+    () => readAll(reader),
+    DecompressionError,
+    "unexpected end of compressed data",
+  );
+});
+
+Deno.test("compressWriter", async function (): Promise<void> {
+  const buf = new Buffer();
+  const writer = new CompressWriter(buf, { level: 9 });
+  await writeAll(writer, text.subarray(0, 1000));
+  await writer.flush();
+  const flushed = buf.length;
+  await writeAll(writer, text.subarray(1000));
+  await writer.close();
+  assertEquals(decompress(buf.bytes()), text);
+  // the data written before the flush can be decompressed on its own
+  const reader = new DecompressReader(
+    new Buffer(buf.bytes().subarray(0, flushed)),
+  );
+  const head = new Uint8Array(1000);
+  assertEquals(await reader.read(head), 1000);
+  assertEquals(head, text.subarray(0, 1000));
+  await assertThrowsAsync(
+    () => writer.write(text),
+    Deno.errors.BadResource,
+    "writer is closed",
+  );
+});
+
+Deno.test("decompressWriter", async function (): Promise<void> {
+  const buf = new Buffer();
+  const writer = new DecompressWriter(buf);
+  const compressed = compress(text);
+  await writeAll(writer, compressed.subarray(0, 50));
+  await writeAll(writer, compressed.subarray(50));
+  writer.close();
+  assertEquals(buf.bytes(), text);
+
+  const truncated = new DecompressWriter(new Buffer());
+  await writeAll(truncated, compressed.subarray(0, 50));
+  assertThrows(
+    () => truncated.close(),
+    DecompressionError,
+    "unexpected end of compressed data",
+  );
+});
@@ -0,0 +1,4 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+export * from "./codec.ts";
+export * from "./io.ts";
+export * from "./stream.ts";
@@ -0,0 +1,53 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import {
+  CompressOptions,
+  Compressor,
+  DecompressOptions,
+  Decompressor,
+} from "./codec.ts";
+
+/**
+ * Transform stream compressing the chunks written to it.
+ *
+ *       const file = await Deno.open("data.txt");
+ *       const gz = readableStreamFromReader(file)
+ *         .pipeThrough(new CompressStream({ level: 9 }));
+ */
+export class CompressStream extends TransformStream<Uint8Array, Uint8Array> {
+  constructor(options?: CompressOptions) {
+    const compressor = new Compressor(options);
+    super({
+      transform(chunk, controller) {
+        const data = compressor.push(chunk);
+        if (data.length > 0) controller.enqueue(data);
+      },
+      flush(controller) {
+        controller.enqueue(compressor.finish());
+      },
+    });
+  }
+}
+
+/**
+ * Transform stream decompressing the chunks written to it. The stream errors
+ * with a `DecompressionError` if the compressed data is invalid or truncated.
+ *
+ *       const gz = await Deno.open("data.txt.gz");
+ *       const text = readableStreamFromReader(gz)
+ *         .pipeThrough(new DecompressStream())
+ *         .pipeThrough(new TextDecoderStream());
+ */
+export class DecompressStream extends TransformStream<Uint8Array, Uint8Array> {
+  constructor(options?: DecompressOptions) {
+    const decompressor = new Decompressor(options);
+    super({
+      transform(chunk, controller) {
+        const data = decompressor.push(chunk);
+        if (data.length > 0) controller.enqueue(data);
+      },
+      flush() {
+        decompressor.finish();
+      },
+    });
+  }
+}
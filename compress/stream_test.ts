@@ -0,0 +1,42 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { assertEquals, assertThrowsAsync } from "../testing/asserts.ts";
+import { readableStreamFromIterable } from "../io/streams.ts";
+import { compress, DecompressionError } from "./codec.ts";
+import { CompressStream, DecompressStream } from "./stream.ts";
+
+const text = new TextEncoder().encode("hello deno\n".repeat(1000));
+
+async function collect(stream: ReadableStream<Uint8Array>): Promise<number[]> {
+  const result: number[] = [];
+  for await (const chunk of stream) result.push(...chunk);
+  return result;
+}
+
+function chunks(data: Uint8Array, size: number): Uint8Array[] {
+  const result = [];
+  for (let i = 0; i < data.length; i += size) {
+    result.push(data.subarray(i, i + size));
+  }
+  return result;
+}
+
+Deno.test("compressStreamRoundTrip", async function (): Promise<void> {
+  for (const format of ["gzip", "deflate", "deflate-raw"] as const) {
+    const stream = readableStreamFromIterable(chunks(text, 777))
+      .pipeThrough(new CompressStream({ format, level: 1 }))
+      .pipeThrough(new DecompressStream({ format }));
+    assertEquals(await collect(stream), [...text]);
+  }
+});
+
+Deno.test("decompressStreamError", async function (): Promise<void> {
+  const compressed = compress(text);
+  const stream = readableStreamFromIterable(
+    chunks(compressed.subarray(0, compressed.length - 3), 10),
+  ).pipeThrough(new DecompressStream());
+  await assertThrowsAsync(
+    () => collect(stream),
+    DecompressionError,
+    "unexpected end of compressed data",
+  );
+});
@@ -0,0 +1,91 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { Disambiguation, TimeZone } from "./timezone.ts";
+
+const MINUTE = 60 * 1e3;
+const DAY = 24 * 60 * MINUTE;
+
+export function timeZoneOf(
+  timeZone: string | TimeZone | undefined,
+): TimeZone | undefined {
+  return typeof timeZone === "string" ? TimeZone.of(timeZone) : timeZone;
+}
+
+/**
+ * The wall-clock time of `date` in `zone`, or in the local time zone of the
+ * host, as a date whose UTC fields hold it
+ */
+export function toWallClock(date: Date, zone?: TimeZone): Date {
+  if (zone) return new Date(date.getTime() + zone.offsetAt(date) * MINUTE);
+  const wall = new Date(0);
+  wall.setUTCFullYear(date.getFullYear(), date.getMonth(), date.getDate());
+  wall.setUTCHours(
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds(),
+    date.getMilliseconds(),
+  );
+  return wall;
+}
+
+/**
+ * The instant of the wall-clock time held in the UTC fields of `wall`, in
+ * `zone` or in the local time zone of the host. The host resolves DST gaps and
+ * overlaps like `"compatible"`.
+ */
+export function fromWallClock(
+  wall: Date,
+  zone?: TimeZone,
+  disambiguation?: Disambiguation,
+): Date {
+  if (zone) {
+    return zone.toInstant({
+      year: wall.getUTCFullYear(),
+      month: wall.getUTCMonth() + 1,
+      day: wall.getUTCDate(),
+      hour: wall.getUTCHours(),
+      minute: wall.getUTCMinutes(),
+      second: wall.getUTCSeconds(),
+      millisecond: wall.getUTCMilliseconds(),
+    }, disambiguation);
+  }
+  const date = new Date(0);
+  date.setFullYear(
+    wall.getUTCFullYear(),
+    wall.getUTCMonth(),
+    wall.getUTCDate(),
+  );
+  date.setHours(
+    wall.getUTCHours(),
+    wall.getUTCMinutes(),
+    wall.getUTCSeconds(),
+    wall.getUTCMilliseconds(),
+  );
+  return date;
+}
+
+/** The Monday of the ISO week 1 of `year`, the week with January 4th in it */
+export function isoWeekOne(year: number): Date {
+  const date = new Date(0);
+  date.setUTCFullYear(year, 0, 4);
+  date.setUTCDate(4 - (date.getUTCDay() + 6) % 7);
+  return date;
+}
+
+export function isoWeeksInYear(year: number): number {
+  return (isoWeekOne(year + 1).getTime() - isoWeekOne(year).getTime()) /
+    (7 * DAY);
+}
+
+/** The ISO week date of the UTC fields of `wall`, Monday being weekday 1 */
+export function isoWeekDate(
+  wall: Date,
+): { year: number; week: number; weekday: number } {
+  // The week belongs to the year of its Thursday
+  const weekday = (wall.getUTCDay() + 6) % 7 + 1;
+  const thursday = new Date(wall.getTime() + (4 - weekday) * DAY);
+  const year = thursday.getUTCFullYear();
+  const week = Math.floor(
+    (thursday.getTime() - isoWeekOne(year).getTime()) / (7 * DAY),
+  ) + 1;
+  return { year, week, weekday };
+}
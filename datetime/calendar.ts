@@ -0,0 +1,311 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+// Calendar arithmetic. The calendar units are applied to the wall-clock time,
+// in the local time zone of the host or in `options.timeZone`, while the time
+// units are added as exact durations.
+
+import type { TimeZone } from "./timezone.ts";
+import { fromWallClock, timeZoneOf, toWallClock } from "./_util.ts";
+
+const SECOND = 1e3;
+const MINUTE = SECOND * 60;
+const HOUR = MINUTE * 60;
+const DAY = HOUR * 24;
+
+/** An amount of time in calendar and time units */
+export interface Duration {
+  years?: number;
+  months?: number;
+  weeks?: number;
+  days?: number;
+  hours?: number;
+  minutes?: number;
+  seconds?: number;
+  milliseconds?: number;
+}
+
+export type CalendarUnit =
+  | "year"
+  | "quarter"
+  | "month"
+  | "week"
+  | "day"
+  | "hour"
+  | "minute"
+  | "second";
+
+export interface CalendarOptions {
+  /**
+   * Do the calendar math in this IANA time zone instead of the local time
+   * zone of the host. Wall-clock times in a DST gap are moved forward.
+   */
+  timeZone?: string | TimeZone;
+}
+
+export interface StartOfOptions extends CalendarOptions {
+  /** The first day of the week, 0 being Sunday. Default is `1` (Monday) */
+  weekStartsOn?: number;
+}
+
+export interface BusinessDayOptions extends CalendarOptions {
+  /** The days of the week that aren't business days. Default is `[0, 6]` */
+  weekend?: number[];
+  /** The days that aren't business days, as dates or `"yyyy-MM-dd"` */
+  holidays?: Iterable<Date | string>;
+}
+
+function assertInteger(value: number, name: string) {
+  if (!Number.isInteger(value)) {
+    throw new RangeError(`${name} must be an integer: ${value}`);
+  }
+}
+
+/**
+ * Add `duration` to `date`. The years and months are added first. When the
+ * day of the month doesn't exist in the resulting month, the last day of that
+ * month is used, so Jan 31 + 1 month is Feb 28 (or Feb 29 in a leap year) and
+ * Feb 29 + 1 year is Feb 28. Then the weeks and days are added as calendar
+ * days, keeping the wall-clock time across DST changes. Last, the hours,
+ * minutes, seconds and milliseconds are added as exact durations.
+ *
+ * The calendar units must be integers.
+ *
+ * ```typescript
+ * add(new Date(2021, 0, 31), { months: 1 }); // => new Date(2021, 1, 28)
+ * ```
+ */
+export function add(
+  date: Date,
+  duration: Duration,
+  options: CalendarOptions = {},
+): Date {
+  const {
+    years = 0,
+    months = 0,
+    weeks = 0,
+    days = 0,
+    hours = 0,
+    minutes = 0,
+    seconds = 0,
+    milliseconds = 0,
+  } = duration;
+  assertInteger(years, "years");
+  assertInteger(months, "months");
+  assertInteger(weeks, "weeks");
+  assertInteger(days, "days");
+  let result = date;
+  if (years || months || weeks || days) {
+    const zone = timeZoneOf(options.timeZone);
+    const local = toWallClock(date, zone);
+    const day = local.getUTCDate();
+    local.setUTCFullYear(
+      local.getUTCFullYear() + years,
+      local.getUTCMonth() + months,
+      1,
+    );
+    local.setUTCDate(Math.min(day, daysInMonth(local)));
+    local.setUTCDate(local.getUTCDate() + weeks * 7 + days);
+    result = fromWallClock(local, zone);
+  }
+  return new Date(
+    result.getTime() + hours * HOUR + minutes * MINUTE + seconds * SECOND +
+      milliseconds,
+  );
+}
+
+/**
+ * Subtract `duration` from `date`, with the same rules as `add()`.
+ *
+ * ```typescript
+ * subtract(new Date(2021, 2, 31), { months: 1 }); // => new Date(2021, 1, 28)
+ * ```
+ */
+export function subtract(
+  date: Date,
+  duration: Duration,
+  options: CalendarOptions = {},
+): Date {
+  const negated: Duration = {};
+  for (const [unit, value] of Object.entries(duration)) {
+    negated[unit as keyof Duration] = value === 0 ? 0 : -value;
+  }
+  return add(date, negated, options);
+}
+
+function daysInMonth(local: Date): number {
+  return new Date(
+    Date.UTC(local.getUTCFullYear(), local.getUTCMonth() + 1, 0),
+  ).getUTCDate();
+}
+
+/**
+ * The start of the `unit` containing `date`, e.g. the first millisecond of
+ * its month for `"month"`.
+ *
+ * ```typescript
+ * startOf(new Date(2021, 4, 19, 10), "month"); // => new Date(2021, 4, 1)
+ * ```
+ */
+export function startOf(
+  date: Date,
+  unit: CalendarUnit,
+  options: StartOfOptions = {},
+): Date {
+  const { weekStartsOn = 1 } = options;
+  const zone = timeZoneOf(options.timeZone);
+  const local = toWallClock(date, zone);
+  switch (unit) {
+    case "year":
+      local.setUTCMonth(0, 1);
+      local.setUTCHours(0, 0, 0, 0);
+      break;
+    case "quarter":
+      local.setUTCMonth(local.getUTCMonth() - local.getUTCMonth() % 3, 1);
+      local.setUTCHours(0, 0, 0, 0);
+      break;
+    case "month":
+      local.setUTCDate(1);
+      local.setUTCHours(0, 0, 0, 0);
+      break;
+    case "week":
+      local.setUTCDate(
+        local.getUTCDate() - (local.getUTCDay() - weekStartsOn + 7) % 7,
+      );
+      local.setUTCHours(0, 0, 0, 0);
+      break;
+    case "day":
+      local.setUTCHours(0, 0, 0, 0);
+      break;
+    case "hour":
+      local.setUTCMinutes(0, 0, 0);
+      break;
+    case "minute":
+      local.setUTCSeconds(0, 0);
+      break;
+    case "second":
+      local.setUTCMilliseconds(0);
+      break;
+    default:
+      throw new RangeError(`invalid unit: ${unit}`);
+  }
+  return fromWallClock(local, zone);
+}
+
+const unitDurations: Record<CalendarUnit, Duration> = {
+  year: { years: 1 },
+  quarter: { months: 3 },
+  month: { months: 1 },
+  week: { weeks: 1 },
+  day: { days: 1 },
+  hour: { hours: 1 },
+  minute: { minutes: 1 },
+  second: { seconds: 1 },
+};
+
+/**
+ * The end of the `unit` containing `date`, i.e. its last millisecond.
+ *
+ * ```typescript
+ * endOf(new Date(2021, 1, 10), "month"); // => new Date(2021, 1, 28, 23, 59, 59, 999)
+ * ```
+ */
+export function endOf(
+  date: Date,
+  unit: CalendarUnit,
+  options: StartOfOptions = {},
+): Date {
+  const start = startOf(date, unit, options);
+  const next = startOf(add(start, unitDurations[unit], options), unit, options);
+  return new Date(next.getTime() - 1);
+}
+
+// Create a test of whether a local date is a business day
+function businessDayTest(
+  options: BusinessDayOptions,
+): (local: Date) => boolean {
+  const { weekend = [0, 6], holidays = [] } = options;
+  const zone = timeZoneOf(options.timeZone);
+  const holidaySet = new Set<string>();
+  for (const holiday of holidays) {
+    holidaySet.add(
+      typeof holiday === "string"
+        ? holiday
+        : dateKey(toWallClock(holiday, zone)),
+    );
+  }
+  return (local) =>
+    !weekend.includes(local.getUTCDay()) && !holidaySet.has(dateKey(local));
+}
+
+function dateKey(local: Date): string {
+  return local.toISOString().slice(0, 10);
+}
+
+/** Whether the day of `date` is neither on a weekend nor a holiday */
+export function isBusinessDay(
+  date: Date,
+  options: BusinessDayOptions = {},
+): boolean {
+  return businessDayTest(options)(
+    toWallClock(date, timeZoneOf(options.timeZone)),
+  );
+}
+
+/**
+ * Add `amount` business days to `date`, skipping the weekends and holidays
+ * and keeping the time of day. A negative `amount` goes back in time.
+ *
+ * ```typescript
+ * // Friday + 1 business day is Monday
+ * addBusinessDays(new Date(2021, 4, 21), 1); // => new Date(2021, 4, 24)
+ * ```
+ */
+export function addBusinessDays(
+  date: Date,
+  amount: number,
+  options: BusinessDayOptions = {},
+): Date {
+  assertInteger(amount, "amount");
+  const { weekend = [0, 6] } = options;
+  if (amount !== 0 && weekend.length >= 7) {
+    throw new RangeError("every day of the week is on the weekend");
+  }
+  const isBusiness = businessDayTest(options);
+  const zone = timeZoneOf(options.timeZone);
+  const local = toWallClock(date, zone);
+  const step = Math.sign(amount);
+  for (let remaining = Math.abs(amount); remaining > 0;) {
+    local.setTime(local.getTime() + step * DAY);
+    if (isBusiness(local)) remaining--;
+  }
+  return fromWallClock(local, zone);
+}
+
+/**
+ * The number of business days between the days of `from` and `to`, negative
+ * if `to` is before `from`. It's the `amount` for which
+ * `addBusinessDays(from, amount)` is on the day of `to` when that is a
+ * business day.
+ */
+export function businessDaysBetween(
+  from: Date,
+  to: Date,
+  options: BusinessDayOptions = {},
+): number {
+  const isBusiness = businessDayTest(options);
+  const zone = timeZoneOf(options.timeZone);
+  const start = toWallClock(from, zone);
+  const end = toWallClock(to, zone);
+  start.setUTCHours(0, 0, 0, 0);
+  end.setUTCHours(0, 0, 0, 0);
+  let count = 0;
+  // Count the days that addBusinessDays() would step on
+  while (start < end) {
+    start.setTime(start.getTime() + DAY);
+    if (isBusiness(start)) count++;
+  }
+  while (end < start) {
+    if (isBusiness(end)) count--;
+    end.setTime(end.getTime() + DAY);
+  }
+  return count;
+}
@@ -0,0 +1,392 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { delay } from "../async/delay.ts";
+import type { TimeZone } from "./timezone.ts";
+import { fromWallClock, timeZoneOf, toWallClock } from "./_util.ts";
+
+const SECOND = 1e3;
+const MINUTE = SECOND * 60;
+const HOUR = MINUTE * 60;
+// The longest delay setTimeout() supports
+const MAX_DELAY = 2 ** 31 - 1;
+// How far next() and previous() search when no year is given
+const SEARCH_YEARS = 400;
+
+export interface CronOptions {
+  /**
+   * Match the wall-clock time in this IANA time zone instead of the local
+   * time zone of the host
+   */
+  timeZone?: string | TimeZone;
+}
+
+export interface ScheduleOptions extends CronOptions {
+  /** Stop the schedule, rejecting with an `AbortError` from the iterator */
+  signal?: AbortSignal;
+}
+
+const macros: Record<string, string> = {
+  "@yearly": "0 0 0 1 1 *",
+  "@annually": "0 0 0 1 1 *",
+  "@monthly": "0 0 0 1 * *",
+  "@weekly": "0 0 0 * * 0",
+  "@daily": "0 0 0 * * *",
+  "@midnight": "0 0 0 * * *",
+  "@hourly": "0 0 * * * *",
+};
+
+const monthNames = [
+  "JAN",
+  "FEB",
+  "MAR",
+  "APR",
+  "MAY",
+  "JUN",
+  "JUL",
+  "AUG",
+  "SEP",
+  "OCT",
+  "NOV",
+  "DEC",
+];
+const dayNames = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+interface DayOfMonth {
+  days: boolean[];
+  // `L` and `L-n`: n days before the last day of the month
+  lastOffsets: number[];
+  // `LW`
+  lastWeekday: boolean;
+  // `nW`: the weekday nearest to day n
+  nearestWeekdays: number[];
+}
+
+interface DayOfWeek {
+  days: boolean[];
+  // `nL`: the last day n of the month
+  last: boolean[];
+  // `n#k`: the k-th day n of the month
+  nth: Array<[day: number, k: number]>;
+}
+
+class CronField {
+  constructor(
+    readonly name: string,
+    readonly min: number,
+    readonly max: number,
+    readonly names?: string[],
+  ) {}
+
+  value(s: string): number {
+    const index = this.names?.indexOf(s.toUpperCase()) ?? -1;
+    const value = index >= 0
+      ? index + (this.name === "month" ? 1 : 0)
+      : /^\d+$/.test(s)
+      ? Number(s)
+      : NaN;
+    if (!(value >= this.min && value <= this.max)) {
+      throw new SyntaxError(`invalid ${this.name}: ${s}`);
+    }
+    return value;
+  }
+
+  // Parse a list of values, ranges and steps
+  parse(field: string, values: boolean[] = []): boolean[] {
+    for (const part of field.split(",")) {
+      const [range, step, ...rest] = part.split("/");
+      if (rest.length > 0 || (step !== undefined && !/^\d+$/.test(step))) {
+        throw new SyntaxError(`invalid ${this.name}: ${part}`);
+      }
+      const increment = step === undefined ? 1 : Number(step);
+      if (increment < 1) throw new SyntaxError(`invalid step: ${part}`);
+      let from: number;
+      let to: number;
+      if (range === "*" || range === "?") {
+        [from, to] = [this.min, this.max];
+      } else if (range.includes("-")) {
+        const [start, end, ...more] = range.split("-");
+        if (more.length > 0) {
+          throw new SyntaxError(`invalid ${this.name}: ${part}`);
+        }
+        [from, to] = [this.value(start), this.value(end)];
+        // e.g. FRI-MON or NOV-FEB wrap around
+        if (from > to) to += this.max - this.min + 1;
+      } else {
+        from = this.value(range);
+        to = step === undefined ? from : this.max;
+      }
+      for (let i = from; i <= to; i += increment) {
+        values[i > this.max ? i - (this.max - this.min + 1) : i] = true;
+      }
+    }
+    return values;
+  }
+}
+
+const fields = {
+  second: new CronField("second", 0, 59),
+  minute: new CronField("minute", 0, 59),
+  hour: new CronField("hour", 0, 23),
+  dayOfMonth: new CronField("day of month", 1, 31),
+  month: new CronField("month", 1, 12, monthNames),
+  // 0 and 7 are both Sunday
+  dayOfWeek: new CronField("day of week", 0, 7, dayNames),
+  year: new CronField("year", 1970, 2199),
+};
+
+function parseDayOfMonth(field: string): DayOfMonth {
+  const result: DayOfMonth = {
+    days: [],
+    lastOffsets: [],
+    lastWeekday: false,
+    nearestWeekdays: [],
+  };
+  for (const part of field.split(",")) {
+    let match: RegExpExecArray | null;
+    if (part === "LW") {
+      result.lastWeekday = true;
+    } else if ((match = /^L(?:-(\d+))?$/.exec(part))) {
+      const offset = Number(match[1] ?? 0);
+      if (offset > 30) throw new SyntaxError(`invalid day of month: ${part}`);
+      result.lastOffsets.push(offset);
+    } else if ((match = /^(\d+)W$/.exec(part))) {
+      result.nearestWeekdays.push(fields.dayOfMonth.value(match[1]));
+    } else {
+      fields.dayOfMonth.parse(part, result.days);
+    }
+  }
+  return result;
+}
+
+function parseDayOfWeek(field: string): DayOfWeek {
+  const result: DayOfWeek = { days: [], last: [], nth: [] };
+  const day = (s: string) => fields.dayOfWeek.value(s) % 7;
+  for (const part of field.split(",")) {
+    let match: RegExpExecArray | null;
+    if (part === "L") {
+      result.days[6] = true;
+    } else if ((match = /^(\w+)L$/.exec(part))) {
+      result.last[day(match[1])] = true;
+    } else if ((match = /^(\w+)#([1-5])$/.exec(part))) {
+      result.nth.push([day(match[1]), Number(match[2])]);
+    } else {
+      const days = fields.dayOfWeek.parse(part);
+      days.forEach((value, i) => {
+        if (value) result.days[i % 7] = true;
+      });
+    }
+  }
+  return result;
+}
+
+function utc(year: number, month: number, day: number): Date {
+  const date = new Date(0);
+  date.setUTCFullYear(year, month, day);
+  return date;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return utc(year, month + 1, 0).getUTCDate();
+}
+
+// The weekday nearest to `day` within its month, or 0 if there is no `day`
+function nearestWeekday(year: number, month: number, day: number): number {
+  const last = daysInMonth(year, month);
+  if (day > last) return 0;
+  const weekday = utc(year, month, day).getUTCDay();
+  if (weekday === 6) return day === 1 ? 3 : day - 1;
+  if (weekday === 0) return day === last ? day - 2 : day + 1;
+  return day;
+}
+
+/**
+ * A cron expression. It has the 5 fields `minute hour day-of-month month
+ * day-of-week`, optionally preceded by a `second` field and followed by a
+ * `year` field, or is one of `@yearly`, `@monthly`, `@weekly`, `@daily` and
+ * `@hourly`.
+ *
+ * The fields are lists of values, ranges (`1-5`) and steps (`*\/15`, `10/5`
+ * or `1-30/2`). Months and days of the week also take the names `JAN`-`DEC`
+ * and `SUN`-`SAT`, and both 0 and 7 are Sunday. The day of the month also
+ * takes `L` (the last day), `L-n`, `LW` (the last weekday) and `nW` (the
+ * weekday nearest to day n), and the day of the week `nL` (the last day n of
+ * the month) and `n#k` (the k-th day n of the month). `?` is the same as `*`.
+ * When both the day of the month and the day of the week are restricted, a
+ * day matching either of them matches.
+ *
+ * Times that don't exist because the clocks are turned forward fire moved
+ * forward by the length of the gap (02:30 fires at 03:30 when the clocks jump
+ * from 02:00 to 03:00), and times repeated when the clocks are turned back
+ * fire once, at their first occurrence.
+ *
+ *     const cron = new Cron("0 30 9 * * MON-FRI", { timeZone: "Europe/Paris" });
+ *     cron.next(new Date("2021-05-21T12:00:00Z")); // => 2021-05-24T07:30:00.000Z
+ */
+export class Cron {
+  readonly expression: string;
+  #zone: TimeZone | undefined;
+  #seconds: boolean[];
+  #minutes: boolean[];
+  #hours: boolean[];
+  #months: boolean[];
+  #years: boolean[] | undefined;
+  #dayOfMonth: DayOfMonth | undefined;
+  #dayOfWeek: DayOfWeek | undefined;
+
+  /** Throws a `SyntaxError` if `expression` is invalid */
+  constructor(expression: string, options: CronOptions = {}) {
+    this.expression = expression;
+    this.#zone = timeZoneOf(options.timeZone);
+    const trimmed = expression.trim();
+    const parts = (macros[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+    if (parts.length === 5) parts.unshift("0");
+    if (parts.length !== 6 && parts.length !== 7) {
+      throw new SyntaxError(
+        `invalid cron expression "${expression}": expected 5 to 7 fields`,
+      );
+    }
+    const [second, minute, hour, dayOfMonth, month, dayOfWeek, year] = parts;
+    try {
+      this.#seconds = fields.second.parse(second);
+      this.#minutes = fields.minute.parse(minute);
+      this.#hours = fields.hour.parse(hour);
+      this.#months = fields.month.parse(month);
+      const any = (field: string) => field === "*" || field === "?";
+      this.#years = year === undefined || any(year)
+        ? undefined
+        : fields.year.parse(year);
+      this.#dayOfMonth = any(dayOfMonth)
+        ? undefined
+        : parseDayOfMonth(dayOfMonth);
+      this.#dayOfWeek = any(dayOfWeek) ? undefined : parseDayOfWeek(dayOfWeek);
+    } catch (error) {
+      throw new SyntaxError(
+        `invalid cron expression "${expression}": ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /** The first time the expression matches after `from`, or `null` if none */
+  next(from: Date = new Date()): Date | null {
+    return this.#find(from, 1);
+  }
+
+  /** The last time the expression matches before `from`, or `null` if none */
+  previous(from: Date = new Date()): Date | null {
+    return this.#find(from, -1);
+  }
+
+  /** Whether the expression matches the second of `date` */
+  matches(date: Date): boolean {
+    const wall = toWallClock(date, this.#zone);
+    return this.#matchesDay(wall) &&
+      !!this.#months[wall.getUTCMonth() + 1] &&
+      !!this.#hours[wall.getUTCHours()] &&
+      !!this.#minutes[wall.getUTCMinutes()] &&
+      !!this.#seconds[wall.getUTCSeconds()] &&
+      (!this.#years || !!this.#years[wall.getUTCFullYear()]);
+  }
+
+  #matchesDay(wall: Date): boolean {
+    const dom = this.#dayOfMonth;
+    const dow = this.#dayOfWeek;
+    if (!dom && !dow) return true;
+    const year = wall.getUTCFullYear();
+    const month = wall.getUTCMonth();
+    const day = wall.getUTCDate();
+    const last = daysInMonth(year, month);
+    let lastWeekday = last;
+    while (utc(year, month, lastWeekday).getUTCDay() % 6 === 0) lastWeekday--;
+    const matchesDom = !!dom && (
+      !!dom.days[day] ||
+      dom.lastOffsets.some((n) => day === last - n) ||
+      (dom.lastWeekday && day === lastWeekday) ||
+      dom.nearestWeekdays.some((n) => day === nearestWeekday(year, month, n))
+    );
+    const weekday = wall.getUTCDay();
+    const matchesDow = !!dow && (
+      !!dow.days[weekday] ||
+      (!!dow.last[weekday] && day + 7 > last) ||
+      dow.nth.some(([d, k]) => d === weekday && Math.ceil(day / 7) === k)
+    );
+    return matchesDom || matchesDow;
+  }
+
+  // Walk the wall-clock time in `direction`, skipping the non-matching years,
+  // months, days, hours and minutes at once.
+  #find(from: Date, direction: 1 | -1): Date | null {
+    const forward = direction > 0;
+    const wall = toWallClock(from, this.#zone);
+    // Start at the next or previous whole second
+    wall.setTime(
+      forward
+        ? Math.floor(wall.getTime() / SECOND) * SECOND + SECOND
+        : Math.ceil(wall.getTime() / SECOND) * SECOND - SECOND,
+    );
+    const startYear = wall.getUTCFullYear();
+    const years = this.#years;
+    const minYear = years
+      ? years.findIndex((v) => v)
+      : startYear - SEARCH_YEARS;
+    const maxYear = years ? years.length - 1 : startYear + SEARCH_YEARS;
+    // Move to the start of the next unit, or the end of the previous one
+    const skip = (next: Date, current: Date) => {
+      wall.setTime(forward ? next.getTime() : current.getTime() - SECOND);
+    };
+
+    while (true) {
+      const year = wall.getUTCFullYear();
+      const month = wall.getUTCMonth();
+      const day = wall.getUTCDate();
+      if (forward ? year > maxYear : year < minYear) return null;
+      if (years && !years[year]) {
+        skip(utc(year + 1, 0, 1), utc(year, 0, 1));
+      } else if (!this.#months[month + 1]) {
+        skip(utc(year, month + 1, 1), utc(year, month, 1));
+      } else if (!this.#matchesDay(wall)) {
+        skip(utc(year, month, day + 1), utc(year, month, day));
+      } else if (!this.#hours[wall.getUTCHours()]) {
+        const hour = new Date(Math.floor(wall.getTime() / HOUR) * HOUR);
+        skip(new Date(hour.getTime() + HOUR), hour);
+      } else if (!this.#minutes[wall.getUTCMinutes()]) {
+        const minute = new Date(Math.floor(wall.getTime() / MINUTE) * MINUTE);
+        skip(new Date(minute.getTime() + MINUTE), minute);
+      } else if (!this.#seconds[wall.getUTCSeconds()]) {
+        wall.setTime(wall.getTime() + direction * SECOND);
+      } else {
+        const instant = fromWallClock(wall, this.#zone);
+        // A repeated wall-clock time fires at its first occurrence only
+        if (forward ? instant > from : instant < from) return instant;
+        wall.setTime(wall.getTime() + direction * SECOND);
+      }
+    }
+  }
+}
+
+/**
+ * Yield the times `cron` fires at, as they come, in-process. A time that
+ * passes while the consumer is busy is skipped.
+ *
+ *     for await (const time of schedule("*\/5 * * * *")) {
+ *       console.log("running the job of", time);
+ *     }
+ */
+export async function* schedule(
+  cron: string | Cron,
+  options: ScheduleOptions = {},
+): AsyncIterableIterator<Date> {
+  const { signal } = options;
+  if (typeof cron === "string") cron = new Cron(cron, options);
+  let from = new Date();
+  while (true) {
+    const next = cron.next(from);
+    if (!next) return;
+    // Wait in steps, as setTimeout() can't wait that long at once
+    let remaining = next.getTime() - Date.now();
+    do {
+      await delay(Math.min(Math.max(remaining, 0), MAX_DELAY), { signal });
+      remaining = next.getTime() - Date.now();
+    } while (remaining > 0);
+    yield next;
+    from = new Date(Math.max(next.getTime(), Date.now()));
+  }
+}
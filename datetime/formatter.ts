@@ -7,6 +7,8 @@ import {
   TestResult,
   Tokenizer,
 } from "./tokenizer.ts";
+import type { Disambiguation, TimeZone } from "./timezone.ts";
+import { isoWeekDate, isoWeekOne, timeZoneOf, toWallClock } from "./_util.ts";
 
 function digits(value: string | number, count = 2): string {
   return String(value).padStart(count, "0");
@@ -16,26 +18,124 @@ function digits(value: string | number, count = 2): string {
 type DateTimeFormatPartTypes =
   | "day"
   | "dayPeriod"
-  // | "era"
+  | "era"
   | "hour"
   | "literal"
   | "minute"
   | "month"
   | "second"
   | "timeZoneName"
-  // | "weekday"
+  | "weekday"
   | "year"
-  | "fractionalSecond";
+  | "fractionalSecond"
+  | "quarter"
+  | "weekYear"
+  | "week";
 
 interface DateTimeFormatPart {
   type: DateTimeFormatPartTypes;
   value: string;
 }
 
-type TimeZone = "UTC";
+export interface Options {
+  /**
+   * Format and parse in this IANA time zone, e.g. `"America/New_York"`,
+   * instead of the local time zone of the host
+   */
+  timeZone?: string | TimeZone;
+  /**
+   * How a parsed wall-clock time in a DST gap or overlap of `timeZone` is
+   * resolved. Default is `"compatible"`
+   */
+  disambiguation?: Disambiguation;
+  /** The locale of the month, weekday and era names. Default is `"en-US"` */
+  locale?: string;
+}
+
+type NameStyle = "short" | "long";
+
+interface LocaleNames {
+  month: Record<NameStyle, string[]>;
+  // starting from Sunday
+  weekday: Record<NameStyle, string[]>;
+  // BC and AD
+  era: Record<NameStyle, string[]>;
+}
 
-interface Options {
-  timeZone?: TimeZone;
+const localeNamesCache = new Map<string, LocaleNames>();
+
+function localeNames(locale = "en-US"): LocaleNames {
+  let names = localeNamesCache.get(locale);
+  if (names) return names;
+  const namesOf = (
+    options: Intl.DateTimeFormatOptions,
+    type: string,
+    dates: Date[],
+  ) => {
+    const format = new Intl.DateTimeFormat(locale, {
+      ...options,
+      timeZone: "UTC",
+    });
+    return dates.map((date) =>
+      format.formatToParts(date).find((part) => part.type === type)!.value
+    );
+  };
+  const months = [...Array(12).keys()].map((i) => new Date(Date.UTC(2021, i)));
+  // 2021-01-03 is a Sunday
+  const weekdays = [...Array(7).keys()].map((i) =>
+    new Date(Date.UTC(2021, 0, 3 + i))
+  );
+  const eras = [new Date(Date.UTC(-100, 0)), new Date(Date.UTC(2021, 0))];
+  names = {
+    month: {
+      short: namesOf({ month: "short", day: "numeric" }, "month", months),
+      long: namesOf({ month: "long", day: "numeric" }, "month", months),
+    },
+    weekday: {
+      short: namesOf({ weekday: "short" }, "weekday", weekdays),
+      long: namesOf({ weekday: "long" }, "weekday", weekdays),
+    },
+    era: {
+      short: namesOf({ era: "short", year: "numeric" }, "era", eras),
+      long: namesOf({ era: "long", year: "numeric" }, "era", eras),
+    },
+  };
+  localeNamesCache.set(locale, names);
+  return names;
+}
+
+// The longest of `names` that `string` starts with, ignoring the case
+function matchName(string: string, names: string[]): string | undefined {
+  let match: string | undefined;
+  for (const name of names) {
+    const prefix = string.slice(0, name.length);
+    if (
+      prefix.toLowerCase() === name.toLowerCase() &&
+      name.length > (match?.length ?? 0)
+    ) {
+      match = prefix;
+    }
+  }
+  return match;
+}
+
+function indexOfName(value: string, names: string[]): number {
+  return names.findIndex((name) => name.toLowerCase() === value.toLowerCase());
+}
+
+function formatOffset(offset: number, style: string): string {
+  if (style === "iso" && offset === 0) return "Z";
+  const sign = offset < 0 ? "-" : "+";
+  const hours = digits(Math.floor(Math.abs(offset) / 60));
+  const minutes = digits(Math.abs(offset) % 60);
+  return `${sign}${hours}${style === "basic" ? "" : ":"}${minutes}`;
+}
+
+// The offset in minutes of a formatted offset
+function parseOffset(value: string): number {
+  if (value === "Z" || value === "UTC") return 0;
+  const [, sign, hours, minutes] = /^([+-])(\d{2}):?(\d{2})$/.exec(value)!;
+  return (sign === "-" ? -1 : 1) * (Number(hours) * 60 + Number(minutes));
 }
 
 function createLiteralTestFunction(value: string): TestFunction {
@@ -64,6 +164,14 @@ const defaultRules = [
     fn: (): CallbackResult => ({ type: "year", value: "2-digit" }),
   },
 
+  {
+    test: createLiteralTestFunction("MMMM"),
+    fn: (): CallbackResult => ({ type: "month", value: "long" }),
+  },
+  {
+    test: createLiteralTestFunction("MMM"),
+    fn: (): CallbackResult => ({ type: "month", value: "short" }),
+  },
   {
     test: createLiteralTestFunction("MM"),
     fn: (): CallbackResult => ({ type: "month", value: "2-digit" }),
@@ -81,6 +189,40 @@ const defaultRules = [
     fn: (): CallbackResult => ({ type: "day", value: "numeric" }),
   },
 
+  {
+    test: createLiteralTestFunction("EEEE"),
+    fn: (): CallbackResult => ({ type: "weekday", value: "long" }),
+  },
+  {
+    test: createLiteralTestFunction("EEE"),
+    fn: (): CallbackResult => ({ type: "weekday", value: "short" }),
+  },
+  {
+    test: createLiteralTestFunction("Q"),
+    fn: (): CallbackResult => ({ type: "quarter", value: "numeric" }),
+  },
+  // ISO week-numbering year and week
+  {
+    test: createLiteralTestFunction("YYYY"),
+    fn: (): CallbackResult => ({ type: "weekYear", value: "numeric" }),
+  },
+  {
+    test: createLiteralTestFunction("ww"),
+    fn: (): CallbackResult => ({ type: "week", value: "2-digit" }),
+  },
+  {
+    test: createLiteralTestFunction("w"),
+    fn: (): CallbackResult => ({ type: "week", value: "numeric" }),
+  },
+  {
+    test: createLiteralTestFunction("GGGG"),
+    fn: (): CallbackResult => ({ type: "era", value: "long" }),
+  },
+  {
+    test: createLiteralTestFunction("G"),
+    fn: (): CallbackResult => ({ type: "era", value: "short" }),
+  },
+
   {
     test: createLiteralTestFunction("HH"),
     fn: (): CallbackResult => ({ type: "hour", value: "2-digit" }),
@@ -142,12 +284,33 @@ const defaultRules = [
     }),
   },
 
-  // quoted literal
+  // offset: +05:30, Z
   {
-    test: createMatchTestFunction(/^(')(?<value>\\.|[^\']*)\1/),
+    test: createLiteralTestFunction("XXX"),
+    fn: (): CallbackResult => ({ type: "timeZoneName", value: "iso" }),
+  },
+  // offset: +0530
+  {
+    test: createLiteralTestFunction("ZZ"),
+    fn: (): CallbackResult => ({ type: "timeZoneName", value: "basic" }),
+  },
+  // offset: +05:30
+  {
+    test: createLiteralTestFunction("Z"),
+    fn: (): CallbackResult => ({ type: "timeZoneName", value: "extended" }),
+  },
+
+  // escaped quote
+  {
+    test: createLiteralTestFunction("''"),
+    fn: (): CallbackResult => ({ type: "literal", value: "'" }),
+  },
+  // quoted literal, in which '' is a quote
+  {
+    test: createMatchTestFunction(/^'(?<value>(?:[^']|'')*)'/),
     fn: (match: unknown): CallbackResult => ({
       type: "literal",
-      value: (match as RegExpExecArray).groups!.value as string,
+      value: (match as RegExpExecArray).groups!.value.replaceAll("''", "'"),
     }),
   },
   // literal
@@ -188,14 +351,21 @@ export class DateTimeFormatter {
   format(date: Date, options: Options = {}): string {
     let string = "";
 
-    const utc = options.timeZone === "UTC";
+    const zone = timeZoneOf(options.timeZone);
+    const utc = zone !== undefined;
+    const offset = zone ? zone.offsetAt(date) : -date.getTimezoneOffset();
+    // Format the wall-clock time of the zone as if it were in UTC
+    if (zone) date = new Date(date.getTime() + offset * 60e3);
+    // Years are years of the era when the era is formatted
+    const hasEra = this.#format.some((token) => token.type === "era");
 
     for (const token of this.#format) {
       const type = token.type;
 
       switch (type) {
         case "year": {
-          const value = utc ? date.getUTCFullYear() : date.getFullYear();
+          let value = utc ? date.getUTCFullYear() : date.getFullYear();
+          if (hasEra && value <= 0) value = 1 - value;
           switch (token.value) {
             case "numeric": {
               string += value;
@@ -223,6 +393,12 @@ export class DateTimeFormatter {
               string += digits(value, 2);
               break;
             }
+            case "short":
+            case "long": {
+              const names = localeNames(options.locale).month;
+              string += names[token.value][value - 1];
+              break;
+            }
             default:
               throw Error(
                 `FormatterError: value "${token.value}" is not supported`,
@@ -250,7 +426,7 @@ export class DateTimeFormatter {
         }
         case "hour": {
           let value = utc ? date.getUTCHours() : date.getHours();
-          value -= token.hour12 && date.getHours() > 12 ? 12 : 0;
+          value -= token.hour12 && value > 12 ? 12 : 0;
           switch (token.value) {
             case "numeric": {
               string += value;
@@ -310,13 +486,42 @@ export class DateTimeFormatter {
           string += digits(value, Number(token.value));
           break;
         }
-        // FIXME(bartlomieju)
+        case "weekday": {
+          const value = utc ? date.getUTCDay() : date.getDay();
+          const names = localeNames(options.locale).weekday;
+          string += names[token.value as NameStyle][value];
+          break;
+        }
+        case "quarter": {
+          const month = utc ? date.getUTCMonth() : date.getMonth();
+          string += Math.floor(month / 3) + 1;
+          break;
+        }
+        case "weekYear":
+        case "week": {
+          const weekDate = isoWeekDate(utc ? date : toWallClock(date));
+          if (type === "weekYear") {
+            string += weekDate.year;
+          } else {
+            string += token.value === "2-digit"
+              ? digits(weekDate.week, 2)
+              : weekDate.week;
+          }
+          break;
+        }
+        case "era": {
+          const year = utc ? date.getUTCFullYear() : date.getFullYear();
+          const names = localeNames(options.locale).era;
+          string += names[token.value as NameStyle][year > 0 ? 1 : 0];
+          break;
+        }
         case "timeZoneName": {
-          // string += utc ? "Z" : token.value
+          string += formatOffset(offset, token.value as string);
           break;
         }
         case "dayPeriod": {
-          string += token.value ? (date.getHours() >= 12 ? "PM" : "AM") : "";
+          const hours = utc ? date.getUTCHours() : date.getHours();
+          string += token.value ? (hours >= 12 ? "PM" : "AM") : "";
           break;
         }
         case "literal": {
@@ -332,7 +537,7 @@ export class DateTimeFormatter {
     return string;
   }
 
-  parseToParts(string: string): DateTimeFormatPart[] {
+  parseToParts(string: string, options: Options = {}): DateTimeFormatPart[] {
     const parts: DateTimeFormatPart[] = [];
 
     for (const token of this.#format) {
@@ -367,12 +572,10 @@ export class DateTimeFormatter {
               value = /^[a-zA-Z]+/.exec(string)?.[0] as string;
               break;
             }
-            case "short": {
-              value = /^[a-zA-Z]+/.exec(string)?.[0] as string;
-              break;
-            }
+            case "short":
             case "long": {
-              value = /^[a-zA-Z]+/.exec(string)?.[0] as string;
+              const names = localeNames(options.locale).month;
+              value = matchName(string, names[token.value]) as string;
               break;
             }
             default:
@@ -465,8 +668,32 @@ export class DateTimeFormatter {
             ?.[0] as string;
           break;
         }
+        case "weekday":
+        case "era": {
+          const names = localeNames(options.locale)[token.type];
+          value = matchName(string, names[token.value as NameStyle]) as string;
+          break;
+        }
+        case "quarter": {
+          value = /^[1-4]/.exec(string)?.[0] as string;
+          break;
+        }
+        case "weekYear": {
+          value = /^\d{1,4}/.exec(string)?.[0] as string;
+          break;
+        }
+        case "week": {
+          value = (token.value === "2-digit" ? /^\d{2}/ : /^\d{1,2}/)
+            .exec(string)?.[0] as string;
+          break;
+        }
         case "timeZoneName": {
-          value = token.value as string;
+          const match = token.value === "basic"
+            ? /^[+-]\d{4}/
+            : token.value === "iso"
+            ? /^(?:Z|[+-]\d{2}:\d{2})/
+            : /^[+-]\d{2}:\d{2}/;
+          value = match.exec(string)?.[0] as string;
           break;
         }
         case "dayPeriod": {
@@ -533,22 +760,44 @@ export class DateTimeFormatter {
     return result;
   }
 
-  partsToDate(parts: DateTimeFormatPart[]): Date {
-    const date = new Date();
-    const utc = parts.find(
-      (part) => part.type === "timeZoneName" && part.value === "UTC",
-    );
+  partsToDate(parts: DateTimeFormatPart[], options: Options = {}): Date {
+    const offsetPart = parts.find((part) => part.type === "timeZoneName");
+    const offset = offsetPart && parseOffset(offsetPart.value);
+    // A parsed offset takes precedence over the time zone
+    const zone = offsetPart ? undefined : timeZoneOf(options.timeZone);
+    // The fields are set as if in UTC and then resolved in the zone
+    const now = Date.now();
+    const date = offset !== undefined
+      ? new Date(now + offset * 60e3)
+      : zone
+      ? new Date(now + zone.offsetAt(now) * 60e3)
+      : new Date();
+    const utc = offset !== undefined || zone;
 
     utc ? date.setUTCHours(0, 0, 0, 0) : date.setHours(0, 0, 0, 0);
     for (const part of parts) {
       switch (part.type) {
         case "year": {
-          const value = Number(part.value.padStart(4, "20"));
+          let value = Number(part.value.padStart(4, "20"));
+          // The year of the era isn't completed to the 21st century
+          const era = parts.find((part) => part.type === "era");
+          if (era) {
+            const names = localeNames(options.locale).era;
+            const bc = indexOfName(era.value, names.short) === 0 ||
+              indexOfName(era.value, names.long) === 0;
+            value = bc ? 1 - Number(part.value) : Number(part.value);
+          }
           utc ? date.setUTCFullYear(value) : date.setFullYear(value);
           break;
         }
         case "month": {
-          const value = Number(part.value) - 1;
+          const names = localeNames(options.locale).month;
+          const value = /^\d+$/.test(part.value)
+            ? Number(part.value) - 1
+            : Math.max(
+              indexOfName(part.value, names.short),
+              indexOfName(part.value, names.long),
+            );
           utc ? date.setUTCMonth(value) : date.setMonth(value);
           break;
         }
@@ -581,14 +830,55 @@ export class DateTimeFormatter {
           utc ? date.setUTCMilliseconds(value) : date.setMilliseconds(value);
           break;
         }
+        case "quarter": {
+          if (parts.some((part) => part.type === "month")) break;
+          const value = (Number(part.value) - 1) * 3;
+          utc ? date.setUTCMonth(value, 1) : date.setMonth(value, 1);
+          break;
+        }
       }
     }
-    return date;
+
+    // An ISO week date sets the day, e.g. YYYY-'W'ww-EEE
+    const weekYear = parts.find((part) => part.type === "weekYear");
+    const week = parts.find((part) => part.type === "week");
+    if (weekYear && week) {
+      const weekday = parts.find((part) => part.type === "weekday");
+      const names = localeNames(options.locale).weekday;
+      const day = weekday
+        ? Math.max(
+          indexOfName(weekday.value, names.short),
+          indexOfName(weekday.value, names.long),
+        )
+        : 1;
+      const monday = isoWeekOne(Number(weekYear.value));
+      monday.setUTCDate(
+        monday.getUTCDate() + (Number(week.value) - 1) * 7 + (day + 6) % 7,
+      );
+      const [y, m, d] = [
+        monday.getUTCFullYear(),
+        monday.getUTCMonth(),
+        monday.getUTCDate(),
+      ];
+      utc ? date.setUTCFullYear(y, m, d) : date.setFullYear(y, m, d);
+    }
+
+    if (offset !== undefined) return new Date(date.getTime() - offset * 60e3);
+    if (!zone) return date;
+    return zone.toInstant({
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+      hour: date.getUTCHours(),
+      minute: date.getUTCMinutes(),
+      second: date.getUTCSeconds(),
+      millisecond: date.getUTCMilliseconds(),
+    }, options.disambiguation);
   }
 
-  parse(string: string): Date {
-    const parts = this.parseToParts(string);
+  parse(string: string, options: Options = {}): Date {
+    const parts = this.parseToParts(string, options);
     const sortParts = this.sortDateTimeFormatPart(parts);
-    return this.partsToDate(sortParts);
+    return this.partsToDate(sortParts, options);
   }
 }
@@ -0,0 +1,353 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+// ISO 8601 and RFC 3339 dates, times and durations.
+
+import type { Duration } from "./calendar.ts";
+import type { Disambiguation, TimeZone } from "./timezone.ts";
+import {
+  fromWallClock,
+  isoWeekDate,
+  isoWeekOne,
+  isoWeeksInYear,
+  timeZoneOf,
+} from "./_util.ts";
+
+const MINUTE = 60 * 1e3;
+const DAY = 24 * 60 * MINUTE;
+
+export interface ParseISOOptions {
+  /**
+   * The IANA time zone of a date or time without an offset. Default is the
+   * local time zone of the host
+   */
+  timeZone?: string | TimeZone;
+  /**
+   * How such a wall-clock time in a DST gap or overlap is resolved. Default
+   * is `"compatible"`
+   */
+  disambiguation?: Disambiguation;
+}
+
+export interface FormatISOOptions {
+  /**
+   * Format the wall-clock time and offset of this IANA time zone. Default is
+   * the local time zone of the host
+   */
+  timeZone?: string | TimeZone;
+  /** Format both the date and time, or only one of them. Default is `"complete"` */
+  representation?: "complete" | "date" | "time";
+  /**
+   * Format the date as `2021-02-03`, as the ISO week date `2021-W05-3` or as
+   * the ordinal date `2021-034`. Default is `"calendar"`
+   */
+  dateFormat?: "calendar" | "week" | "ordinal";
+  /** The number of digits of the fraction of a second, 0 to 3. Default is `3` */
+  fractionalDigits?: number;
+}
+
+const isoPattern = new RegExp(
+  "^(?<year>[+-]\\d{6}|\\d{4})-" +
+    "(?:(?<month>\\d{2})(?:-(?<day>\\d{2}))?|W(?<week>\\d{2})(?:-(?<weekday>\\d))?|(?<ordinal>\\d{3}))" +
+    "(?:[Tt ](?<hour>\\d{2}):(?<minute>\\d{2})(?::(?<second>\\d{2})(?:[.,](?<fraction>\\d+))?)?" +
+    "(?<offset>[Zz]|[+-]\\d{2}(?::?\\d{2})?)?)?$",
+);
+
+function utcDate(year: number, month: number, day: number): Date {
+  const date = new Date(0);
+  date.setUTCFullYear(year, month - 1, day);
+  return date;
+}
+
+function checkRange(value: number, min: number, max: number, name: string) {
+  if (!(value >= min && value <= max)) {
+    throw new RangeError(`${name} out of range: ${value}`);
+  }
+}
+
+/**
+ * Parse an ISO 8601 date or date-time, such as an RFC 3339 timestamp. The
+ * date is a calendar date (`2021-02-03`), a week date (`2021-W05-3`) or an
+ * ordinal date (`2021-034`), optionally followed by a time with `T` or a
+ * space, seconds, a fraction of a second and an offset (`Z` or `+05:30`).
+ * Dates and times without an offset are in `options.timeZone`, or else in the
+ * local time zone of the host. Throws a `SyntaxError` if `isoString` isn't in
+ * that format and a `RangeError` if a field is out of range.
+ *
+ * ```typescript
+ * parseISO("2021-02-03T04:05:06.789+05:30"); // => new Date("2021-02-02T22:35:06.789Z")
+ * parseISO("2021-W05-3", { timeZone: "UTC" }); // => new Date("2021-02-03T00:00:00Z")
+ * ```
+ */
+export function parseISO(
+  isoString: string,
+  options: ParseISOOptions = {},
+): Date {
+  const groups = isoPattern.exec(isoString)?.groups;
+  if (!groups) throw new SyntaxError(`invalid ISO 8601 date: ${isoString}`);
+  const year = Number(groups.year);
+  let date: Date;
+  if (groups.week) {
+    const week = Number(groups.week);
+    const weekday = Number(groups.weekday ?? 1);
+    checkRange(week, 1, isoWeeksInYear(year), "week");
+    checkRange(weekday, 1, 7, "weekday");
+    date = isoWeekOne(year);
+    date.setUTCDate(date.getUTCDate() + (week - 1) * 7 + weekday - 1);
+  } else if (groups.ordinal) {
+    const ordinal = Number(groups.ordinal);
+    const days = utcDate(year, 2, 29).getUTCMonth() === 1 ? 366 : 365;
+    checkRange(ordinal, 1, days, "day of year");
+    date = utcDate(year, 1, ordinal);
+  } else {
+    const month = Number(groups.month);
+    const day = Number(groups.day ?? 1);
+    checkRange(month, 1, 12, "month");
+    checkRange(day, 1, utcDate(year, month + 1, 0).getUTCDate(), "day");
+    date = utcDate(year, month, day);
+  }
+  if (groups.hour) {
+    const hour = Number(groups.hour);
+    const minute = Number(groups.minute);
+    const second = Number(groups.second ?? 0);
+    checkRange(hour, 0, 23, "hour");
+    checkRange(minute, 0, 59, "minute");
+    checkRange(second, 0, 59, "second");
+    const millisecond = Number(
+      (groups.fraction ?? "").padEnd(3, "0").slice(0, 3),
+    );
+    date.setUTCHours(hour, minute, second, millisecond);
+  }
+
+  const { offset } = groups;
+  if (offset) {
+    if (offset === "Z" || offset === "z") return date;
+    const [, sign, hours, minutes = "0"] = /^([+-])(\d{2}):?(\d{2})?$/.exec(
+      offset,
+    )!;
+    checkRange(Number(hours), 0, 23, "offset hours");
+    checkRange(Number(minutes), 0, 59, "offset minutes");
+    const minutesEast = (sign === "-" ? -1 : 1) *
+      (Number(hours) * 60 + Number(minutes));
+    return new Date(date.getTime() - minutesEast * MINUTE);
+  }
+  return fromWallClock(
+    date,
+    timeZoneOf(options.timeZone),
+    options.disambiguation,
+  );
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, "0");
+}
+
+function formatYear(year: number): string {
+  if (year >= 0 && year <= 9999) return pad(year, 4);
+  return (year < 0 ? "-" : "+") + pad(Math.abs(year), 6);
+}
+
+/**
+ * Format `date` in the ISO 8601 extended format, with the offset of the time
+ * zone, e.g. `2021-02-03T04:05:06.789+05:30`. The complete representation in
+ * the calendar date format is an RFC 3339 timestamp.
+ *
+ * ```typescript
+ * formatISO(new Date("2021-02-03T12:00:00Z"), { timeZone: "America/New_York" });
+ * // => "2021-02-03T07:00:00.000-05:00"
+ * ```
+ */
+export function formatISO(date: Date, options: FormatISOOptions = {}): string {
+  const {
+    timeZone,
+    representation = "complete",
+    dateFormat = "calendar",
+    fractionalDigits = 3,
+  } = options;
+  checkRange(fractionalDigits, 0, 3, "fractionalDigits");
+  const offset = timeZone === undefined
+    ? -date.getTimezoneOffset()
+    : timeZoneOf(timeZone)!.offsetAt(date);
+  const local = new Date(date.getTime() + offset * MINUTE);
+
+  let dateString: string;
+  switch (dateFormat) {
+    case "calendar":
+      dateString = `${formatYear(local.getUTCFullYear())}-${
+        pad(local.getUTCMonth() + 1)
+      }-${pad(local.getUTCDate())}`;
+      break;
+    case "week": {
+      const { year, week, weekday } = isoWeekDate(local);
+      dateString = `${formatYear(year)}-W${pad(week)}-${weekday}`;
+      break;
+    }
+    case "ordinal": {
+      const year = local.getUTCFullYear();
+      const ordinal = Math.floor(
+        (local.getTime() - utcDate(year, 1, 1).getTime()) / DAY,
+      ) + 1;
+      dateString = `${formatYear(year)}-${pad(ordinal, 3)}`;
+      break;
+    }
+    default:
+      throw new RangeError(`invalid dateFormat: ${dateFormat}`);
+  }
+  if (representation === "date") return dateString;
+
+  let timeString = `${pad(local.getUTCHours())}:${pad(local.getUTCMinutes())}:${
+    pad(local.getUTCSeconds())
+  }`;
+  if (fractionalDigits > 0) {
+    timeString += "." +
+      pad(local.getUTCMilliseconds(), 3).slice(0, fractionalDigits);
+  }
+  const absOffset = Math.abs(offset);
+  timeString += offset === 0
+    ? "Z"
+    : `${offset < 0 ? "-" : "+"}${pad(Math.floor(absOffset / 60))}:${
+      pad(absOffset % 60)
+    }`;
+  if (representation === "time") return timeString;
+  return `${dateString}T${timeString}`;
+}
+
+const durationPattern =
+  /^([+-])?P(?!$)(?:(\d+)Y)?(?:(\d+)M)?(?:(\d+)W)?(?:(\d+)D)?(?:T(?!$)(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)(?:[.,](\d+))?S)?)?$/;
+
+/**
+ * Parse an ISO 8601 duration such as `P1Y2M3DT4H5M6.7S` or `P2W`, with an
+ * optional leading sign that applies to all its units. The fraction of a
+ * second is truncated to milliseconds. The result can be passed to `add()`.
+ *
+ * ```typescript
+ * parseDuration("P1Y2M3DT4H"); // => { years: 1, months: 2, days: 3, hours: 4 }
+ * ```
+ */
+export function parseDuration(isoString: string): Duration {
+  const match = durationPattern.exec(isoString);
+  if (!match) {
+    throw new SyntaxError(`invalid ISO 8601 duration: ${isoString}`);
+  }
+  const [, sign, ...values] = match;
+  const fraction = values.pop();
+  const units = [
+    "years",
+    "months",
+    "weeks",
+    "days",
+    "hours",
+    "minutes",
+    "seconds",
+  ] as const;
+  const duration: Duration = {};
+  const factor = sign === "-" ? -1 : 1;
+  units.forEach((unit, i) => {
+    if (values[i] !== undefined) duration[unit] = factor * Number(values[i]);
+  });
+  if (fraction !== undefined) {
+    duration.milliseconds = factor *
+      Number(fraction.padEnd(3, "0").slice(0, 3));
+  }
+  return duration;
+}
+
+/**
+ * Format `duration` as an ISO 8601 duration, such as `P1Y2M3DT4H5M6.7S`.
+ * Milliseconds are formatted as a fraction of the seconds. The units must be
+ * integers with the same sign; a negative duration gets a leading `-`.
+ *
+ * ```typescript
+ * formatDuration({ days: 1, hours: 12 }); // => "P1DT12H"
+ * ```
+ */
+export function formatDuration(duration: Duration): string {
+  const values = Object.values(duration).filter((v) => v !== undefined);
+  for (const value of values) {
+    if (!Number.isInteger(value)) {
+      throw new RangeError(`duration units must be integers: ${value}`);
+    }
+  }
+  const negative = values.some((v) => v < 0);
+  if (negative && values.some((v) => v > 0)) {
+    throw new RangeError("duration units must have the same sign");
+  }
+  const abs = (value = 0) => Math.abs(value);
+  const {
+    years,
+    months,
+    weeks,
+    days,
+    hours,
+    minutes,
+    seconds,
+    milliseconds,
+  } = duration;
+  let date = "";
+  if (abs(years)) date += `${abs(years)}Y`;
+  if (abs(months)) date += `${abs(months)}M`;
+  if (abs(weeks)) date += `${abs(weeks)}W`;
+  if (abs(days)) date += `${abs(days)}D`;
+  let time = "";
+  if (abs(hours)) time += `${abs(hours)}H`;
+  if (abs(minutes)) time += `${abs(minutes)}M`;
+  const totalMilliseconds = abs(seconds) * 1e3 + abs(milliseconds);
+  if (totalMilliseconds) {
+    const fraction = pad(totalMilliseconds % 1e3, 3).replace(/0+$/, "");
+    time += `${Math.floor(totalMilliseconds / 1e3)}${
+      fraction ? `.${fraction}` : ""
+    }S`;
+  }
+  if (!date && !time) return "PT0S";
+  return `${negative ? "-" : ""}P${date}${time ? `T${time}` : ""}`;
+}
+
+/**
+ * Balance the units of `duration`: milliseconds into seconds, seconds into
+ * minutes, minutes into hours and hours into days, assuming 24-hour days,
+ * days into weeks and months into years. The units that end up as 0 are
+ * omitted. Days aren't balanced into months as their lengths vary.
+ *
+ * ```typescript
+ * normalizeDuration({ months: 14, hours: 30, minutes: 90 });
+ * // => { years: 1, months: 2, days: 1, hours: 7, minutes: 30 }
+ * ```
+ */
+export function normalizeDuration(duration: Duration): Duration {
+  const {
+    years = 0,
+    months = 0,
+    weeks = 0,
+    days = 0,
+    hours = 0,
+    minutes = 0,
+    seconds = 0,
+    milliseconds = 0,
+  } = duration;
+  const totalMonths = years * 12 + months;
+  const totalMilliseconds = (((hours * 60) + minutes) * 60 + seconds) * 1e3 +
+    milliseconds;
+  const totalDays = weeks * 7 + days + Math.trunc(totalMilliseconds / DAY);
+  // Each unit gets the sign of the total it's taken from
+  const split = (total: number, size: number) => [
+    Math.trunc(total / size),
+    total % size,
+  ];
+  const result: Duration = {};
+  const set = (unit: keyof Duration, value: number) => {
+    // avoid -0
+    if (value !== 0) result[unit] = value;
+  };
+  const [y, mo] = split(totalMonths, 12);
+  set("years", y);
+  set("months", mo);
+  const [w, d] = split(totalDays, 7);
+  set("weeks", w);
+  set("days", d);
+  let rest = totalMilliseconds % DAY;
+  set("hours", Math.trunc(rest / (60 * MINUTE)));
+  rest %= 60 * MINUTE;
+  set("minutes", Math.trunc(rest / MINUTE));
+  rest %= MINUTE;
+  set("seconds", Math.trunc(rest / 1e3));
+  set("milliseconds", rest % 1e3);
+  return result;
+}
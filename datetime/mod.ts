@@ -1,6 +1,12 @@
 // Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
 
-import { DateTimeFormatter } from "./formatter.ts";
+import { DateTimeFormatter, Options } from "./formatter.ts";
+
+export * from "./calendar.ts";
+export * from "./cron.ts";
+export * from "./iso.ts";
+export * from "./relative.ts";
+export * from "./timezone.ts";
 
 export const SECOND = 1e3;
 export const MINUTE = SECOND * 60;
@@ -23,24 +29,35 @@ enum Day {
  * Parse date from string using format string
  * @param dateString Date string
  * @param format Format string
+ * @param options Time zone of the date string and resolution of DST gaps and
+ * overlaps in it
  * @return Parsed date
  */
-export function parse(dateString: string, formatString: string): Date {
+export function parse(
+  dateString: string,
+  formatString: string,
+  options: Options = {},
+): Date {
   const formatter = new DateTimeFormatter(formatString);
-  const parts = formatter.parseToParts(dateString);
+  const parts = formatter.parseToParts(dateString, options);
   const sortParts = formatter.sortDateTimeFormatPart(parts);
-  return formatter.partsToDate(sortParts);
+  return formatter.partsToDate(sortParts, options);
 }
 
 /**
  * Format date using format string
  * @param date Date
  * @param format Format string
+ * @param options Time zone to format the date in
  * @return formatted date string
  */
-export function format(date: Date, formatString: string): string {
+export function format(
+  date: Date,
+  formatString: string,
+  options: Options = {},
+): string {
   const formatter = new DateTimeFormatter(formatString);
-  return formatter.format(date);
+  return formatter.format(date, options);
 }
 
 /**
@@ -212,8 +229,8 @@ export function difference(
       case "quarters":
         differences.quarters = Math.floor(
           (typeof differences.months !== "undefined" &&
-            differences.months / 4) ||
-            calculateMonthsDifference(bigger, smaller) / 4,
+            differences.months / 3) ||
+            calculateMonthsDifference(bigger, smaller) / 3,
         );
         break;
       case "years":
@@ -239,11 +256,7 @@ function calculateMonthsDifference(bigger: number, smaller: number): number {
   biggerDate.setMonth(
     biggerDate.getMonth() - compareResult * calendarDifferences,
   );
-  const isLastMonthNotFull = biggerDate > smallerDate
-    ? 1
-    : -1 === -compareResult
-    ? 1
-    : 0;
+  const isLastMonthNotFull = biggerDate < smallerDate ? 1 : 0;
   const months = compareResult * (calendarDifferences - isLastMonthNotFull);
   return months === 0 ? 0 : months;
 }
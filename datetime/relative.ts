@@ -0,0 +1,275 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+import { add, CalendarOptions, Duration } from "./calendar.ts";
+import { difference, Unit } from "./mod.ts";
+import { fromWallClock, timeZoneOf, toWallClock } from "./_util.ts";
+
+export type RelativeUnit = Exclude<Unit, "milliseconds">;
+
+export interface FormatRelativeOptions {
+  /** Default is `"en-US"` */
+  locale?: string;
+  /**
+   * The units to choose from. The largest one in which the dates are at
+   * least 1 apart is used. Default is all of them but `"quarters"`
+   */
+  units?: RelativeUnit[];
+  /** How the amount of the unit is rounded. Default is `"round"` */
+  rounding?: "floor" | "round" | "ceil";
+  /** `"auto"` allows phrases like "yesterday". Default is `"always"` */
+  numeric?: "always" | "auto";
+  /** Default is `"long"` */
+  style?: "long" | "short" | "narrow";
+}
+
+const relativeUnits: RelativeUnit[] = [
+  "years",
+  "quarters",
+  "months",
+  "weeks",
+  "days",
+  "hours",
+  "minutes",
+  "seconds",
+];
+
+const unitLengths: Partial<Record<RelativeUnit, number>> = {
+  weeks: 7 * 24 * 60 * 60 * 1e3,
+  days: 24 * 60 * 60 * 1e3,
+  hours: 60 * 60 * 1e3,
+  minutes: 60 * 1e3,
+  seconds: 1e3,
+};
+
+// The exact number of months between the dates, with a fraction
+function monthsBetween(smaller: Date, bigger: Date, whole: number): number {
+  const start = add(smaller, { months: whole });
+  const end = add(smaller, { months: whole + 1 });
+  const fraction = (bigger.getTime() - start.getTime()) /
+    (end.getTime() - start.getTime());
+  return whole + Math.min(Math.max(fraction, 0), 1);
+}
+
+/**
+ * Format the time from `base` to `date` like "3 minutes ago" or "in 2 days",
+ * with `Intl.RelativeTimeFormat`. The amount is taken from `difference()` in
+ * the largest of `options.units` in which it's at least 1, and rounded with
+ * the part of the next unit that has passed.
+ *
+ * ```typescript
+ * const base = new Date("2021-05-19T12:00:00Z");
+ * formatRelative(new Date("2021-05-19T11:57:00Z"), base); // => "3 minutes ago"
+ * formatRelative(new Date("2021-05-21T10:00:00Z"), base); // => "in 2 days"
+ * ```
+ */
+export function formatRelative(
+  date: Date,
+  base: Date = new Date(),
+  options: FormatRelativeOptions = {},
+): string {
+  const {
+    locale = "en-US",
+    units = relativeUnits.filter((unit) => unit !== "quarters"),
+    rounding = "round",
+    numeric = "always",
+    style = "long",
+  } = options;
+  const selected = relativeUnits.filter((unit) => units.includes(unit));
+  if (selected.length === 0) {
+    throw new RangeError(`no supported units in: ${units.join(", ")}`);
+  }
+  const whole = difference(date, base, { units: ["months", ...selected] });
+  const unit = selected.find((unit) => whole[unit]! >= 1) ??
+    selected[selected.length - 1];
+
+  const [smaller, bigger] = date < base ? [date, base] : [base, date];
+  const length = unitLengths[unit];
+  let amount: number;
+  if (length) {
+    amount = (bigger.getTime() - smaller.getTime()) / length;
+  } else {
+    amount = monthsBetween(smaller, bigger, whole.months!) /
+      (unit === "years" ? 12 : unit === "quarters" ? 3 : 1);
+  }
+  amount = Math[rounding](amount);
+
+  const format = new Intl.RelativeTimeFormat(locale, { numeric, style });
+  return format.format(
+    date < base ? -amount : amount,
+    unit.slice(0, -1) as Intl.RelativeTimeFormatUnit,
+  );
+}
+
+const weekdays = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+const unitNames: Record<string, keyof Duration> = {
+  s: "seconds",
+  sec: "seconds",
+  secs: "seconds",
+  second: "seconds",
+  seconds: "seconds",
+  m: "minutes",
+  min: "minutes",
+  mins: "minutes",
+  minute: "minutes",
+  minutes: "minutes",
+  h: "hours",
+  hr: "hours",
+  hrs: "hours",
+  hour: "hours",
+  hours: "hours",
+  d: "days",
+  day: "days",
+  days: "days",
+  w: "weeks",
+  wk: "weeks",
+  wks: "weeks",
+  week: "weeks",
+  weeks: "weeks",
+  mo: "months",
+  month: "months",
+  months: "months",
+  y: "years",
+  yr: "years",
+  yrs: "years",
+  year: "years",
+  years: "years",
+};
+
+// "2 days and 3 hours", "an hour", "1h30m"
+function parseAmounts(text: string, sign: number): Duration | undefined {
+  const pattern = /(\d+|an?)\s*([a-z]+)(?:\s*,\s*|\s+and\s+|\s*)/gy;
+  const duration: Duration = {};
+  let match: RegExpExecArray | null;
+  let end = 0;
+  while ((match = pattern.exec(text))) {
+    const unit = unitNames[match[2]];
+    if (!unit) return undefined;
+    const amount = /^\d+$/.test(match[1]) ? Number(match[1]) : 1;
+    duration[unit] = (duration[unit] ?? 0) + sign * amount;
+    end = pattern.lastIndex;
+  }
+  return end === text.length && end > 0 ? duration : undefined;
+}
+
+// "5pm", "5:30 pm", "17:00", "noon" and "midnight" as [hours, minutes]
+function parseTime(text: string): [number, number] | undefined {
+  if (text === "noon") return [12, 0];
+  if (text === "midnight") return [0, 0];
+  const match = /^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/.exec(text);
+  if (!match || (!match[2] && !match[3])) return undefined;
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  if (match[3]) {
+    if (hours < 1 || hours > 12) return undefined;
+    hours = hours % 12 + (match[3] === "pm" ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59) return undefined;
+  return [hours, minutes];
+}
+
+const timePattern =
+  /(?:^|\s+)(?:at\s+)?(noon|midnight|\d{1,2}(?::\d{2})?\s*(?:am|pm)|\d{1,2}:\d{2})$/;
+
+/**
+ * Parse a relative date, relative to `base`. It understands:
+ * - offsets: `-2h`, `+1d12h`, `in 3 days`, `2 hours ago`,
+ *   `an hour and 30 minutes from now`
+ * - days: `now`, `today`, `tomorrow`, `yesterday`, `friday` (today or the
+ *   next Friday), `next tuesday`, `last friday`, `next week`, `last month`
+ * - days at a time: `tomorrow 9am`, `next tuesday at 5pm`, `friday 17:30`,
+ *   `noon`. Days without a time are at midnight, except for `next week`,
+ *   `next month` and `next year`, which keep the time of `base`.
+ *
+ * The days are in the local time zone of the host or in `options.timeZone`.
+ * Throws a `SyntaxError` describing the accepted forms if `input` isn't one
+ * of them.
+ *
+ * ```typescript
+ * parseRelative("-2h"); // => 2 hours ago
+ * parseRelative("next tuesday 5pm");
+ * ```
+ */
+export function parseRelative(
+  input: string,
+  base: Date = new Date(),
+  options: CalendarOptions = {},
+): Date {
+  const text = input.trim().toLowerCase().replace(/\s+/g, " ");
+  const error = () =>
+    new SyntaxError(
+      `cannot parse relative date "${input}": expected an offset such as ` +
+        `"-2h", "in 3 days" or "2 hours ago", or a day such as "tomorrow", ` +
+        `"next tuesday" or "friday", optionally followed by a time such as ` +
+        `"5pm" or "17:30"`,
+    );
+
+  // Offsets
+  let match = /^([+-])?\s*((?:\d+\s*[a-z]+\s*)+)$/.exec(text);
+  if (match && /^[+-]|^\d+[a-z]+(?:\d+[a-z]+)*$/.test(text)) {
+    const duration = parseAmounts(match[2].trim(), match[1] === "-" ? -1 : 1);
+    if (duration) return add(base, duration, options);
+  }
+  match = /^in (.+)$/.exec(text) ?? /^(.+) from now$/.exec(text);
+  if (match) {
+    const duration = parseAmounts(match[1], 1);
+    if (!duration) throw error();
+    return add(base, duration, options);
+  }
+  match = /^(.+) ago$/.exec(text);
+  if (match) {
+    const duration = parseAmounts(match[1], -1);
+    if (!duration) throw error();
+    return add(base, duration, options);
+  }
+
+  // Days, at a time
+  let day = text;
+  let time: [number, number] | undefined;
+  const timeMatch = timePattern.exec(text);
+  if (timeMatch) {
+    time = parseTime(timeMatch[1]);
+    if (!time) throw error();
+    day = text.slice(0, timeMatch.index);
+  }
+  if (day === "now" && !time) return new Date(base);
+
+  let date: Date;
+  match = /^(?:(next|last|this) )?([a-z]+)$/.exec(day);
+  if ((day === "" && time) || day === "today") {
+    date = base;
+  } else if (day === "tomorrow" || day === "yesterday") {
+    date = add(base, { days: day === "tomorrow" ? 1 : -1 }, options);
+  } else if (match && weekdays.includes(match[2])) {
+    const zone = timeZoneOf(options.timeZone);
+    const current = toWallClock(base, zone).getUTCDay();
+    const target = weekdays.indexOf(match[2]);
+    const days = match[1] === "next"
+      ? (target - current + 7) % 7 || 7
+      : match[1] === "last"
+      ? -((current - target + 7) % 7 || 7)
+      : (target - current + 7) % 7;
+    date = add(base, { days }, options);
+  } else if (
+    match && (match[1] === "next" || match[1] === "last") &&
+    ["week", "month", "year"].includes(match[2])
+  ) {
+    const unit = unitNames[match[2]];
+    date = add(base, { [unit]: match[1] === "next" ? 1 : -1 }, options);
+    if (!time) return date;
+  } else {
+    throw error();
+  }
+
+  const zone = timeZoneOf(options.timeZone);
+  const wall = toWallClock(date, zone);
+  wall.setUTCHours(time?.[0] ?? 0, time?.[1] ?? 0, 0, 0);
+  return fromWallClock(wall, zone);
+}
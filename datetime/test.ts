@@ -1,5 +1,10 @@
 // Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
-import { assert, assertEquals, assertThrows } from "../testing/asserts.ts";
+import {
+  assert,
+  assertEquals,
+  assertThrows,
+  assertThrowsAsync,
+} from "../testing/asserts.ts";
 import * as datetime from "./mod.ts";
 
 Deno.test({
@@ -369,6 +374,25 @@ Deno.test({
     assertEquals(difference.months, 23);
     assertEquals(difference.years, 1);
 
+    // whole months and years end on the same day of the month
+    const may = new Date("2021/5/19");
+    for (const other of [new Date("2022/5/19"), new Date("2020/5/19")]) {
+      difference = datetime.difference(may, other, {
+        units: ["months", "quarters", "years"],
+      });
+      assertEquals(difference.months, 12);
+      assertEquals(difference.quarters, 4);
+      assertEquals(difference.years, 1);
+    }
+    difference = datetime.difference(may, new Date("2021/6/19"), {
+      units: ["months"],
+    });
+    assertEquals(difference.months, 1);
+    difference = datetime.difference(may, new Date("2021/6/18 23:59"), {
+      units: ["months"],
+    });
+    assertEquals(difference.months, 0);
+
     const birth = new Date("1998/2/23 10:10:10");
     const old = new Date("1998/2/23 11:11:11");
     difference = datetime.difference(birth, old, {
@@ -391,3 +415,890 @@ Deno.test({
     assertEquals(datetime.WEEK, datetime.DAY * 7);
   },
 });
+
+Deno.test({
+  name: "[std/datetime] TimeZone offsets and abbreviations",
+  fn(): void {
+    const newYork = datetime.TimeZone.of("America/New_York");
+    assertEquals(newYork.offsetAt(new Date("2021-01-15T12:00:00Z")), -300);
+    assertEquals(newYork.offsetAt(new Date("2021-07-15T12:00:00Z")), -240);
+    assertEquals(
+      newYork.abbreviationAt(new Date("2021-07-15T12:00:00Z")),
+      "EDT",
+    );
+    // the transitions are at 02:00 local time
+    assertEquals(newYork.offsetAt(new Date("2021-03-14T06:59:59Z")), -300);
+    assertEquals(newYork.offsetAt(new Date("2021-03-14T07:00:00Z")), -240);
+    assertEquals(newYork.offsetAt(new Date("2021-11-07T05:59:59Z")), -240);
+    assertEquals(newYork.offsetAt(new Date("2021-11-07T06:00:00Z")), -300);
+
+    const kolkata = datetime.TimeZone.of("Asia/Calcutta");
+    assertEquals(kolkata.name, "Asia/Kolkata");
+    assertEquals(kolkata.offsetAt(new Date("2021-07-15T12:00:00Z")), 330);
+    assertEquals(kolkata.isDst(new Date("2021-07-15T12:00:00Z")), false);
+
+    // southern hemisphere
+    const sydney = datetime.TimeZone.of("Australia/Sydney");
+    assertEquals(sydney.offsetAt(new Date("2021-01-15T00:00:00Z")), 660);
+    assertEquals(sydney.offsetAt(new Date("2021-07-15T00:00:00Z")), 600);
+    assertEquals(sydney.offsetAt(new Date("2021-04-03T15:59:59Z")), 660);
+    assertEquals(sydney.offsetAt(new Date("2021-04-03T16:00:00Z")), 600);
+
+    const london = datetime.TimeZone.of("Europe/London");
+    assertEquals(london.toWallTime(new Date("2021-06-01T23:30:00Z")), {
+      year: 2021,
+      month: 6,
+      day: 2,
+      hour: 0,
+      minute: 30,
+      second: 0,
+      millisecond: 0,
+    });
+    assertThrows(
+      () => datetime.TimeZone.of("Mars/Olympus_Mons"),
+      RangeError,
+      "unknown time zone",
+    );
+    assert(datetime.supportedTimeZones().includes("Europe/Paris"));
+    assertEquals(datetime.TimeZone.of("europe/kiev").name, "Europe/Kyiv");
+    assertEquals(datetime.TimeZone.of("US/Eastern"), newYork);
+  },
+});
+
+Deno.test({
+  name: "[std/datetime] TimeZone history",
+  fn(): void {
+    // before the US rules of 2007, DST started in April
+    const newYork = datetime.TimeZone.of("America/New_York");
+    assertEquals(newYork.offsetAt(new Date("2006-04-01T12:00:00Z")), -300);
+    assertEquals(newYork.offsetAt(new Date("2006-04-02T07:00:00Z")), -240);
+    assertEquals(newYork.isDst(new Date("2006-04-01T12:00:00Z")), false);
+    assertEquals(
+      newYork.toInstant({ year: 2006, month: 4, day: 2, hour: 2, minute: 30 }),
+      new Date("2006-04-02T07:30:00Z"),
+    );
+    // Moscow stayed on UTC+4 from 2011 to 2014
+    const moscow = datetime.TimeZone.of("Europe/Moscow");
+    assertEquals(moscow.offsetAt(new Date("2012-06-15T12:00:00Z")), 240);
+    assertEquals(
+      moscow.abbreviationAt(new Date("2012-06-15T12:00:00Z")),
+      "MSK",
+    );
+    assertEquals(moscow.isDst(new Date("2010-06-15T12:00:00Z")), true);
+    assertEquals(moscow.offsetAt(new Date("2021-06-15T12:00:00Z")), 180);
+    // Brazil dropped DST in 2019
+    const saoPaulo = datetime.TimeZone.of("America/Sao_Paulo");
+    assertEquals(saoPaulo.offsetAt(new Date("2018-01-01T12:00:00Z")), -120);
+    assertEquals(saoPaulo.offsetAt(new Date("2021-01-01T12:00:00Z")), -180);
+    assertEquals(
+      datetime.format(new Date("2006-04-01T12:00:00Z"), "yyyy-MM-dd HH:mm", {
+        timeZone: newYork,
+      }),
+      "2006-04-01 07:00",
+    );
+  },
+});
+
+Deno.test({
+  name: "[std/datetime] TimeZone DST gaps and overlaps",
+  fn(): void {
+    const zone = datetime.TimeZone.of("America/New_York");
+    const gap = { year: 2021, month: 3, day: 14, hour: 2, minute: 30 };
+    assertEquals(zone.possibleInstants(gap), []);
+    assertEquals(zone.toInstant(gap), new Date("2021-03-14T07:30:00Z"));
+    assertEquals(
+      zone.toInstant(gap, "later"),
+      new Date("2021-03-14T07:30:00Z"),
+    );
+    assertEquals(
+      zone.toInstant(gap, "earlier"),
+      new Date("2021-03-14T06:30:00Z"),
+    );
+    assertThrows(() => zone.toInstant(gap, "reject"), RangeError, "exist");
+
+    const overlap = { year: 2021, month: 11, day: 7, hour: 1, minute: 30 };
+    assertEquals(zone.possibleInstants(overlap), [
+      new Date("2021-11-07T05:30:00Z"),
+      new Date("2021-11-07T06:30:00Z"),
+    ]);
+    assertEquals(zone.toInstant(overlap), new Date("2021-11-07T05:30:00Z"));
+    assertEquals(
+      zone.toInstant(overlap, "later"),
+      new Date("2021-11-07T06:30:00Z"),
+    );
+    assertThrows(
+      () => zone.toInstant(overlap, "reject"),
+      RangeError,
+      "ambiguous",
+    );
+  },
+});
+
+Deno.test({
+  name: "[std/datetime] format and parse with timeZone",
+  fn(): void {
+    const date = new Date("2021-03-14T07:30:00Z");
+    assertEquals(
+      datetime.format(date, "yyyy-MM-dd HH:mm", {
+        timeZone: "America/New_York",
+      }),
+      "2021-03-14 03:30",
+    );
+    assertEquals(
+      datetime.format(date, "yyyy-MM-dd hh:mm a", { timeZone: "Asia/Kolkata" }),
+      "2021-03-14 01:00 PM",
+    );
+    assertEquals(
+      datetime.parse("2021-03-14 13:00", "yyyy-MM-dd HH:mm", {
+        timeZone: "Asia/Kolkata",
+      }),
+      date,
+    );
+    assertEquals(
+      datetime.parse("2021-11-07 01:30", "yyyy-MM-dd HH:mm", {
+        timeZone: datetime.TimeZone.of("America/New_York"),
+        disambiguation: "later",
+      }),
+      new Date("2021-11-07T06:30:00Z"),
+    );
+    assertThrows(
+      () =>
+        datetime.parse("2021-03-14 02:30", "yyyy-MM-dd HH:mm", {
+          timeZone: "America/New_York",
+          disambiguation: "reject",
+        }),
+      RangeError,
+    );
+  },
+});
+
+Deno.test({
+  name: "[std/datetime] add and subtract",
+  fn(): void {
+    // month-end clamping
+    assertEquals(
+      datetime.add(new Date(2021, 0, 31), { months: 1 }),
+      new Date(2021, 1, 28),
+    );
+    assertEquals(
+      datetime.add(new Date(2020, 0, 31), { months: 1 }),
+      new Date(2020, 1, 29),
+    );
+    assertEquals(
+      datetime.add(new Date(2020, 1, 29), { years: 1 }),
+      new Date(2021, 1, 28),
+    );
+    assertEquals(
+      datetime.add(new Date(2021, 0, 31), { months: 1, days: 1 }),
+      new Date(2021, 2, 1),
+    );
+    assertEquals(
+      datetime.subtract(new Date(2021, 2, 31, 10), { months: 1, hours: 2 }),
+      new Date(2021, 1, 28, 8),
+    );
+    assertEquals(
+      datetime.add(new Date(2021, 11, 15), { months: 14, weeks: 1 }),
+      new Date(2023, 1, 22),
+    );
+    assertThrows(
+      () => datetime.add(new Date(), { months: 1.5 }),
+      RangeError,
+      "months must be an integer",
+    );
+
+    // days keep the wall-clock time across DST, hours don't
+    const timeZone = "America/New_York";
+    const date = new Date("2021-03-13T17:00:00Z"); // 12:00 EST
+    assertEquals(
+      datetime.add(date, { days: 1 }, { timeZone }),
+      new Date("2021-03-14T16:00:00Z"),
+    );
+    assertEquals(
+      datetime.add(date, { hours: 24 }, { timeZone }),
+      new Date("2021-03-14T17:00:00Z"),
+    );
+  },
+});
+
+Deno.test({
+  name: "[std/datetime] startOf and endOf",
+  fn(): void {
+    const date = new Date(2021, 4, 19, 10, 20, 30, 400); // Wednesday
+    assertEquals(datetime.startOf(date, "year"), new Date(2021, 0, 1));
+    assertEquals(datetime.startOf(date, "quarter"), new Date(2021, 3, 1));
+    assertEquals(datetime.startOf(date, "month"), new Date(2021, 4, 1));
+    assertEquals(datetime.startOf(date, "week"), new Date(2021, 4, 17));
+    assertEquals(
+      datetime.startOf(date, "week", { weekStartsOn: 0 }),
+      new Date(2021, 4, 16),
+    );
+    assertEquals(datetime.startOf(date, "day"), new Date(2021, 4, 19));
+    assertEquals(
+      datetime.startOf(date, "minute"),
+      new Date(2021, 4, 19, 10, 20),
+    );
+    assertEquals(
+      datetime.endOf(date, "month"),
+      new Date(2021, 4, 31, 23, 59, 59, 999),
+    );
+    assertEquals(
+      datetime.endOf(new Date(2020, 1, 3), "month"),
+      new Date(2020, 1, 29, 23, 59, 59, 999),
+    );
+    assertEquals(
+      datetime.endOf(date, "quarter"),
+      new Date(2021, 5, 30, 23, 59, 59, 999),
+    );
+    assertEquals(
+      datetime.endOf(date, "hour"),
+      new Date(2021, 4, 19, 10, 59, 59, 999),
+    );
+    assertEquals(
+      datetime.startOf(new Date("2021-05-19T02:00:00Z"), "day", {
+        timeZone: "Asia/Tokyo",
+      }),
+      new Date("2021-05-18T15:00:00Z"),
+    );
+  },
+});
+
+Deno.test({
+  name: "[std/datetime] business days",
+  fn(): void {
+    const friday = new Date(2021, 4, 21, 9);
+    assert(datetime.isBusinessDay(friday));
+    assert(!datetime.isBusinessDay(new Date(2021, 4, 22)));
+    assertEquals(
+      datetime.addBusinessDays(friday, 1),
+      new Date(2021, 4, 24, 9),
+    );
+    assertEquals(
+      datetime.addBusinessDays(friday, 1, { holidays: ["2021-05-24"] }),
+      new Date(2021, 4, 25, 9),
+    );
+    assertEquals(
+      datetime.addBusinessDays(friday, -5, {
+        holidays: [new Date(2021, 4, 17)],
+      }),
+      new Date(2021, 4, 13, 9),
+    );
+    assertEquals(
+      datetime.addBusinessDays(friday, 1, { weekend: [5, 6] }),
+      new Date(2021, 4, 23, 9),
+    );
+    assertEquals(datetime.addBusinessDays(friday, 0), friday);
+    assertEquals(
+      datetime.businessDaysBetween(friday, new Date(2021, 4, 25)),
+      2,
+    );
+    assertEquals(
+      datetime.businessDaysBetween(new Date(2021, 4, 25), friday),
+      -2,
+    );
+    assertEquals(
+      datetime.businessDaysBetween(new Date(2021, 4, 1), new Date(2021, 5, 1), {
+        holidays: ["2021-05-31"],
+      }),
+      21,
+    );
+    assertThrows(
+      () =>
+        datetime.addBusinessDays(friday, 1, { weekend: [0, 1, 2, 3, 4, 5, 6] }),
+      RangeError,
+    );
+  },
+});
+
+Deno.test({
+  name: "[std/datetime] parseISO",
+  fn(): void {
+    assertEquals(
+      datetime.parseISO("2021-02-03T04:05:06.789+05:30"),
+      new Date("2021-02-02T22:35:06.789Z"),
+    );
+    assertEquals(
+      datetime.parseISO("2021-02-03 04:05:06.123456Z"),
+      new Date("2021-02-03T04:05:06.123Z"),
+    );
+    assertEquals(
+      datetime.parseISO("2021-02-03T04:05-0800"),
+      new Date("2021-02-03T12:05:00Z"),
+    );
+    assertEquals(
+      datetime.parseISO("2021-02-03T04:05:06"),
+      new Date(2021, 1, 3, 4, 5, 6),
+    );
+    assertEquals(datetime.parseISO("2021-02"), new Date(2021, 1, 1));
+    const utc = { timeZone: "UTC" };
+    assertEquals(
+      datetime.parseISO("2021-W05-3", utc),
+      new Date("2021-02-03T00:00:00Z"),
+    );
+    // the week year differs from the calendar year
+    assertEquals(
+      datetime.parseISO("2020-W53-5", utc),
+      new Date("2021-01-01T00:00:00Z"),
+    );
+    assertEquals(
+      datetime.parseISO("2021-W01", utc),
+      new Date("2021-01-04T00:00:00Z"),
+    );
+    assertEquals(
+      datetime.parseISO("2020-366T12:00", utc),
+      new Date("2020-12-31T12:00:00Z"),
+    );
+    assertEquals(
+      datetime.parseISO("2021-03-14T02:30", {
+        timeZone: "America/New_York",
+        disambiguation: "earlier",
+      }),
+      new Date("2021-03-14T06:30:00Z"),
+    );
+
+    for (const invalid of ["2021-2-3", "2021-02-03T4:05", "20210203", "x"]) {
+      assertThrows(() => datetime.parseISO(invalid), SyntaxError);
+    }
+    for (
+      const outOfRange of [
+        "2021-02-29",
+        "2021-13-01",
+        "2021-W53-1",
+        "2021-366",
+        "2021-02-03T24:00",
+        "2021-02-03T12:00+24:00",
+      ]
+    ) {
+      assertThrows(() => datetime.parseISO(outOfRange), RangeError);
+    }
+  },
+});
+
+Deno.test({
+  name: "[std/datetime] formatISO",
+  fn(): void {
+    const date = new Date("2021-02-03T12:00:00.789Z");
+    assertEquals(
+      datetime.formatISO(date, { timeZone: "America/New_York" }),
+      "2021-02-03T07:00:00.789-05:00",
+    );
+    assertEquals(
+      datetime.formatISO(date, {
+        timeZone: "Asia/Kolkata",
+        fractionalDigits: 0,
+      }),
+      "2021-02-03T17:30:00+05:30",
+    );
+    assertEquals(
+      datetime.formatISO(date, { timeZone: "UTC", representation: "time" }),
+      "12:00:00.789Z",
+    );
+    assertEquals(
+      datetime.formatISO(date, { timeZone: "UTC", dateFormat: "week" }),
+      "2021-W05-3T12:00:00.789Z",
+    );
+    assertEquals(
+      datetime.formatISO(new Date("2021-01-01T00:00:00Z"), {
+        timeZone: "UTC",
+        representation: "date",
+        dateFormat: "week",
+      }),
+      "2020-W53-5",
+    );
+    assertEquals(
+      datetime.formatISO(date, {
+        timeZone: "UTC",
+        representation: "date",
+        dateFormat: "ordinal",
+      }),
+      "2021-034",
+    );
+    assertEquals(datetime.parseISO(datetime.formatISO(date)), date);
+  },
+});
+
+Deno.test({
+  name: "[std/datetime] ISO 8601 durations",
+  fn(): void {
+    assertEquals(datetime.parseDuration("P1Y2M3DT4H"), {
+      years: 1,
+      months: 2,
+      days: 3,
+      hours: 4,
+    });
+    assertEquals(datetime.parseDuration("-PT1M30.5S"), {
+      minutes: -1,
+      seconds: -30,
+      milliseconds: -500,
+    });
+    assertEquals(datetime.parseDuration("P2W"), { weeks: 2 });
+    for (const invalid of ["P", "PT", "P1H", "1D", "P1.5D", "PT1S2M"]) {
+      assertThrows(() => datetime.parseDuration(invalid), SyntaxError);
+    }
+
+    assertEquals(datetime.formatDuration({ days: 1, hours: 12 }), "P1DT12H");
+    assertEquals(
+      datetime.formatDuration({
+        minutes: -1,
+        seconds: -30,
+        milliseconds: -500,
+      }),
+      "-PT1M30.5S",
+    );
+    assertEquals(datetime.formatDuration({ milliseconds: 1050 }), "PT1.05S");
+    assertEquals(datetime.formatDuration({}), "PT0S");
+    assertThrows(
+      () => datetime.formatDuration({ days: 1, hours: -1 }),
+      RangeError,
+    );
+
+    assertEquals(
+      datetime.normalizeDuration({ months: 14, hours: 30, minutes: 90 }),
+      { years: 1, months: 2, days: 1, hours: 7, minutes: 30 },
+    );
+    assertEquals(datetime.normalizeDuration({ seconds: -3661 }), {
+      hours: -1,
+      minutes: -1,
+      seconds: -1,
+    });
+
+    assertEquals(
+      datetime.add(new Date(2021, 0, 31), datetime.parseDuration("P1M1D")),
+      new Date(2021, 2, 1),
+    );
+  },
+});
+
+Deno.test({
+  name: "[std/datetime] Cron next and previous",
+  fn(): void {
+    const timeZone = "UTC";
+    const next = (expression: string, from: string) =>
+      new datetime.Cron(expression, { timeZone }).next(new Date(from))
+        ?.toISOString();
+    const previous = (expression: string, from: string) =>
+      new datetime.Cron(expression, { timeZone }).previous(new Date(from))
+        ?.toISOString();
+
+    assertEquals(
+      next("*/15 * * * *", "2021-05-19T10:07:30Z"),
+      "2021-05-19T10:15:00.000Z",
+    );
+    // strictly after `from`
+    assertEquals(
+      next("*/15 * * * *", "2021-05-19T10:15:00Z"),
+      "2021-05-19T10:30:00.000Z",
+    );
+    assertEquals(
+      next("30 9 * * MON-FRI", "2021-05-21T12:00:00Z"),
+      "2021-05-24T09:30:00.000Z",
+    );
+    assertEquals(
+      next("0 0 29 FEB *", "2021-03-01T00:00:00Z"),
+      "2024-02-29T00:00:00.000Z",
+    );
+    assertEquals(
+      next("10,20 5/20 0 1 JAN,JUL ?", "2021-05-19T00:00:00Z"),
+      "2021-07-01T00:05:10.000Z",
+    );
+    assertEquals(
+      next("0 0 0 * * * 2030", "2021-05-19T00:00:00Z"),
+      "2030-01-01T00:00:00.000Z",
+    );
+    assertEquals(next("0 0 0 * * * 2020", "2021-05-19T00:00:00Z"), undefined);
+    assertEquals(next("0 0 30 2 *", "2021-05-19T00:00:00Z"), undefined);
+    assertEquals(
+      next("@monthly", "2021-05-19T00:00:00Z"),
+      "2021-06-01T00:00:00.000Z",
+    );
+    // day of month or day of week
+    assertEquals(
+      next("0 0 13 * FRI", "2021-05-08T00:00:00Z"),
+      "2021-05-13T00:00:00.000Z",
+    );
+
+    assertEquals(
+      previous("*/15 * * * *", "2021-05-19T10:15:00Z"),
+      "2021-05-19T10:00:00.000Z",
+    );
+    assertEquals(
+      previous("0 12 L * *", "2021-05-19T00:00:00Z"),
+      "2021-04-30T12:00:00.000Z",
+    );
+    assertEquals(
+      previous("0 0 * * 0", "2021-01-01T00:00:00Z"),
+      "2020-12-27T00:00:00.000Z",
+    );
+  },
+});
+
+Deno.test({
+  name: "[std/datetime] Cron special days",
+  fn(): void {
+    const days = (expression: string, from: string, count: number) => {
+      const cron = new datetime.Cron(expression, { timeZone: "UTC" });
+      const result = [];
+      let date: Date | null = new Date(from);
+      for (let i = 0; i < count && date; i++) {
+        date = cron.next(date);
+        result.push(date?.toISOString().slice(0, 10));
+      }
+      return result;
+    };
+    assertEquals(days("0 0 L * *", "2021-01-15T00:00:00Z", 3), [
+      "2021-01-31",
+      "2021-02-28",
+      "2021-03-31",
+    ]);
+    assertEquals(days("0 0 L-2 * *", "2021-02-01T00:00:00Z", 1), [
+      "2021-02-26",
+    ]);
+    // the last weekday, the weekday nearest to the 1st and to the 15th
+    assertEquals(days("0 0 LW * *", "2021-07-01T00:00:00Z", 1), [
+      "2021-07-30",
+    ]);
+    assertEquals(days("0 0 1W * *", "2021-05-01T00:00:00Z", 1), [
+      "2021-05-03",
+    ]);
+    assertEquals(days("0 0 15W * *", "2021-05-01T00:00:00Z", 1), [
+      "2021-05-14",
+    ]);
+    // the last Friday, the second Tuesday
+    assertEquals(days("0 0 * * 5L", "2021-05-01T00:00:00Z", 2), [
+      "2021-05-28",
+      "2021-06-25",
+    ]);
+    assertEquals(days("0 0 * * TUE#2", "2021-05-01T00:00:00Z", 2), [
+      "2021-05-11",
+      "2021-06-08",
+    ]);
+    assertEquals(days("0 0 * * FRI-MON", "2021-05-19T00:00:00Z", 4), [
+      "2021-05-21",
+      "2021-05-22",
+      "2021-05-23",
+      "2021-05-24",
+    ]);
+    assert(
+      new datetime.Cron("0 0 * * 7", { timeZone: "UTC" }).matches(
+        new Date("2021-05-23T00:00:00Z"),
+      ),
+    );
+    for (
+      const invalid of [
+        "* * * *",
+        "60 * * * *",
+        "* * * FOO *",
+        "*/0 * * * *",
+        "* * * * * * * *",
+        "* * 1-2-3 * *",
+        "0 0 L-31 * *",
+        "0 0 L-40 * *",
+      ]
+    ) {
+      assertThrows(() => new datetime.Cron(invalid), SyntaxError);
+    }
+  },
+});
+
+Deno.test({
+  name: "[std/datetime] Cron in a time zone across DST",
+  fn(): void {
+    const timeZone = "America/New_York";
+    // 02:30 doesn't exist on 2021-03-14 and fires at 03:30 EDT
+    const daily = new datetime.Cron("30 2 * * *", { timeZone });
+    assertEquals(
+      daily.next(new Date("2021-03-13T12:00:00Z")),
+      new Date("2021-03-14T07:30:00Z"),
+    );
+    // Likewise 02:30 on 2021-03-28 in Paris fires at 03:30 CEST
+    const paris = new datetime.Cron("0 30 2 * * *", {
+      timeZone: "Europe/Paris",
+    });
+    assertEquals(
+      paris.next(new Date("2021-03-27T12:00:00Z")),
+      new Date("2021-03-28T01:30:00Z"),
+    );
+    // 01:30 happens twice on 2021-11-07 and fires once
+    const overlap = new datetime.Cron("30 1 * * *", { timeZone });
+    const first = overlap.next(new Date("2021-11-07T00:00:00Z"))!;
+    assertEquals(first, new Date("2021-11-07T05:30:00Z"));
+    assertEquals(overlap.next(first), new Date("2021-11-08T06:30:00Z"));
+    assertEquals(
+      overlap.previous(new Date("2021-11-07T07:00:00Z")),
+      new Date("2021-11-07T05:30:00Z"),
+    );
+  },
+});
+
+Deno.test({
+  name: "[std/datetime] schedule",
+  async fn(): Promise<void> {
+    const times: Date[] = [];
+    for await (const time of datetime.schedule("* * * * * *")) {
+      assert(Date.now() >= time.getTime());
+      times.push(time);
+      if (times.length === 2) break;
+    }
+    assertEquals(times[1].getTime() - times[0].getTime(), 1000);
+
+    const controller = new AbortController();
+    const iterator = datetime.schedule("0 0 1 1 *", {
+      signal: controller.signal,
+    });
+    const pending = iterator.next();
+    controller.abort();
+    await assertThrowsAsync(() => pending, DOMException, "aborted");
+  },
+});
+
+Deno.test({
+  name: "[std/datetime] format and parse names, quarter, week and era",
+  fn(): void {
+    const timeZone = "UTC";
+    const date = new Date("2021-01-03T16:05:00Z"); // Sunday
+    assertEquals(
+      datetime.format(date, "EEEE, MMMM d, yyyy", { timeZone }),
+      "Sunday, January 3, 2021",
+    );
+    assertEquals(
+      datetime.format(date, "EEE dd MMM yy 'Q'Q", { timeZone }),
+      "Sun 03 Jan 21 Q1",
+    );
+    // 2021-01-03 is in the last ISO week of 2020
+    assertEquals(
+      datetime.format(date, "YYYY-'W'ww", { timeZone }),
+      "2020-W53",
+    );
+    assertEquals(
+      datetime.format(date, "EEEE d MMMM yyyy", { timeZone, locale: "fr-FR" }),
+      "dimanche 3 janvier 2021",
+    );
+    assertEquals(
+      datetime.format(new Date(Date.UTC(-43, 2, 15)), "d MMM yyyy G", {
+        timeZone,
+      }),
+      "15 Mar 44 BC",
+    );
+
+    assertEquals(
+      datetime.parse("Sunday, January 3, 2021", "EEEE, MMMM d, yyyy", {
+        timeZone,
+      }),
+      new Date("2021-01-03T00:00:00Z"),
+    );
+    assertEquals(
+      datetime.parse("3 JAN 2021", "d MMM yyyy", { timeZone }),
+      new Date("2021-01-03T00:00:00Z"),
+    );
+    assertEquals(
+      datetime.parse("3 janvier 2021", "d MMMM yyyy", {
+        timeZone,
+        locale: "fr-FR",
+      }),
+      new Date("2021-01-03T00:00:00Z"),
+    );
+    assertEquals(
+      datetime.parse("2021 Q3", "yyyy 'Q'Q", { timeZone }),
+      new Date("2021-07-01T00:00:00Z"),
+    );
+    assertEquals(
+      datetime.parse("2020-W53 Sun", "YYYY-'W'ww EEE", { timeZone }),
+      new Date("2021-01-03T00:00:00Z"),
+    );
+    assertEquals(
+      datetime.parse("15 Mar 44 BC", "d MMM yyyy G", { timeZone }),
+      new Date(Date.UTC(-43, 2, 15)),
+    );
+    assertThrows(() => datetime.parse("3 Foo 2021", "d MMM yyyy"));
+  },
+});
+
+Deno.test({
+  name: "[std/datetime] format and parse offsets and escaped literals",
+  fn(): void {
+    const date = new Date("2021-01-03T16:05:00Z");
+    const kolkata = { timeZone: "Asia/Kolkata" };
+    assertEquals(
+      datetime.format(date, "yyyy-MM-dd'T'HH:mmZ", kolkata),
+      "2021-01-03T21:35+05:30",
+    );
+    assertEquals(datetime.format(date, "HH:mm ZZ", kolkata), "21:35 +0530");
+    assertEquals(
+      datetime.format(date, "HH:mm XXX", { timeZone: "America/New_York" }),
+      "11:05 -05:00",
+    );
+    assertEquals(
+      datetime.format(date, "HH:mm XXX", { timeZone: "UTC" }),
+      "16:05 Z",
+    );
+    assertEquals(
+      datetime.format(date, "h 'o''clock' ''yy", { timeZone: "UTC" }),
+      "4 o'clock '21",
+    );
+
+    // the parsed offset takes precedence over the time zone
+    assertEquals(
+      datetime.parse("2021-01-03T21:35+05:30", "yyyy-MM-dd'T'HH:mmZ"),
+      date,
+    );
+    assertEquals(
+      datetime.parse("2021-01-03 11:05 -0500", "yyyy-MM-dd HH:mm ZZ", kolkata),
+      date,
+    );
+    assertEquals(
+      datetime.parse("2021-01-03 16:05 Z", "yyyy-MM-dd HH:mm XXX"),
+      date,
+    );
+    assertEquals(
+      datetime.parse("4 o'clock 2021-01-03", "H 'o''clock' yyyy-MM-dd", {
+        timeZone: "UTC",
+      }),
+      new Date("2021-01-03T04:00:00Z"),
+    );
+  },
+});
+
+Deno.test({
+  name: "[std/datetime] formatRelative",
+  fn(): void {
+    const base = new Date("2021-05-19T12:00:00Z");
+    const at = (iso: string) => new Date(iso);
+    assertEquals(
+      datetime.formatRelative(at("2021-05-19T11:57:00Z"), base),
+      "3 minutes ago",
+    );
+    assertEquals(
+      datetime.formatRelative(at("2021-05-21T10:00:00Z"), base),
+      "in 2 days",
+    );
+    assertEquals(
+      datetime.formatRelative(at("2021-05-21T10:00:00Z"), base, {
+        rounding: "floor",
+      }),
+      "in 1 day",
+    );
+    assertEquals(
+      datetime.formatRelative(at("2021-05-19T12:00:00Z"), base),
+      "in 0 seconds",
+    );
+    assertEquals(
+      datetime.formatRelative(at("2021-05-18T12:00:00Z"), base, {
+        numeric: "auto",
+      }),
+      "yesterday",
+    );
+    assertEquals(
+      datetime.formatRelative(at("2019-02-19T12:00:00Z"), base),
+      "2 years ago",
+    );
+    assertEquals(
+      datetime.formatRelative(at("2021-12-19T12:00:00Z"), base, {
+        units: ["quarters", "days"],
+      }),
+      "in 2 quarters",
+    );
+    assertEquals(
+      datetime.formatRelative(at("2021-05-19T15:30:00Z"), base, {
+        units: ["minutes"],
+        style: "short",
+      }),
+      "in 210 min.",
+    );
+    assertEquals(
+      datetime.formatRelative(at("2021-05-26T12:00:00Z"), base, {
+        locale: "de",
+      }),
+      "in 1 Woche",
+    );
+    // Whole months and years, at and around their boundaries
+    assertEquals(
+      datetime.formatRelative(at("2022-05-19T12:00:00Z"), base),
+      "in 1 year",
+    );
+    assertEquals(
+      datetime.formatRelative(at("2020-05-19T12:00:00Z"), base),
+      "1 year ago",
+    );
+    assertEquals(
+      datetime.formatRelative(at("2020-05-01T12:00:00Z"), base),
+      "1 year ago",
+    );
+    assertEquals(
+      datetime.formatRelative(at("2021-06-19T12:00:00Z"), base),
+      "in 1 month",
+    );
+    assertEquals(
+      datetime.formatRelative(at("2021-06-19T11:59:00Z"), base),
+      "in 4 weeks",
+    );
+    assertEquals(
+      datetime.formatRelative(at("2022-05-19T12:00:00Z"), base, {
+        units: ["months"],
+      }),
+      "in 12 months",
+    );
+    assertThrows(
+      () => datetime.formatRelative(base, base, { units: [] }),
+      RangeError,
+    );
+  },
+});
+
+Deno.test({
+  name: "[std/datetime] parseRelative",
+  fn(): void {
+    // a Wednesday
+    const base = new Date("2021-05-19T12:00:00Z");
+    const utc = { timeZone: "UTC" };
+    const parse = (input: string) => datetime.parseRelative(input, base, utc);
+    assertEquals(parse("now"), base);
+    assertEquals(parse("-2h"), new Date("2021-05-19T10:00:00Z"));
+    assertEquals(parse("+1d12h"), new Date("2021-05-21T00:00:00Z"));
+    assertEquals(parse("90s"), new Date("2021-05-19T12:01:30Z"));
+    assertEquals(parse("in 3 days"), new Date("2021-05-22T12:00:00Z"));
+    assertEquals(parse("3 minutes ago"), new Date("2021-05-19T11:57:00Z"));
+    assertEquals(
+      parse("an hour and 30 minutes from now"),
+      new Date("2021-05-19T13:30:00Z"),
+    );
+    assertEquals(parse("1 month ago"), new Date("2021-04-19T12:00:00Z"));
+    assertEquals(parse("today"), new Date("2021-05-19T00:00:00Z"));
+    assertEquals(parse("Tomorrow 9am"), new Date("2021-05-20T09:00:00Z"));
+    assertEquals(parse("yesterday"), new Date("2021-05-18T00:00:00Z"));
+    assertEquals(parse("noon"), new Date("2021-05-19T12:00:00Z"));
+    assertEquals(parse("17:30"), new Date("2021-05-19T17:30:00Z"));
+    assertEquals(parse("wednesday"), new Date("2021-05-19T00:00:00Z"));
+    assertEquals(parse("friday"), new Date("2021-05-21T00:00:00Z"));
+    assertEquals(
+      parse("next tuesday 5pm"),
+      new Date("2021-05-25T17:00:00Z"),
+    );
+    assertEquals(
+      parse("next wednesday at 12:15 am"),
+      new Date("2021-05-26T00:15:00Z"),
+    );
+    assertEquals(parse("last wednesday"), new Date("2021-05-12T00:00:00Z"));
+    assertEquals(parse("last friday"), new Date("2021-05-14T00:00:00Z"));
+    assertEquals(parse("next week"), new Date("2021-05-26T12:00:00Z"));
+    assertEquals(parse("last month 8am"), new Date("2021-04-19T08:00:00Z"));
+
+    // the day is in the time zone
+    assertEquals(
+      datetime.parseRelative("tomorrow 9am", base, {
+        timeZone: "America/New_York",
+      }),
+      new Date("2021-05-20T13:00:00Z"),
+    );
+    assertEquals(
+      datetime.parseRelative("today", new Date("2021-05-19T02:00:00Z"), {
+        timeZone: "America/New_York",
+      }),
+      new Date("2021-05-18T04:00:00Z"),
+    );
+
+    for (
+      const input of ["", "soon", "in 3 fortnights", "13pm", "next moonday"]
+    ) {
+      assertThrows(() => parse(input), SyntaxError, "cannot parse relative");
+    }
+  },
+});
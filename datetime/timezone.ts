@@ -0,0 +1,1109 @@
+// Copyright 2018-2021 the Deno authors. All rights reserved. MIT license.
+// IANA time zones, backed by an embedded, compact copy of the tz database, so
+// that the time zone data of the host (ICU) isn't needed. Like in a TZif file,
+// each zone has a table of its past transitions and a rule in the POSIX TZ
+// format for the times after them.
+//
+// The data is from tzdata 2025b. The tables start in 1970, and earlier times
+// get the offset in effect at the start of 1970.
+
+const MINUTE = 60 * 1e3;
+const DAY = 24 * 60 * MINUTE;
+
+// The current rule of the zones, i.e. the footer of their TZif file
+const zoneRules: Record<string, string[]> = {
+  "UTC0": ["UTC", "Etc/UTC"],
+  "GMT0": [
+    "GMT",
+    "Etc/GMT",
+    "Africa/Abidjan",
+    "Africa/Accra",
+    "Africa/Dakar",
+    "Atlantic/Reykjavik",
+  ],
+  "GMT0BST,M3.5.0/1,M10.5.0": ["Europe/London"],
+  "IST-1GMT0,M10.5.0,M3.5.0/1": ["Europe/Dublin"],
+  "WET0WEST,M3.5.0/1,M10.5.0": ["Europe/Lisbon", "Atlantic/Canary"],
+  "<-01>1<+00>,M3.5.0/0,M10.5.0/1": ["Atlantic/Azores"],
+  "CET-1": ["Africa/Algiers", "Africa/Tunis"],
+  "CET-1CEST,M3.5.0,M10.5.0/3": [
+    "Europe/Amsterdam",
+    "Europe/Belgrade",
+    "Europe/Berlin",
+    "Europe/Brussels",
+    "Europe/Budapest",
+    "Europe/Copenhagen",
+    "Europe/Luxembourg",
+    "Europe/Madrid",
+    "Europe/Malta",
+    "Europe/Monaco",
+    "Europe/Oslo",
+    "Europe/Paris",
+    "Europe/Prague",
+    "Europe/Rome",
+    "Europe/Stockholm",
+    "Europe/Vienna",
+    "Europe/Warsaw",
+    "Europe/Zagreb",
+    "Europe/Zurich",
+  ],
+  "WAT-1": ["Africa/Lagos", "Africa/Kinshasa"],
+  "EET-2EEST,M3.5.0/3,M10.5.0/4": [
+    "Europe/Athens",
+    "Europe/Bucharest",
+    "Europe/Helsinki",
+    "Europe/Kyiv",
+    "Europe/Riga",
+    "Europe/Sofia",
+    "Europe/Tallinn",
+    "Europe/Vilnius",
+    "Asia/Nicosia",
+  ],
+  "EET-2EEST,M4.5.5/0,M10.5.4/24": ["Africa/Cairo"],
+  "EET-2EEST,M3.5.0/0,M10.5.0/0": ["Asia/Beirut"],
+  "IST-2IDT,M3.4.4/26,M10.5.0": ["Asia/Jerusalem"],
+  "EET-2": ["Europe/Kaliningrad", "Africa/Tripoli"],
+  "SAST-2": ["Africa/Johannesburg"],
+  "CAT-2": ["Africa/Maputo", "Africa/Harare"],
+  "EAT-3": ["Africa/Nairobi", "Africa/Addis_Ababa"],
+  "MSK-3": ["Europe/Moscow", "Europe/Simferopol"],
+  "<+03>-3": [
+    "Europe/Istanbul",
+    "Europe/Minsk",
+    "Asia/Baghdad",
+    "Asia/Qatar",
+    "Asia/Riyadh",
+  ],
+  "<+0330>-3:30": ["Asia/Tehran"],
+  "<+04>-4": ["Asia/Baku", "Asia/Dubai", "Asia/Tbilisi", "Asia/Yerevan"],
+  "<+0430>-4:30": ["Asia/Kabul"],
+  "PKT-5": ["Asia/Karachi"],
+  "<+05>-5": [
+    "Asia/Almaty",
+    "Asia/Tashkent",
+    "Asia/Yekaterinburg",
+    "Indian/Maldives",
+  ],
+  "IST-5:30": ["Asia/Kolkata"],
+  "<+0530>-5:30": ["Asia/Colombo"],
+  "<+0545>-5:45": ["Asia/Kathmandu"],
+  "<+06>-6": ["Asia/Dhaka", "Asia/Omsk"],
+  "<+0630>-6:30": ["Asia/Yangon"],
+  "<+07>-7": ["Asia/Bangkok", "Asia/Ho_Chi_Minh", "Asia/Novosibirsk"],
+  "WIB-7": ["Asia/Jakarta"],
+  "CST-8": ["Asia/Shanghai", "Asia/Taipei"],
+  "HKT-8": ["Asia/Hong_Kong"],
+  "PST-8": ["Asia/Manila"],
+  "<+08>-8": ["Asia/Singapore", "Asia/Kuala_Lumpur", "Asia/Irkutsk"],
+  "AWST-8": ["Australia/Perth"],
+  "JST-9": ["Asia/Tokyo"],
+  "KST-9": ["Asia/Seoul"],
+  "ACST-9:30": ["Australia/Darwin"],
+  "ACST-9:30ACDT,M10.1.0,M4.1.0/3": ["Australia/Adelaide"],
+  "AEST-10": ["Australia/Brisbane"],
+  "AEST-10AEDT,M10.1.0,M4.1.0/3": [
+    "Australia/Hobart",
+    "Australia/Melbourne",
+    "Australia/Sydney",
+  ],
+  "ChST-10": ["Pacific/Guam"],
+  "<+1030>-10:30<+11>-11,M10.1.0,M4.1.0": ["Australia/Lord_Howe"],
+  "<+11>-11": ["Asia/Magadan", "Pacific/Noumea"],
+  "<+12>-12": ["Asia/Kamchatka", "Pacific/Fiji"],
+  "NZST-12NZDT,M9.5.0,M4.1.0/3": ["Pacific/Auckland"],
+  "<+1245>-12:45<+1345>,M9.5.0/2:45,M4.1.0/3:45": ["Pacific/Chatham"],
+  "<+13>-13": ["Pacific/Apia", "Pacific/Tongatapu"],
+  "<+14>-14": ["Pacific/Kiritimati"],
+  "<-01>1": ["Atlantic/Cape_Verde"],
+  "<-02>2": ["America/Noronha", "Atlantic/South_Georgia"],
+  "<-02>2<-01>,M3.5.0/-1,M10.5.0/0": ["America/Nuuk"],
+  "<-03>3": [
+    "America/Argentina/Buenos_Aires",
+    "America/Montevideo",
+    "America/Sao_Paulo",
+    "Atlantic/Stanley",
+  ],
+  "NST3:30NDT,M3.2.0,M11.1.0": ["America/St_Johns"],
+  "AST4": ["America/Puerto_Rico", "America/Santo_Domingo"],
+  "AST4ADT,M3.2.0,M11.1.0": ["America/Halifax", "Atlantic/Bermuda"],
+  "<-04>4": ["America/Caracas", "America/La_Paz", "America/Manaus"],
+  "<-04>4<-03>,M9.1.6/24,M4.1.6/24": ["America/Santiago"],
+  "EST5": ["America/Cancun", "America/Jamaica", "America/Panama"],
+  "EST5EDT,M3.2.0,M11.1.0": [
+    "America/Detroit",
+    "America/Indiana/Indianapolis",
+    "America/Kentucky/Louisville",
+    "America/New_York",
+    "America/Toronto",
+  ],
+  "CST5CDT,M3.2.0/0,M11.1.0/1": ["America/Havana"],
+  "<-05>5": ["America/Bogota", "America/Guayaquil", "America/Lima"],
+  "CST6": [
+    "America/Costa_Rica",
+    "America/Guatemala",
+    "America/Mexico_City",
+    "America/Regina",
+  ],
+  "CST6CDT,M3.2.0,M11.1.0": ["America/Chicago", "America/Winnipeg"],
+  "MST7": ["America/Hermosillo", "America/Phoenix"],
+  "MST7MDT,M3.2.0,M11.1.0": [
+    "America/Boise",
+    "America/Denver",
+    "America/Edmonton",
+  ],
+  "PST8PDT,M3.2.0,M11.1.0": ["America/Los_Angeles", "America/Vancouver"],
+  "AKST9AKDT,M3.2.0,M11.1.0": ["America/Anchorage"],
+  "HST10": ["Pacific/Honolulu"],
+  "HST10HDT,M3.2.0,M11.1.0": ["America/Adak"],
+  "SST11": ["Pacific/Pago_Pago"],
+};
+
+// The transitions of the zones since 1970, until their rule gives them, as
+// "types|transitions". The types are separated by commas, and made of the
+// abbreviation, the offset in minutes east of UTC and a "*" for daylight
+// saving time. The first one is in effect at the start of 1970. A transition
+// is the index of the type it changes to, followed by the minutes since the
+// previous transition (or since 1970), both in base 36. The rule of the zone
+// applies from the last transition on.
+const zoneHistories: Record<string, string> = {
+  "Africa/Algiers": "WET 0,WEST 60 *,CET 60,CEST 120 *|" +
+    "1etac 04r40 11r7lo 256mc 34r5o 25m9o 0cb8o 15m9o 05u1o 25m6c",
+  "Africa/Cairo": "EET 120,EEST 180 *|" +
+    "13pac 04q1o 16jic 04q1o 16kmc 04q1o 16jic 04q1o 16jic 04q1o 16jic " +
+    "04q1o 16kmc 04q1o 16jic 04q1o 16jic 04q1o 16jic 04q1o 16kmc 04q1o " +
+    "16jic 04q1o 195yc 023lo 18ric 02i1o 16kmc 04q1o 16jic 04q1o 16jic " +
+    "04q1o 16jic 04q1o 16kmc 04q1o 16p2c 04kho 16jic 04q1o 16jic 04q1o " +
+    "16kmc 04q1o 16jic 04q1o 16jic 04q1o 16g4o 04r2c 16hdo 04r2c 16hdo " +
+    "04r2c 16hdo 04r2c 16p5o 04r2c 16hdo 04r2c 16hdo 04r2c 16hdo 04r2c " +
+    "16hdo 04r2c 16p5o 04r2c 16hdo 04r2c 16hdo 04jac 16p5o 043qc 174po " +
+    "03vyc 17cho 03o6c 17s1o 036ec 1xdo 0nac 114u1o 01amc 112xo 01q6c " +
+    "12osho",
+  "Africa/Tripoli": "EET 120,CET 60,CEST 120 *|" +
+    "13r9wo 22s1o 15nac 25m9o 15nac 25ndo 15nac 25rto 15hqc 25plo 15m6c " +
+    "25k1o 15nac 25ndo 15nac 25m9o 15nac 06mxo 12092c 25qpo 05nac 14q8zc " +
+    "24ag0 06hc0",
+  "Africa/Tunis": "CET 60,CEST 120 *|" +
+    "12alac 04jc0 16rc0 04q00 130zc0 03kw0 15m80 05m80 16rc0 04ow0 14kew0 " +
+    "04oxo 15gpo 06p40 14jc0 06p40 14r40 06hc0",
+  "America/Adak": "BST -660,BDT -600 *,AHST -600,HST -600,HDT -540 *|" +
+    "13kdo 05m6c 15m9o 05tyc 15m9o 05m6c 15m9o 05m6c 125to 092mc 13o9o " +
+    "07k6c 15m9o 05tyc 15eho 05tyc 15m9o 05m6c 15m9o 05m6c 15m9o 05m6c " +
+    "15m9o 05m6c 15m9o 05tyc 15eho 25tyc 3yco 44nvc 35m6c 45m9o 35m6c " +
+    "45m9o 35m6c 44yxo 369ic 44yxo 36hac 44r5o 36hac 44r5o 36hac 44yxo " +
+    "369ic 44yxo 369ic 44yxo 36hac 44r5o 36hac 44r5o 36hac 44yxo 369ic " +
+    "44yxo 369ic 44yxo 369ic 44yxo 36hac 44r5o 36hac 44r5o 36hac 44yxo " +
+    "369ic 44yxo 369ic 44yxo 36hac 44r5o 36hac 44r5o 36hac 443to",
+  "America/Anchorage": "AHST -600,AHDT -540 *,YST -540,AKST -540,AKDT -480 *|" +
+    "13kc0 05m6c 15m9o 05tyc 15m9o 05m6c 15m9o 05m6c 125to 092mc 13o9o " +
+    "07k6c 15m9o 05tyc 15eho 05tyc 15m9o 05m6c 15m9o 05m6c 15m9o 05m6c " +
+    "15m9o 05m6c 15m9o 05tyc 15eho 25tyc 3yco 44nvc 35m6c 45m9o 35m6c " +
+    "45m9o 35m6c 44yxo 369ic 44yxo 36hac 44r5o 36hac 44r5o 36hac 44yxo " +
+    "369ic 44yxo 369ic 44yxo 36hac 44r5o 36hac 44r5o 36hac 44yxo 369ic " +
+    "44yxo 369ic 44yxo 369ic 44yxo 36hac 44r5o 36hac 44r5o 36hac 44yxo " +
+    "369ic 44yxo 369ic 44yxo 36hac 44r5o 36hac 44r5o 36hac 443to",
+  "America/Argentina/Buenos_Aires": "-03 -180,-02 -120 *,-03 -180 *|" +
+    "119rx0 030uc 14kg1o 02wec 16wxo 04bic 174po 043qc 174po 043qc 174po " +
+    "04bic 2223to 04ow0 12g7k0 02dic 16p5o 04jac",
+  "America/Bogota": "-05 -300,-04 -240 *|16zsoc 08n2c",
+  "America/Boise": "MST -420,MDT -360 *|" +
+    "13k70 05m6c 15m9o 05tyc 15m9o 05m6c 15m9o 05m6c 130xo 087ic 13o9o " +
+    "07k6c 15m9o 05tyc 15eho 05tyc 15m9o 05m6c 15m9o 05m6c 15m9o 05m6c " +
+    "15m9o 05m6c 15m9o 05tyc 15eho 05tyc 15m9o 05m6c 15m9o 05m6c 15m9o " +
+    "05m6c 14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o 06hac 14yxo 069ic " +
+    "14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o 06hac 14yxo 069ic 14yxo " +
+    "069ic 14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o 06hac 14yxo 069ic " +
+    "14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o 06hac 143to",
+  "America/Cancun": "CST -360,EST -300,CDT -300 *,EDT -240 *|" +
+    "13r3pc 0bjf0 245g50 069ic 24yxo 169ic 34yw0 23o6c 02ldo 24yxo 06hac " +
+    "24r5o 06hac 25u1o 04jac 25u1o 069ic 24yxo 069ic 24yxo 06hac 24r5o " +
+    "06hac 24r5o 06hac 24r5o 06hac 24yxo 069ic 24yxo 069ic 24yxo 06hac " +
+    "24r5o 06hac 24r5o 06hac 24yxo 069ic 24yxo 069ic 130xo",
+  "America/Caracas": "-04 -240,-0430 -270|1bvnvo 02mmo0",
+  "America/Chicago": "CST -360,CDT -300 *|" +
+    "13k5c 05m6c 15m9o 05tyc 15m9o 05m6c 15m9o 05m6c 125to 092mc 13o9o " +
+    "07k6c 15m9o 05tyc 15eho 05tyc 15m9o 05m6c 15m9o 05m6c 15m9o 05m6c " +
+    "15m9o 05m6c 15m9o 05tyc 15eho 05tyc 15m9o 05m6c 15m9o 05m6c 15m9o " +
+    "05m6c 14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o 06hac 14yxo 069ic " +
+    "14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o 06hac 14yxo 069ic 14yxo " +
+    "069ic 14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o 06hac 14yxo 069ic " +
+    "14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o 06hac 143to",
+  "America/Costa_Rica": "CST -360,CDT -300 *|" +
+    "12v5m0 030uc 187lo 030uc 13bvlo 0512c 167do 01rac",
+  "America/Denver": "MST -420,MDT -360 *|" +
+    "13k70 05m6c 15m9o 05tyc 15m9o 05m6c 15m9o 05m6c 125to 092mc 13o9o " +
+    "07k6c 15m9o 05tyc 15eho 05tyc 15m9o 05m6c 15m9o 05m6c 15m9o 05m6c " +
+    "15m9o 05m6c 15m9o 05tyc 15eho 05tyc 15m9o 05m6c 15m9o 05m6c 15m9o " +
+    "05m6c 14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o 06hac 14yxo 069ic " +
+    "14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o 06hac 14yxo 069ic 14yxo " +
+    "069ic 14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o 06hac 14yxo 069ic " +
+    "14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o 06hac 143to",
+  "America/Detroit": "EST -300,EDT -240 *|" +
+    "111h7o 05m6c 125to 092mc 15m9o 05m6c 15m9o 05tyc 15eho 05tyc 15m9o " +
+    "05m6c 15m9o 05m6c 15m9o 05m6c 15m9o 05m6c 15m9o 05tyc 15eho 05tyc " +
+    "15m9o 05m6c 15m9o 05m6c 15m9o 05m6c 14yxo 069ic 14yxo 06hac 14r5o " +
+    "06hac 14r5o 06hac 14yxo 069ic 14yxo 069ic 14yxo 06hac 14r5o 06hac " +
+    "14r5o 06hac 14yxo 069ic 14yxo 069ic 14yxo 069ic 14yxo 06hac 14r5o " +
+    "06hac 14r5o 06hac 14yxo 069ic 14yxo 069ic 14yxo 06hac 14r5o 06hac " +
+    "14r5o 06hac 143to",
+  "America/Edmonton": "MST -420,MDT -360 *|" +
+    "1q8v0 05m6c 15m9o 05m6c 15m9o 05m6c 15m9o 05m6c 15m9o 05tyc 15eho " +
+    "05tyc 15m9o 05m6c 15m9o 05m6c 15m9o 05m6c 15m9o 05m6c 15m9o 05tyc " +
+    "15eho 05tyc 15m9o 05m6c 15m9o 05m6c 15m9o 05m6c 14yxo 069ic 14yxo " +
+    "06hac 14r5o 06hac 14r5o 06hac 14yxo 069ic 14yxo 069ic 14yxo 06hac " +
+    "14r5o 06hac 14r5o 06hac 14yxo 069ic 14yxo 069ic 14yxo 069ic 14yxo " +
+    "06hac 14r5o 06hac 14r5o 06hac 14yxo 069ic 14yxo 069ic 14yxo 06hac " +
+    "14r5o 06hac 14r5o 06hac 143to",
+  "America/Guatemala": "CST -360,CDT -300 *|" +
+    "117yi0 02t2c 12w3to 03tqc 12cjdo 056mc 14l3do 04r2c",
+  "America/Guayaquil": "-05 -300,-04 -240 *|1768wc 024mc",
+  "America/Halifax": "AST -240,ADT -180 *|" +
+    "13k20 05m6c 15m9o 05tyc 15m9o 05m6c 15m9o 05m6c 15m9o 05m6c 15m9o " +
+    "05m6c 15m9o 05tyc 15eho 05tyc 15m9o 05m6c 15m9o 05m6c 15m9o 05m6c " +
+    "15m9o 05m6c 15m9o 05tyc 15eho 05tyc 15m9o 05m6c 15m9o 05m6c 15m9o " +
+    "05m6c 14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o 06hac 14yxo 069ic " +
+    "14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o 06hac 14yxo 069ic 14yxo " +
+    "069ic 14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o 06hac 14yxo 069ic " +
+    "14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o 06hac 143to",
+  "America/Havana": "CST -300,CDT -240 *|" +
+    "13k0c 05m6c 15m9o 05tyc 15m9o 04yuc 169lo 04zyc 168ho 0512c 167do " +
+    "05m6c 15m9o 05tyc 15eho 05tyc 15u1o 04r2c 14yxo 06hac 14r5o 06hac " +
+    "16hdo 04r2c 16hdo 04r2c 16hdo 04r2c 16hdo 04yuc 169lo 04yuc 14r5o " +
+    "06hac 14r5o 06hac 14yxo 069ic 14yxo 069ic 15eho 061qc 15eho 05u00 " +
+    "15eg0 05u00 15eg0 05u00 15eg0 05u00 15eg0 05u00 15m80 05m80 15m80 " +
+    "05u00 156o0 06hc0 14r40 06p40 14r40 06hc0 14r40 06hc0 14yw0 069k0 " +
+    "14yw0 069k0 14r40 0t600 143s0 074o0 14bk0 06ww0 143s0 074o0 14bk0 " +
+    "074o0 14bk0 07cg0 14bk0",
+  "America/Hermosillo":
+    "MST -420,MDT -360 *|1883b0 069ic 14yxo 069ic 14yxo 069ic",
+  "America/Indiana/Indianapolis":
+    "EST -300,EDT -240 *|13k3o 05m6c 1b3h5o 06hac 143to",
+  "America/Jamaica": "EST -300,EDT -240 *|" +
+    "11997o 092mc 13o9o 07k6c 15m9o 05tyc 15eho 05tyc 15m9o 05m6c 15m9o " +
+    "05m6c 15m9o 05m6c 15m9o 05m6c 15m9o 05tyc 15eho 05tyc",
+  "America/Kentucky/Louisville": "EST -300,EDT -240 *,CDT -300 *|" +
+    "13k3o 05m6c 15m9o 05tyc 15m9o 05m6c 15m9o 05m6c 225to 092o0 13o80 " +
+    "07k6c 15m9o 05tyc 15eho 05tyc 15m9o 05m6c 15m9o 05m6c 15m9o 05m6c " +
+    "15m9o 05m6c 15m9o 05tyc 15eho 05tyc 15m9o 05m6c 15m9o 05m6c 15m9o " +
+    "05m6c 14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o 06hac 14yxo 069ic " +
+    "14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o 06hac 14yxo 069ic 14yxo " +
+    "069ic 14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o 06hac 14yxo 069ic " +
+    "14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o 06hac 143to",
+  "America/Lima": "-05 -300,-04 -240 *|" +
+    "150dkc 02ryc 18hlo 02ryc 1v1to 02ryc 116bdo 02ryc",
+  "America/Los_Angeles": "PST -480,PDT -420 *|" +
+    "13k8o 05m6c 15m9o 05tyc 15m9o 05m6c 15m9o 05m6c 125to 092mc 13o9o " +
+    "07k6c 15m9o 05tyc 15eho 05tyc 15m9o 05m6c 15m9o 05m6c 15m9o 05m6c " +
+    "15m9o 05m6c 15m9o 05tyc 15eho 05tyc 15m9o 05m6c 15m9o 05m6c 15m9o " +
+    "05m6c 14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o 06hac 14yxo 069ic " +
+    "14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o 06hac 14yxo 069ic 14yxo " +
+    "069ic 14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o 06hac 14yxo 069ic " +
+    "14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o 06hac 143to",
+  "America/Manaus": "-04 -240,-03 -180 *|" +
+    "14yiuo 043qc 16wxo 03gec 17t5o 038mc 11s61o 03vyc",
+  "America/Mexico_City": "CST -360,CDT -300 *|" +
+    "18839c 069ic 14yxo 069ic 14yxo 069ic 14yxo 06hac 14r5o 06hac 15u1o " +
+    "04jac 15u1o 069ic 14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o 06hac " +
+    "14r5o 06hac 14yxo 069ic 14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o " +
+    "06hac 14yxo 069ic 14yxo 069ic 14yxo 069ic 14yxo 06hac 14r5o 06hac " +
+    "14r5o 06hac 14yxo 069ic 14yxo 069ic 14yxo 06hac 14r5o 06hac",
+  "America/Montevideo": "-03 -180,-02 -120 *,-0130 -90 *,-0230 -150 *|" +
+    "13it0 01jic 1kyho 02lac 2gupo 31q5i 05eho 13ggu 030uc 1jg1o 02dic " +
+    "18fdo 02t2c 18uxo 02dic 11q9o 09xqc 12fbdo 02cec 18uxo 02lac 17cho " +
+    "03o6c 17cho 043qc 17cho 03vyc 174po 043qc 13ma1o 05u1o 161to 04r2c " +
+    "169lo 04yuc 16hdo 04r2c 16hdo 04r2c 16hdo 04yuc 169lo 04yuc 169lo " +
+    "04yuc 16hdo 04r2c 16hdo 04r2c 16hdo 04r2c",
+  "America/New_York": "EST -300,EDT -240 *|" +
+    "13k3o 05m6c 15m9o 05tyc 15m9o 05m6c 15m9o 05m6c 125to 092mc 13o9o " +
+    "07k6c 15m9o 05tyc 15eho 05tyc 15m9o 05m6c 15m9o 05m6c 15m9o 05m6c " +
+    "15m9o 05m6c 15m9o 05tyc 15eho 05tyc 15m9o 05m6c 15m9o 05m6c 15m9o " +
+    "05m6c 14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o 06hac 14yxo 069ic " +
+    "14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o 06hac 14yxo 069ic 14yxo " +
+    "069ic 14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o 06hac 14yxo 069ic " +
+    "14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o 06hac 143to",
+  "America/Noronha": "-02 -120,-01 -60 *|" +
+    "14yirc 043qc 16wxo 03gec 17t5o 038mc 17s1o 038mc 17zto 03o6c 130o9o " +
+    "04jac 16wxo 07qc 1b8ho 03vyc",
+  "America/Nuuk": "-03 -180,-02 -120 *,-02 -120,-01 -60 *|" +
+    "137ooc 05e9c 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05u00 15m80 " +
+    "05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05u00 " +
+    "15m80 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15u00 " +
+    "06hc0 14r40 06hc0 14r40 06hc0 14r40 06p40 14jc0 06p40 14jc0 06p40 " +
+    "14r40 06hc0 14r40 06hc0 14r40 06p40 14jc0 06p40 14jc0 06p40 14jc0 " +
+    "06p40 14r40 06hc0 14r40 06hc0 14r40 06p40 14jc0 06p40 14jc0 06p40 " +
+    "14r40 06hc0 14r40 06hc0 14r40 06hc0 14r40 06p40 14jc0 06p40 14jc0 " +
+    "06p40 14r40 06hc0 14r40 06hc0 14r40 06p40 14jc0 06p40 24jc0 3bg80",
+  "America/Santiago": "-03 -180 *,-04 -240|" +
+    "12ot0 061to 14r2c 06hdo 14r2c 06p5o 14jac 069lo 14yuc 06p5o 14jac " +
+    "06p5o 14r2c 06hdo 14r2c 06hdo 14r2c 06p5o 14jac 06p5o 14jac 06p5o " +
+    "14r2c 06hdo 14r2c 06hdo 14r2c 06hdo 14r2c 06p5o 14jac 06p5o 14jac " +
+    "06p5o 15m6c 05m9o 14r2c 06hdo 14r2c 06p5o 14jac 05u1o 15eec 06p5o " +
+    "14r2c 06hdo 14r2c 06hdo 14r2c 06hdo 14r2c 06p5o 14jac 06p5o 156mc " +
+    "061to 14r2c 061to 15tyc 05u1o 14r2c 06p5o 14jac 06p5o 14jac 06p5o " +
+    "14jac 06p5o 14r2c 06hdo 14r2c 06hdo 14r2c 06p5o 14jac 06p5o 156mc " +
+    "061to 14r2c 06hdo 15eec 05u1o 16hac 038po 17ryc 03w1o 17cec 043to " +
+    "174mc 043to 1j0ec 02t5o 18fac 02t5o 18fac 02t5o 17cec 04r5o 16hac " +
+    "04r5o 16hac 04r5o 16hac 04yxo",
+  "America/Santo_Domingo": "-0430 -270 *,EST -300,AST -240|" +
+    "11kvi 07lcu 12on6 08rku 12j36 08pcu 12lb6 08n4u 12mf6 28m0u 1856ho " +
+    "212w0",
+  "America/Sao_Paulo": "-03 -180,-02 -120 *|" +
+    "14yit0 043qc 16wxo 03gec 17t5o 038mc 17s1o 038mc 17zto 03o6c 17s1o " +
+    "03o6c 17k9o 03gec 17zto 030uc 17zto 03vyc 17cho 03vyc 17cho 03o6c " +
+    "17cho 043qc 175to 04i6c 16wxo 043qc 16wxo 04jac 16wxo 043qc 17cho " +
+    "03vyc 17zto 038mc 17k9o 03o6c 1821o 03e6c 17cho 03vyc 17zto 03gec " +
+    "174po 03vyc 17k9o 03o6c 17k9o 03vyc 17cho 03vyc 17cho 043qc 17cho " +
+    "03o6c 17k9o 03o6c 17k9o 03vyc 17cho 03vyc 17cho 03vyc 17cho 03vyc " +
+    "17zto 038mc",
+  "America/St_Johns": "NST -210,NDT -150 *,NDDT -90 *|" +
+    "13k16 05m6c 15m9o 05tyc 15m9o 05m6c 15m9o 05m6c 15m9o 05m6c 15m9o " +
+    "05m6c 15m9o 05tyc 15eho 05tyc 15m9o 05m6c 15m9o 05m6c 15m9o 05m6c " +
+    "15m9o 05m6c 15m9o 05tyc 15eho 05tyc 15m9o 05m6c 15m9o 05m6c 15m9o " +
+    "05m6c 14yud 069ic 24yxo 06h8o 14r7c 06hac 14r5o 06hac 14yxo 069ic " +
+    "14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o 06hac 14yxo 069ic 14yxo " +
+    "069ic 14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o 06hac 14yxo 069ic " +
+    "14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o 06hac 143to 07cec 13w1o " +
+    "07cec 13w1o 07cec 143to 07cec 13w1o 07chn",
+  "America/Toronto": "EST -300,EDT -240 *|" +
+    "13k3o 05m6c 15m9o 05tyc 15m9o 05m6c 15m9o 05m6c 15m9o 05m6c 15m9o " +
+    "05m6c 15m9o 05tyc 15eho 05tyc 15m9o 05m6c 15m9o 05m6c 15m9o 05m6c " +
+    "15m9o 05m6c 15m9o 05tyc 15eho 05tyc 15m9o 05m6c 15m9o 05m6c 15m9o " +
+    "05m6c 14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o 06hac 14yxo 069ic " +
+    "14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o 06hac 14yxo 069ic 14yxo " +
+    "069ic 14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o 06hac 14yxo 069ic " +
+    "14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o 06hac 143to",
+  "America/Vancouver": "PST -480,PDT -420 *|" +
+    "13k8o 05m6c 15m9o 05tyc 15m9o 05m6c 15m9o 05m6c 15m9o 05m6c 15m9o " +
+    "05m6c 15m9o 05tyc 15eho 05tyc 15m9o 05m6c 15m9o 05m6c 15m9o 05m6c " +
+    "15m9o 05m6c 15m9o 05tyc 15eho 05tyc 15m9o 05m6c 15m9o 05m6c 15m9o " +
+    "05m6c 14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o 06hac 14yxo 069ic " +
+    "14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o 06hac 14yxo 069ic 14yxo " +
+    "069ic 14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o 06hac 14yxo 069ic " +
+    "14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o 06hac 143to",
+  "America/Winnipeg": "CST -360,CDT -300 *|" +
+    "13k5c 05m80 15m80 05u00 15m80 05m80 15m80 05m80 15m80 05m80 15m80 " +
+    "05m80 15m80 05u00 15eg0 05u00 15m80 05m80 15m80 05m80 15m80 05m80 " +
+    "15m80 05m80 15m80 05u00 15eg0 05u00 15m80 05m80 15m80 05m80 15m80 " +
+    "05m80 14yw0 069k0 14yw0 06hc0 14r40 06hc0 14r40 06hc0 14yw0 069k0 " +
+    "14yw0 069k0 14yw0 06hc0 14r40 06hc0 14r40 06hc0 14yw0 069k0 14yw0 " +
+    "069k0 14yw0 069k0 14yw0 06hc0 14r40 06hc0 14r40 06hc0 14yw0 069k0 " +
+    "14yw0 069k0 14yw0 06hc0 14r40 06hc0 14r40 06hac 143to",
+  "Asia/Almaty": "+06 360,+07 420 *,+06 360 *,+05 300|" +
+    "13is60 05nac 15m9o 05nac 15m9o 05nac 15ndo 05mbc 15m80 05m80 15m80 " +
+    "05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05u00 25m80 35m9o " +
+    "03gg0 125qc 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15u00 06hc0 " +
+    "14r40 06hc0 14r40 06hc0 14r40 06p40 14jc0 06p40 14jc0 06p40 14r40 " +
+    "06hc0 14r40 06hc0 14r40 06p40 361xgo",
+  "Asia/Baghdad": "+03 180,+04 240 *|" +
+    "13uz70 04pyc 15l5o 05oec 15ndo 05nac 15m9o 05l5o 15m80 05m80 15m80 " +
+    "05m80 15m80 05m80 15m80 05m80 15m80 05u00 15nfc 05nc0 15nc0 05nc0 " +
+    "15m80 05nc0 15m80 05nc0 15m80 05nc0 15nc0 05nc0 15m80 05nc0 15m80 " +
+    "05nc0 15m80 05nc0 15nc0 05nc0 15m80 05nc0 15m80 05nc0 15m80 05nc0 " +
+    "15nc0 05nc0 15m80 05nc0 15m80 05nc0 15m80 05nc0",
+  "Asia/Baku": "+04 240,+05 300 *,+04 240 *,+03 180|" +
+    "13is9c 05nac 15m9o 05nac 15m9o 05nac 15ndo 05mbc 15m80 05m80 15m80 " +
+    "05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05u00 25m80 35m9o " +
+    "25m80 05m80 113jfc 06hc0 14r2c 06hc0 14r40 06hc0 14r40 06p40 14jc0 " +
+    "06p40 14jc0 06p40 14r40 06hc0 14r40 06hc0 14r40 06p40 14jc0 06p40 " +
+    "14jc0 06p40 14jc0 06p40 14r40 06hc0 14r40 06hc0 14r40 06p40 14jc0 " +
+    "06p40 14jc0 06p40 14r40 06hc0 14r40 06hc0 14r40 06hc0",
+  "Asia/Beirut": "EET 120,EEST 180 *|" +
+    "1rv8o 0346c 16jlo 04pyc 16jlo 04pyc 16jlo 04pyc 16kpo 04pyc 16jlo " +
+    "04pyc 16iho 04pyc 11qypo 056mc 162xo 056mc 162xo 056mc 162xo 056mc " +
+    "172ho 0486c 16cxo 04wmc 162xo 056mc 162xo 056mc 1641o 04tac 15eho " +
+    "05m6c 15m9o 05m6c 15m9o 05m6c 15u1o 05m6c 15m9o 05m6c 15m9o 05m6c " +
+    "15m9o",
+  "Asia/Colombo": "+0530 330,+0630 390,+06 360|189jyu 24r36 02yq8u",
+  "Asia/Dhaka": "+06 360,+07 420 *|1ccwcc 060o0",
+  "Asia/Ho_Chi_Minh": "+08 480,+07 420|11pdmo",
+  "Asia/Hong_Kong": "HKT 480,HKST 540 *|" +
+    "13bsi 05m6c 15m9o 05m6c 15m9o 05tyc 15m9o 05m6c 125to 092mc 15m9o " +
+    "05m6c 15m9o 05m6c 1sy9o 04yuc",
+  "Asia/Irkutsk": "+08 480,+09 540 *,+08 480 *,+07 420,+09 540|" +
+    "13is2o 05nac 15m9o 05nac 15m9o 05nac 15ndo 05mbc 15m80 05m80 15m80 " +
+    "05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05u00 25m80 35m9o " +
+    "03gg0 125qc 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15u00 06hc0 " +
+    "14r40 06hc0 14r40 06hc0 14r40 06p40 14jc0 06p40 14jc0 06p40 14r40 " +
+    "06hc0 14r40 06hc0 14r40 06p40 14jc0 06p40 14jc0 06p40 14jc0 06p40 " +
+    "14r40 06hc0 14r40 06hc0 14r40 06p40 44jc0 014eec",
+  "Asia/Jerusalem": "IST 120,IDT 180 *|" +
+    "11ev0o 030uc 15u1o 043qc 11jixo 01ao0 1151s0 03gg0 174o0 04bic 17zto " +
+    "03gec 16sho 04nqc 16hdo 04jac 17cho 03vyc 169lo 04r2c 16hdo 04yuc " +
+    "16hdo 04yuc 16f5o 04tac 16f5o 04lic 16mxo 04tac 15zlo 05pic 15qpo " +
+    "05gmc 15rto 058uc 16f90 04r2c 16wxo 05eco 15plo 056mc 15qpo 05xac " +
+    "15b5o 05tyc 15rto 056mc 15wbc 05w6c 15c9o 05oec 15k1o 058uc 15zlo " +
+    "05w6c 15c9o 05oec 15k1o 058uc 167do 05oec 15k1o 05gmc 15rto",
+  "Asia/Kamchatka": "+12 720,+13 780 *,+12 720 *,+11 660|" +
+    "13irw0 05nac 15m9o 05nac 15m9o 05nac 15ndo 05mbc 15m80 05m80 15m80 " +
+    "05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05u00 25m80 35m9o " +
+    "03gg0 125qc 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15u00 06hc0 " +
+    "14r40 06hc0 14r40 06hc0 14r40 06p40 14jc0 06p40 14jc0 06p40 14r40 " +
+    "06hc0 14r40 06hc0 14r40 06p40 14jc0 06p40 14jc0 06p40 14jc0 06p40 " +
+    "14r40 06hc0 14r40 06hc0 24r40 36p5o 04jc0",
+  "Asia/Karachi": "+05 300,PKT 300,PKST 360 *|" +
+    "1duno 29pug0 15m6c 21rqho 14pyc 253do 1666c",
+  "Asia/Kathmandu": "+0530 330,+0545 345|150d2u",
+  "Asia/Kuala_Lumpur": "+0730 450,+08 480|13r9mo",
+  "Asia/Magadan": "+11 660,+12 720 *,+11 660 *,+10 600,+12 720|" +
+    "13irxo 05nac 15m9o 05nac 15m9o 05nac 15ndo 05mbc 15m80 05m80 15m80 " +
+    "05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05u00 25m80 35m9o " +
+    "03gg0 125qc 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15u00 06hc0 " +
+    "14r40 06hc0 14r40 06hc0 14r40 06p40 14jc0 06p40 14jc0 06p40 14r40 " +
+    "06hc0 14r40 06hc0 14r40 06p40 14jc0 06p40 14jc0 06p40 14jc0 06p40 " +
+    "14r40 06hc0 14r40 06hc0 14r40 06p40 44jc0 314eec 0gurc",
+  "Asia/Manila": "PST 480,PDT 540 *|129kao 05hqc 13ypto 024mc",
+  "Asia/Nicosia": "EET 120,EEST 180 *|" +
+    "11ni4o 05m6c 16o1o 04lic 15ddo 05eec 15u1o 05nac 15l5o 05m6c 15u1o " +
+    "05eec 15m9o 05m6c 15m9o 05m6c 15m9o 05m6c 15m9o 05tyc 15m9o 05m6c " +
+    "15m9o 05m6c 15m9o 05m6c 15m9o 05m6c 15m9o 05m6c 15m9o 05tyc 15m9o " +
+    "05m6c 15m9o 05m6c 15m9o 05m6c 15m9o 05m6c 15m9o 05m6c 15u1o 05m6c " +
+    "15m9o 05m6c 15m9o 06hh0",
+  "Asia/Novosibirsk": "+07 420,+08 480 *,+07 420 *,+06 360|" +
+    "13is4c 05nac 15m9o 05nac 15m9o 05nac 15ndo 05mbc 15m80 05m80 15m80 " +
+    "05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05u00 25m80 35m9o " +
+    "03gg0 125qc 05m80 15m80 21q30 33w6o 25m80 35m80 25m80 35m80 25u00 " +
+    "36hc0 24r40 36hc0 24r40 36hc0 24r40 36p40 24jc0 36p40 24jc0 36p40 " +
+    "24r40 36hc0 24r40 36hc0 24r40 36p40 24jc0 36p40 24jc0 36p40 24jc0 " +
+    "36p40 24r40 36hc0 24r40 36hc0 24r40 36p40 04jc0 314eec 0jnto",
+  "Asia/Omsk": "+06 360,+07 420 *,+06 360 *,+05 300,+07 420|" +
+    "13is60 05nac 15m9o 05nac 15m9o 05nac 15ndo 05mbc 15m80 05m80 15m80 " +
+    "05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05u00 25m80 35m9o " +
+    "03gg0 125qc 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15u00 06hc0 " +
+    "14r40 06hc0 14r40 06hc0 14r40 06p40 14jc0 06p40 14jc0 06p40 14r40 " +
+    "06hc0 14r40 06hc0 14r40 06p40 14jc0 06p40 14jc0 06p40 14jc0 06p40 " +
+    "14r40 06hc0 14r40 06hc0 14r40 06p40 44jc0 014eec",
+  "Asia/Qatar": "+04 240,+03 180|1r7tc",
+  "Asia/Seoul": "KST 540,KDT 600 *|15flwc 04r40 16hc0 04r40",
+  "Asia/Shanghai": "CST 480,CDT 540 *|" +
+    "1545q0 043qc 16hdo 04r2c 16p5o 04jac 16p5o 04r2c 16hdo 04r2c 16hdo " +
+    "04r2c",
+  "Asia/Singapore": "+0730 450,+08 480|13r9mo",
+  "Asia/Taipei": "CST 480,CDT 540 *|11buyo 05nac 15m9o 05nac 11695o 02u6c",
+  "Asia/Tashkent": "+06 360,+07 420 *,+06 360 *,+05 300|" +
+    "13is60 05nac 15m9o 05nac 15m9o 05nac 15ndo 05mbc 15m80 05m80 15m80 " +
+    "05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05u00 25m80 35m9o",
+  "Asia/Tbilisi": "+04 240,+05 300 *,+04 240 *,+03 180|" +
+    "13is9c 05nac 15m9o 05nac 15m9o 05nac 15ndo 05mbc 15m80 05m80 15m80 " +
+    "05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05u00 25m80 35m9o " +
+    "25m4o 35m6c 25m9o 35m6c 25m9o 05m6c 15m80 05m6c 15u1o 1b8ec 06hc0 " +
+    "14r5o 06hac 14r5o 06p2c 14jdo 06p2c 14jdo 06p2c 14r5o 06hac 14r5o " +
+    "06hac 14r5o 22t2c 33w6o 04jc0",
+  "Asia/Tehran": "+0330 210,+0430 270 *,+04 240,+05 300 *|" +
+    "129dsi 26ko0 34s8u 243s0 030w0 162wu 03jqc 15oho 05qmc 13bkho 04dqc " +
+    "15m9o 05oec 15l5o 05oec 15l5o 05oec 15l5o 05oec 15l5o 05oec 15m9o " +
+    "05oec 15l5o 05oec 15l5o 05oec 15l5o 05oec 15m9o 05oec 15l5o 05oec " +
+    "15l5o 05oec 15l5o 05oec 15m9o 05oec 1s49o 05oec 15m9o 05oec 15l5o " +
+    "05oec 15l5o 05oec 15l5o 05oec 15m9o 05oec 15l5o 05oec 15l5o 05oec " +
+    "15l5o 05oec 15m9o 05oec 15l5o 05oec 15l5o 05oec 15l5o 05oec 15m9o " +
+    "05oec 15l5o 05oec",
+  "Asia/Yekaterinburg": "+05 300,+06 360 *,+05 300 *,+04 240,+06 360|" +
+    "13is7o 05nac 15m9o 05nac 15m9o 05nac 15ndo 05mbc 15m80 05m80 15m80 " +
+    "05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05u00 25m80 35m9o " +
+    "03gg0 125qc 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15u00 06hc0 " +
+    "14r40 06hc0 14r40 06hc0 14r40 06p40 14jc0 06p40 14jc0 06p40 14r40 " +
+    "06hc0 14r40 06hc0 14r40 06p40 14jc0 06p40 14jc0 06p40 14jc0 06p40 " +
+    "14r40 06hc0 14r40 06hc0 14r40 06p40 44jc0 014eec",
+  "Asia/Yerevan": "+04 240,+05 300 *,+04 240 *,+03 180|" +
+    "13is9c 05nac 15m9o 05nac 15m9o 05nac 15ndo 05mbc 15m80 05m80 15m80 " +
+    "05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05u00 25m80 35m9o " +
+    "25m80 35m80 25m80 35m80 25m80 35m80 25m80 05m80 1h2ec 06hc0 14r40 " +
+    "06hc0 14r40 06p40 14jc0 06p40 14jc0 06p40 14r40 06hc0 14r40 06hc0 " +
+    "14r40 06p40 14jc0 06p40 14jc0 06p40 14jc0 06p40 14r40 06hc0 14r40 " +
+    "06hc0 14r40 06p40 14jc0 06p40",
+  "Atlantic/Azores": "-01 -60,+00 0 *,WET 0,WEST 60 *|" +
+    "13txlo 05m80 15m80 05m80 15m80 05u00 15m80 05m80 15m80 05m80 15m80 " +
+    "05m80 15m80 05m80 15m80 05m80 15m80 05u00 15m80 05m80 15m80 05m80 " +
+    "22t5o 32t2c 12i00 03480 15m80 05m80 15m80 05m80 15u00",
+  "Atlantic/Bermuda": "AST -240,ADT -180 *|" +
+    "11cpm0 05m6c 15m9o 05m6c 15m9o 05tyc 15eho 05tyc 15m9o 05m6c 15m9o " +
+    "05m6c 15m9o 05m6c 15m9o 05m6c 15m9o 05tyc 15eho 05tyc 15m9o 05m6c " +
+    "15m9o 05m6c 15m9o 05m6c 14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o " +
+    "06hac 14yxo 069ic 14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o 06hac " +
+    "14yxo 069ic 14yxo 069ic 14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o " +
+    "06hac 14yxo 069ic 14yxo 069ic 14yxo 06hac 14r5o 06hac 14r5o 06hac " +
+    "143to",
+  "Atlantic/Canary": "WET 0,WEST 60 *|" +
+    "137og0 05eho 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05u00 15m80 " +
+    "05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05u00 " +
+    "15m80 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15u00",
+  "Atlantic/Cape_Verde": "-02 -120,-01 -60|11uhio",
+  "Atlantic/Stanley": "-04 -240,-03 -180,-02 -120 *,-03 -180 *|" +
+    "14692o 24jac 16p2c 24blo 16wuc 34blo 06p40 34jdo 06p2c 34jdo 06p2c " +
+    "34jdo 06p2c 34jdo 06wuc 34blo 06wuc 34jdo 06p2c 34jdo 06p2c 34jdo " +
+    "06p2c 34jdo 06p2c 34jdo 06wuc 34jdo 06p2c 34jdo 06p2c 34jdo 06p2c " +
+    "34jdo 06p2c 34jdo 06p5o 34blo 074mc 343to 074mc 34blo 06wuc 34blo " +
+    "06wuc 34blo 06wuc 34blo 06wuc 34blo 074mc 34blo 06wuc 34blo 06wuc " +
+    "14blo",
+  "Australia/Adelaide": "ACST 570,ACDT 630 *|" +
+    "1klvi 03o80 17k80 03w00 17cg0 03w00 17cg0 03w00 17cg0 043s0 17cg0 " +
+    "03w00 17cg0 03w00 17cg0 03w00 17cg0 03w00 17cg0 03w00 17cg0 043s0 " +
+    "17cg0 03w00 17cg0 03w00 17cg0 03w00 17cg0 04bk0 16p40 04jc0 16ww0 " +
+    "04jc0 16ww0 04bk0 16ww0 04bk0 16ww0 03w00 17cg0 04jc0 16p40 043s0 " +
+    "17cg0 04bk0 16ww0 04jc0 16p40 04r40 16hc0 04r40 16hc0 04r40 16hc0 " +
+    "04r40 16p40 04jc0 16p40 04jc0 16p40 04r40 16hc0 04r40 16hc0 04r40 " +
+    "16p40 04jc0 16p40 04r40 16hc0 04jc0 16p40",
+  "Australia/Brisbane":
+    "AEST 600,AEDT 660 *|1kluo 03o80 15j740 03w00 17cg0 03w00 17cg0 03w00",
+  "Australia/Hobart": "AEDT 660 *,AEST 600|" +
+    "120yo 074o0 14bk0 074o0 13o80 07k80 13w00 07cg0 13w00 07cg0 13w00 " +
+    "07cg0 143s0 07cg0 13w00 07cg0 13w00 07cg0 13w00 07cg0 13w00 07cg0 " +
+    "13w00 07cg0 14r40 06p40 14jc0 06p40 13w00 07cg0 13w00 07cg0 13w00 " +
+    "074o0 14jc0 06ww0 14jc0 06ww0 14bk0 06ww0 14bk0 06ww0 14r40 05u00 " +
+    "15eg0 05u00 15eg0 05u00 15eg0 05u00 15eg0 05u00 15m80 05u00 15eg0 " +
+    "05u00 15eg0 05u00 15eg0 05u00 15eg0 04r40 16hc0 061s0 15eg0 05u00 " +
+    "15eg0 05u00 15eg0 05u00 15eg0 05u00 15m80 05m80 15eg0 061s0",
+  "Australia/Lord_Howe": "AEST 600,+1030 630,+1130 690 *,+11 660 *|" +
+    "13htjc 27cii 143qc 27cho 13vyc 27cho 13vyc 27cho 13vyc 37cho 14bj6 " +
+    "36p4u 14jb6 36wwu 14jb6 36wwu 14bj6 36wwu 13vz6 37cgu 13vz6 37cgu " +
+    "13vz6 37cgu 143r6 37cgu 13vz6 37cgu 13vz6 37cgu 14r36 36hcu 14r36 " +
+    "36hcu 14r36 36hcu 14r36 36p4u 14jb6 34r4u 16hb6 36p4u 14r36 36hcu " +
+    "14r36 36hcu 14r36 36p4u 14jb6 36p4u 14r36 36hcu 14jb6 36p4u",
+  "Australia/Melbourne": "AEST 600,AEDT 660 *|" +
+    "1kluo 03o80 17k80 03w00 17cg0 03w00 17cg0 03w00 17cg0 043s0 17cg0 " +
+    "03w00 17cg0 03w00 17cg0 03w00 17cg0 03w00 17cg0 03w00 17cg0 043s0 " +
+    "17cg0 03w00 17cg0 03w00 17cg0 03w00 17cg0 04bk0 16p40 04jc0 16p40 " +
+    "04r40 16ww0 04bk0 16ww0 04bk0 16ww0 03w00 17cg0 03w00 17cg0 043s0 " +
+    "17cg0 03w00 17cg0 04jc0 16p40 04r40 16hc0 04r40 16hc0 04r40 16hc0 " +
+    "04r40 16p40 04jc0 14r40 06hc0 16p40 04r40 16hc0 04r40 16hc0 04r40 " +
+    "16p40 04jc0 16p40 04r40 16hc0 04jc0 16p40",
+  "Australia/Perth": "AWST 480,AWDT 540 *|" +
+    "11iba0 03w00 12pnk0 03w00 12euo0 038o0 14mcw0 03gg0 16p40 04r40 " +
+    "16hc0 04r40",
+  "Australia/Sydney": "AEST 600,AEDT 660 *|" +
+    "1kluo 03o80 17k80 03w00 17cg0 03w00 17cg0 03w00 17cg0 043s0 17cg0 " +
+    "03w00 17cg0 03w00 17cg0 03w00 17cg0 03w00 17cg0 03w00 17cg0 04yw0 " +
+    "16hc0 03w00 17cg0 03w00 17cg0 03w00 17cg0 04bk0 16p40 04jc0 16ww0 " +
+    "04jc0 16ww0 04bk0 16ww0 03w00 17cg0 03w00 17cg0 03w00 17cg0 043s0 " +
+    "17cg0 03w00 17cg0 03w00 17cg0 04r40 16hc0 04r40 16hc0 04r40 16hc0 " +
+    "04r40 16p40 04jc0 14r40 06hc0 16p40 04r40 16hc0 04r40 16hc0 04r40 " +
+    "16p40 04jc0 16p40 04r40 16hc0 04jc0 16p40",
+  "Europe/Amsterdam": "CET 60,CEST 120 *|" +
+    "129rdo 05eg0 15u00 05m80 15m80 05m80 15u00 05eg0 15m80 05m80 15m80 " +
+    "05m80 15m80 05m80 15m80 05u00 15m80 05m80 15m80 05m80 15m80 05m80 " +
+    "15m80 05m80 15m80 05m80 15m80 05u00 15m80 05m80 15m80 05m80 15m80 " +
+    "05m80 15m80 05m80 15m80 05m80 15u00",
+  "Europe/Athens": "EET 120,EEST 180 *|" +
+    "11nh0o 071c0 148bc 05m80 15eg0 05fk0 15sw0 05eho 15ua0 05kqo 15pic " +
+    "05jyc 15meo 05m80 15m80 05m80 15m80 05m80 15m80 05u00 15m80 05m80 " +
+    "15m80 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05u00 15m80 " +
+    "05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15u00",
+  "Europe/Belgrade": "CET 60,CEST 120 *|" +
+    "14561o 05m80 15m80 05u00 15m80 05m80 15m80 05m80 15m80 05m80 15m80 " +
+    "05m80 15m80 05m80 15m80 05u00 15m80 05m80 15m80 05m80 15m80 05m80 " +
+    "15m80 05m80 15m80 05m80 15u00",
+  "Europe/Berlin": "CET 60,CEST 120 *|" +
+    "137oho 05eg0 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05u00 15m80 " +
+    "05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05u00 " +
+    "15m80 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15u00",
+  "Europe/Brussels": "CET 60,CEST 120 *|" +
+    "129rdo 05eg0 15u00 05m80 15m80 05m80 15u00 05eg0 15m80 05m80 15m80 " +
+    "05m80 15m80 05m80 15m80 05u00 15m80 05m80 15m80 05m80 15m80 05m80 " +
+    "15m80 05m80 15m80 05m80 15m80 05u00 15m80 05m80 15m80 05m80 15m80 " +
+    "05m80 15m80 05m80 15m80 05m80 15u00",
+  "Europe/Bucharest": "EET 120,EEST 180 *|" +
+    "12xyco 03vyc 15u00 05eho 15mbc 05m80 15m80 05m80 15m80 05m80 15m80 " +
+    "05u00 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05m80 " +
+    "15m80 05u00 15m4o 05m80 15m80 05m80 15m80 05m80 15m80 05m6c 15m9o " +
+    "05m6c 15u1o 06hac 14rao",
+  "Europe/Budapest": "CET 60,CEST 120 *|" +
+    "137oec 05eg0 15m80 05m80 15m80 05m80 15m80 05m80 15mbc 05u00 15m80 " +
+    "05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05u00 " +
+    "15m80 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15u00",
+  "Europe/Copenhagen": "CET 60,CEST 120 *|" +
+    "137oho 05eg0 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05u00 15m80 " +
+    "05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05u00 " +
+    "15m80 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15u00",
+  "Europe/Dublin": "IST 60,GMT 0 *|" +
+    "1kmbc 04bk0 16ww0 04bk0 16ww0 04bk0 16ww0 04bk0 16ww0 04jc0 16p40 " +
+    "04jc0 16p40 04jc0 16ww0 04bk0 16ww0 04bk0 16ww0 04r2c 16hc0 04r40 " +
+    "16hc0 04r40 16hc0 04r40 16p40 04r40 16hc0 04r40 16hc0 04r40 16hc0 " +
+    "04r40 16hc0 04r40 16p40 04jc0 16p40 04r40 16hc0 04r40 16hc0 04r40 " +
+    "16hc0 04r40 16hc0 04r40 16hc0 04yw0",
+  "Europe/Helsinki": "EET 120,EEST 180 *|" +
+    "13ip40 05m80 15m80 05m80 15m9o 05m80 15m80 05u00 15m80 05m80 15m80 " +
+    "05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05u00 15m80 05m80 " +
+    "15m80 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15u00",
+  "Europe/Istanbul": "EET 120,EEST 180 *,+03 180,+04 240 *|" +
+    "112jqc 04r40 14jdo 06p2c 14aho 06xyc 14blo 06wuc 14r5o 061qc 156po " +
+    "22pn0 31lcjc 21xyc 0c81o 158w0 04yw0 15nc0 05m80 15m80 05m80 15m80 " +
+    "05m80 15m80 05m80 15m80 05u00 15m80 05m80 15m80 05m80 15m80 05m80 " +
+    "15eg0 05u00 15m80 05m80 15u00 06hc0 14r40 06hc0 14r40 06hc0 14r40 " +
+    "06p40 14jc0 06p40 14jc0 06p40 14r40 06hc0 14r40 06hc0 14r40 06p40 " +
+    "14jc0 06p40 14jc0 06p40 14jfc 06p40 14r40 06hc0 14r40 06hc0 14r40 " +
+    "06p40 14kg0 06o00 14jc0 06p40 14r40 06hc0 14s80 06g80 14r40 06ww0 " +
+    "14bk0 2521c",
+  "Europe/Kaliningrad": "MSK 180,MSD 240 *,EEST 180 *,EET 120,+03 180|" +
+    "13isb0 05nac 15m9o 05nac 15m9o 05nac 15ndo 05mbc 15m80 05m80 15m80 " +
+    "05m80 15m80 05m80 15m80 05m80 25m80 35m9o 25m80 35u00 25m80 35m80 " +
+    "25m80 35m80 25m80 35m80 25m80 35m80 25m80 35m80 25u00 36hc0 24r40 " +
+    "36hc0 24r40 36hc0 24r40 36p40 24jc0 36p40 24jc0 36p40 24r40 36hc0 " +
+    "24r40 36hc0 24r40 36p40 24jc0 36p40 24jc0 36p40 24jc0 36p40 24r40 " +
+    "36hc0 24r40 36hc0 24r40 36p40 44jc0 314eec",
+  "Europe/Kyiv": "MSK 180,MSD 240 *,EEST 180 *,EET 120|" +
+    "13isb0 05nac 15m9o 05nac 15m9o 05nac 15ndo 05mbc 15m80 05m80 15m80 " +
+    "05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 230uc 3e1nc 25m80 " +
+    "35m80 25m80 35m80 25m80 35m80 25m80 35m80 25u00 36hdo",
+  "Europe/Lisbon": "CET 60,WET 0,WEST 60 *,CEST 120 *|" +
+    "123xc0 25m80 15m80 25u1o 15m80 25m80 15m80 25u00 15eg0 25m6c 15m80 " +
+    "25m80 15m80 25m80 15m80 25m80 15u00 25m80 15m80 25m9o 15m80 25m80 " +
+    "15m80 25m80 15m80 25m80 15m80 25m80 15u00 25m80 15m80 25m80 05m80 " +
+    "35m80 05m80 35m80 05m80 35m80 05m80 25u00",
+  "Europe/London": "BST 60,GMT 0,BST 60 *|" +
+    "1kmbc 24bk0 16ww0 24bk0 16ww0 24bk0 16ww0 24bk0 16ww0 24jc0 16p40 " +
+    "24jc0 16p40 24jc0 16ww0 24bk0 16ww0 24bk0 16ww0 24r2c 16hc0 24r40 " +
+    "16hc0 24r40 16hc0 24r40 16p40 24r40 16hc0 24r40 16hc0 24r40 16hc0 " +
+    "24r40 16hc0 24r40 16p40 24jc0 16p40 24r40 16hc0 24r40 16hc0 24r40 " +
+    "16hc0 24r40 16hc0 24r40 16hc0 24yw0",
+  "Europe/Luxembourg": "CET 60,CEST 120 *|" +
+    "129rdo 05eg0 15u00 05m80 15m80 05m80 15u00 05eg0 15m80 05m80 15m80 " +
+    "05m80 15m80 05m80 15m80 05u00 15m80 05m80 15m80 05m80 15m80 05m80 " +
+    "15m80 05m80 15m80 05m80 15m80 05u00 15m80 05m80 15m80 05m80 15m80 " +
+    "05m80 15m80 05m80 15m80 05m80 15u00",
+  "Europe/Madrid": "CET 60,CEST 120 *|" +
+    "11c9oo 05eho 15tyc 05eho 15eec 05m9o 15tyc 05eho 15u3c 05m80 15m80 " +
+    "05m80 15u00 05eg0 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05u00 " +
+    "15m80 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 " +
+    "05u00 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05m80 " +
+    "15u00",
+  "Europe/Malta": "CET 60,CEST 120 *|" +
+    "14mmc 03o80 17cg0 03w00 17k80 03w00 15l40 05m80 16ao0 04kg0 16o3c " +
+    "04r2c 16hdo 04r2c 16hdo 04r2c 16hdo 04r2c 16hdo 04r2c 162xo 05dac " +
+    "15u1o 05m80 15m80 05m80 15m80 05m80 15m80 05u00 15m80 05m80 15m80 " +
+    "05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05u00 15m80 05m80 " +
+    "15m80 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15u00",
+  "Europe/Minsk": "MSK 180,MSD 240 *,EEST 180 *,EET 120,+03 180|" +
+    "13isb0 05nac 15m9o 05nac 15m9o 05nac 15ndo 05mbc 15m80 05m80 15m80 " +
+    "05m80 15m80 05m80 15m80 05m80 15m80 05m80 2h2g0 35m9o 25m80 35m80 " +
+    "25m80 35m80 25m80 35m80 25m80 35m80 25u00 36hc0 24r40 36hc0 24r40 " +
+    "36hc0 24r40 36p40 24jc0 36p40 24jc0 36p40 24r40 36hc0 24r40 36hc0 " +
+    "24r40 36p40 24jc0 36p40 24jc0 36p40 24jc0 36p40 24r40 36hc0 24r40 " +
+    "36hc0 24r40 36p40 44jc0",
+  "Europe/Monaco": "CET 60,CEST 120 *|" +
+    "11yb40 05m6c 15u3c 05eg0 15u00 05m80 15m80 05m80 15u00 05eg0 15m80 " +
+    "05m80 15m80 05m80 15m80 05m80 15m80 05u00 15m80 05m80 15m80 05m80 " +
+    "15m80 05m80 15m80 05m80 15m80 05m80 15m80 05u00 15m80 05m80 15m80 " +
+    "05m80 15m80 05m80 15m80 05m80 15m80 05m80 15u00",
+  "Europe/Moscow": "MSK 180,MSD 240 *,EEST 180 *,EET 120,MSK 240|" +
+    "13isb0 05nac 15m9o 05nac 15m9o 05nac 15ndo 05mbc 15m80 05m80 15m80 " +
+    "05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05u00 25m80 35m9o " +
+    "03gg0 125qc 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15u00 06hc0 " +
+    "14r40 06hc0 14r40 06hc0 14r40 06p40 14jc0 06p40 14jc0 06p40 14r40 " +
+    "06hc0 14r40 06hc0 14r40 06p40 14jc0 06p40 14jc0 06p40 14jc0 06p40 " +
+    "14r40 06hc0 14r40 06hc0 14r40 06p40 44jc0 014eec",
+  "Europe/Oslo": "CET 60,CEST 120 *|" +
+    "137oho 05eg0 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05u00 15m80 " +
+    "05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05u00 " +
+    "15m80 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15u00",
+  "Europe/Paris": "CET 60,CEST 120 *|" +
+    "11yb40 05m6c 15u3c 05eg0 15u00 05m80 15m80 05m80 15u00 05eg0 15m80 " +
+    "05m80 15m80 05m80 15m80 05m80 15m80 05u00 15m80 05m80 15m80 05m80 " +
+    "15m80 05m80 15m80 05m80 15m80 05m80 15m80 05u00 15m80 05m80 15m80 " +
+    "05m80 15m80 05m80 15m80 05m80 15m80 05m80 15u00",
+  "Europe/Prague": "CET 60,CEST 120 *|" +
+    "12w89o 05m80 15u00 05eg0 15m80 05m80 15m80 05m80 15m80 05m80 15m80 " +
+    "05u00 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05m80 " +
+    "15m80 05u00 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 " +
+    "05m80 15u00",
+  "Europe/Riga": "MSK 180,MSD 240 *,EEST 180 *,EET 120|" +
+    "13isb0 05nac 15m9o 05nac 15m9o 05nac 15ndo 05mbc 15m80 05m80 15m80 " +
+    "05m80 15m80 05m80 15m80 05m80 25m80 35m9o 25m80 35u00 25m80 35m80 " +
+    "25m80 35m80 25m80 35m80 25m80 35m80 25m80 35m80 25u00 35m80 25m9o " +
+    "36hc0 24r40 36hc0 24r40 36p40 2frs0",
+  "Europe/Rome": "CET 60,CEST 120 *|" +
+    "14mmc 03o80 17cg0 03w00 17k80 03w00 17k80 03o80 17cg0 03w00 17k80 " +
+    "03o80 17k80 03o80 17cg0 03w00 17k80 03w00 17cg0 03w00 15u3c 05eg0 " +
+    "15m80 05m80 15m80 05m80 15m80 05m80 15m80 05u00 15m80 05m80 15m80 " +
+    "05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05u00 15m80 05m80 " +
+    "15m80 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15u00",
+  "Europe/Simferopol": "MSK 180,MSD 240 *,EET 120,EEST 180 *,MSK 240|" +
+    "13isb0 05nac 15m9o 05nac 15m9o 05nac 15ndo 05mbc 15m80 05m80 15m80 " +
+    "05m80 15m80 05m80 15m80 05m80 15m80 05m80 28n40 3jnto 25m80 35m80 " +
+    "25m80 35m80 112r0 04jfc 15m80 05m80 15two 06hh0 34r5o 26hc0 34r40 " +
+    "26hc0 34r40 26p40 34jc0 26p40 34jc0 26p40 34r40 26hc0 34r40 26hc0 " +
+    "34r40 26p40 34jc0 26p40 34jc0 26p40 34jc0 26p40 34r40 26hc0 34r40 " +
+    "26hc0 34r40 26p40 34jc0 26p40 34jc0 26p40 34r40 26hc0 44r2c 06h8o",
+  "Europe/Sofia": "EET 120,EEST 180 *|" +
+    "12w830 05ndo 15suc 05flo 15suc 05ejc 15two 05el0 15m80 05m80 15m80 " +
+    "05u00 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05m80 " +
+    "15m80 05u00 15m4o 05m6c 15m9o 05m6c 15m9o 05m6c 15m9o 05m6c 15m9o " +
+    "05m6c 15u1o 06hac 14rao",
+  "Europe/Stockholm": "CET 60,CEST 120 *|" +
+    "137oho 05eg0 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05u00 15m80 " +
+    "05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05u00 " +
+    "15m80 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15u00",
+  "Europe/Tallinn": "MSK 180,MSD 240 *,EEST 180 *,EET 120|" +
+    "13isb0 05nac 15m9o 05nac 15m9o 05nac 15ndo 05mbc 15m80 05m80 15m80 " +
+    "05m80 15m80 05m80 15m80 05m80 25m80 35m9o 25m80 35u00 25m80 35m80 " +
+    "25m80 35m80 25m80 35m80 25m80 35m80 25m80 35m80 25u00 36hc0 24r40 " +
+    "36hc0 24r40 36hdo 24r40 36p40 2r800",
+  "Europe/Vienna": "CET 60,CEST 120 *|" +
+    "137oec 05eec 15md0 05m80 15m80 05m80 15m80 05m80 15m80 05u00 15m80 " +
+    "05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05u00 " +
+    "15m80 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15u00",
+  "Europe/Vilnius": "MSK 180,MSD 240 *,EEST 180 *,EET 120,CEST 120 *,CET 60|" +
+    "13isb0 05nac 15m9o 05nac 15m9o 05nac 15ndo 05mbc 15m80 05m80 15m80 " +
+    "05m80 15m80 05m80 15m80 05m80 25m80 35m9o 25m80 35u00 25m80 35m80 " +
+    "25m80 35m80 25m80 35m80 25m80 35m80 25m80 35m80 25u00 36hc0 24r40 " +
+    "36hc0 44r5o 56hc0 44r40 36p40 212gg0",
+  "Europe/Warsaw": "CET 60,CEST 120 *|" +
+    "129rc0 05eg0 15u00 05m80 15m80 05m80 15u00 05eg0 15m80 05m80 15m80 " +
+    "05m80 15m80 05m80 15m80 05u00 15m80 05m80 15m80 05m80 15m80 05m80 " +
+    "15m9o 05m80 15m80 05m80 15m80 05u00 15m80 05m80 15m80 05m80 15m80 " +
+    "05m80 15m80 05m80 15m80 05m80 15u00",
+  "Europe/Zagreb": "CET 60,CEST 120 *|" +
+    "14561o 05m80 15m80 05u00 15m80 05m80 15m80 05m80 15m80 05m80 15m80 " +
+    "05m80 15m80 05m80 15m80 05u00 15m80 05m80 15m80 05m80 15m80 05m80 " +
+    "15m80 05m80 15m80 05m80 15u00",
+  "Europe/Zurich": "CET 60,CEST 120 *|" +
+    "13ip5o 05m80 15m80 05m80 15m80 05m80 15m80 05u00 15m80 05m80 15m80 " +
+    "05m80 15m80 05m80 15m80 05m80 15m80 05m80 15m80 05u00 15m80 05m80 " +
+    "15m80 05m80 15m80 05m80 15m80 05m80 15m80 05m80 15u00",
+  "Pacific/Apia": "-11 -660,-10 -600 *,+14 840 *,+13 780|" +
+    "1cr7mc 05t10 15eg0 22zlc 32ueo 25m80 35u00 25eg0 35u00 25eg0 35u00 " +
+    "25eg0 35u00 25eg0 35u00 25eg0 35u00 25m80 35u00 25eg0 35u00 25eg0 " +
+    "35u00",
+  "Pacific/Auckland": "NZST 720,NZDT 780 *|" +
+    "11iivc 03gg0 17k80 043s0 17cg0 03w00 17cg0 03w00 17cg0 03w00 17cg0 " +
+    "03w00 17cg0 03w00 17cg0 043s0 17cg0 03w00 17cg0 03w00 17cg0 03w00 " +
+    "17cg0 03w00 17cg0 03w00 17cg0 043s0 17cg0 03w00 16p40 04yw0 169k0 " +
+    "04yw0 169k0 04yw0 169k0 056o0 161s0 056o0 161s0 056o0 161s0 056o0 " +
+    "169k0 04yw0 169k0 04yw0 169k0 056o0 161s0 056o0 161s0 056o0 169k0 " +
+    "04yw0 169k0 04yw0 169k0 056o0 161s0 056o0 161s0 056o0 161s0 056o0 " +
+    "161s0",
+  "Pacific/Chatham": "+1245 765,+1345 825 *|" +
+    "11iivc 03gg0 17k80 043s0 17cg0 03w00 17cg0 03w00 17cg0 03w00 17cg0 " +
+    "03w00 17cg0 03w00 17cg0 043s0 17cg0 03w00 17cg0 03w00 17cg0 03w00 " +
+    "17cg0 03w00 17cg0 03w00 17cg0 043s0 17cg0 03w00 16p40 04yw0 169k0 " +
+    "04yw0 169k0 04yw0 169k0 056o0 161s0 056o0 161s0 056o0 161s0 056o0 " +
+    "169k0 04yw0 169k0 04yw0 169k0 056o0 161s0 056o0 161s0 056o0 169k0 " +
+    "04yw0 169k0 04yw0 169k0 056o0 161s0 056o0 161s0 056o0 161s0 056o0 " +
+    "161s0",
+  "Pacific/Fiji": "+12 720,+13 780 *|" +
+    "1910nc 03o80 17s00 03gg0 131yw0 03o80 16hc0 043s0 174o0 02t40 18fc0 " +
+    "02t40 18n40 02lac 18uxo 02dk0 18uw0 02dk0 192o0 025s0 192o0 025s0 " +
+    "192o0 025s0 19ag0 01y00 1al40 0v40",
+  "Pacific/Guam": "GST 600,GDT 660 *,ChST 600|" +
+    "13jeo 043qc 174po 043qc 1pplo 025qc 1pddo 02pqd 17k9n 03vyc 27awec",
+  "Pacific/Kiritimati": "-1040 -640,-10 -600,+14 840|131w1s 24rwuw",
+  "Pacific/Noumea": "+11 660,+12 720 *|12hb1o 02mec 18m1o 02nic 15k7x0 02t40",
+  "Pacific/Tongatapu":
+    "+13 780,+14 840 *|19bido 05280 174o0 02lac 18n5o 02lac 14mkpo 025s0",
+};
+
+// Old names of the zones that are still in common use
+const zoneLinks: Record<string, string> = {
+  "Asia/Calcutta": "Asia/Kolkata",
+  "Asia/Saigon": "Asia/Ho_Chi_Minh",
+  "Asia/Katmandu": "Asia/Kathmandu",
+  "Europe/Kiev": "Europe/Kyiv",
+  "America/Godthab": "America/Nuuk",
+  "America/Buenos_Aires": "America/Argentina/Buenos_Aires",
+  "US/Alaska": "America/Anchorage",
+  "US/Arizona": "America/Phoenix",
+  "US/Central": "America/Chicago",
+  "US/Eastern": "America/New_York",
+  "US/Hawaii": "Pacific/Honolulu",
+  "US/Mountain": "America/Denver",
+  "US/Pacific": "America/Los_Angeles",
+  "Zulu": "UTC",
+};
+
+/**
+ * How a wall-clock time that doesn't exist in a time zone (in the gap when
+ * the clocks are turned forward) or exists twice (in the overlap when they
+ * are turned back) is resolved to an instant:
+ * - `"compatible"`: the later instant in a gap, i.e. the wall-clock time is
+ *   moved forward by the length of the gap, and the earlier one in an overlap
+ * - `"earlier"`: the earlier instant
+ * - `"later"`: the later instant
+ * - `"reject"`: throw a `RangeError`
+ */
+export type Disambiguation = "compatible" | "earlier" | "later" | "reject";
+
+/** A wall-clock time, e.g. as displayed in a time zone */
+export interface WallTime {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+  hour?: number;
+  minute?: number;
+  second?: number;
+  millisecond?: number;
+}
+
+// A local time type of a zone, as in TZif files
+interface ZoneType {
+  name: string;
+  // minutes east of UTC
+  offset: number;
+  dst: boolean;
+}
+
+// "Mm.w.d/time" of the POSIX TZ format
+interface TransitionRule {
+  month: number;
+  week: number;
+  weekday: number;
+  // seconds after midnight of the day, in the local time before the change
+  time: number;
+}
+
+interface ZoneRule {
+  standard: ZoneType;
+  daylight?: ZoneType;
+  start?: TransitionRule;
+  end?: TransitionRule;
+}
+
+interface ZoneHistory {
+  types: ZoneType[];
+  // the times of the transitions, ascending
+  times: number[];
+  // the index in `types` of the type each transition changes to
+  indices: number[];
+}
+
+function parseSeconds(s: string): number {
+  const sign = s.startsWith("-") ? -1 : 1;
+  const [h, m = "0", sec = "0"] = s.replace(/^[+-]/, "").split(":");
+  return sign * (Number(h) * 3600 + Number(m) * 60 + Number(sec));
+}
+
+function parseTransitionRule(s: string): TransitionRule {
+  const match = /^M(\d+)\.(\d)\.(\d)(?:\/([+-]?[\d:]+))?$/.exec(s);
+  if (!match) throw new Error(`unsupported time zone rule: ${s}`);
+  const [, month, week, weekday, time = "2"] = match;
+  return {
+    month: Number(month),
+    week: Number(week),
+    weekday: Number(weekday),
+    time: parseSeconds(time),
+  };
+}
+
+function parseZoneRule(tz: string): ZoneRule {
+  const match =
+    /^(<[^>]+>|[A-Za-z]+)([+-]?[\d:]+)(?:(<[^>]+>|[A-Za-z]+)([+-]?[\d:]+)?,([^,]+),([^,]+))?$/
+      .exec(tz);
+  if (!match) throw new Error(`invalid time zone rule: ${tz}`);
+  const [, stdName, stdOffset, dstName, dstOffset, start, end] = match;
+  const name = (s: string) => s.replace(/^<(.*)>$/, "$1");
+  // POSIX offsets are west of UTC
+  const rule: ZoneRule = {
+    standard: {
+      name: name(stdName),
+      offset: -parseSeconds(stdOffset) / 60,
+      dst: false,
+    },
+  };
+  if (dstName) {
+    rule.daylight = {
+      name: name(dstName),
+      offset: dstOffset === undefined
+        ? rule.standard.offset + 60
+        : -parseSeconds(dstOffset) / 60,
+      dst: true,
+    };
+    rule.start = parseTransitionRule(start);
+    rule.end = parseTransitionRule(end);
+  }
+  return rule;
+}
+
+function parseZoneHistory(history: string): ZoneHistory {
+  const [types, transitions] = history.split("|");
+  const result: ZoneHistory = {
+    types: types.split(",").map((type): ZoneType => {
+      const [name, offset, dst] = type.split(" ");
+      return { name, offset: Number(offset), dst: dst === "*" };
+    }),
+    times: [],
+    indices: [],
+  };
+  let time = 0;
+  for (const transition of transitions.split(" ")) {
+    result.indices.push(parseInt(transition[0], 36));
+    time += parseInt(transition.slice(1), 36) * MINUTE;
+    result.times.push(time);
+  }
+  return result;
+}
+
+// The local time, as milliseconds since the epoch, of the transition in `year`
+function transitionTime(year: number, rule: TransitionRule): number {
+  const firstWeekday = new Date(Date.UTC(year, rule.month - 1, 1)).getUTCDay();
+  let day = 1 + (rule.weekday - firstWeekday + 7) % 7 + (rule.week - 1) * 7;
+  const daysInMonth = new Date(Date.UTC(year, rule.month, 0)).getUTCDate();
+  if (day > daysInMonth) day -= 7;
+  return Date.UTC(year, rule.month - 1, day) + rule.time * 1e3;
+}
+
+let zoneIndex: Map<string, [name: string, tz: string]> | undefined;
+
+function lookupZone(name: string): [name: string, tz: string] | undefined {
+  if (!zoneIndex) {
+    zoneIndex = new Map();
+    for (const [tz, names] of Object.entries(zoneRules)) {
+      for (const name of names) zoneIndex.set(name.toLowerCase(), [name, tz]);
+    }
+    for (const [link, name] of Object.entries(zoneLinks)) {
+      zoneIndex.set(link.toLowerCase(), zoneIndex.get(name.toLowerCase())!);
+    }
+  }
+  return zoneIndex.get(name.toLowerCase());
+}
+
+/** The names of the time zones in the embedded time zone database */
+export function supportedTimeZones(): string[] {
+  return Object.values(zoneRules).flat().sort();
+}
+
+/**
+ * An IANA time zone, such as `"America/New_York"`. Converts between instants
+ * and the wall-clock time in the zone, including around the daylight saving
+ * time transitions.
+ *
+ *     const zone = TimeZone.of("America/New_York");
+ *     zone.offsetAt(new Date("2021-07-01T12:00:00Z")); // => -240
+ *     zone.toInstant({ year: 2021, month: 3, day: 14, hour: 2, minute: 30 });
+ *     // => 2021-03-14T07:30:00.000Z, as 02:30 doesn't exist that day
+ */
+export class TimeZone {
+  static #cache = new Map<string, TimeZone>();
+
+  /** The canonical name of the zone */
+  readonly name: string;
+  #rule: ZoneRule;
+  #history: ZoneHistory | undefined;
+
+  private constructor(name: string, tz: string) {
+    this.name = name;
+    this.#rule = parseZoneRule(tz);
+    const history = zoneHistories[name];
+    this.#history = history ? parseZoneHistory(history) : undefined;
+  }
+
+  /** Get the time zone of `name`, throwing a `RangeError` if it's unknown */
+  static of(name: string): TimeZone {
+    const found = lookupZone(name);
+    if (!found) throw new RangeError(`unknown time zone: ${name}`);
+    let zone = TimeZone.#cache.get(found[0]);
+    if (!zone) {
+      zone = new TimeZone(...found);
+      TimeZone.#cache.set(found[0], zone);
+    }
+    return zone;
+  }
+
+  /** The offset from UTC in minutes at `date`, positive east of UTC */
+  offsetAt(date: Date | number): number {
+    return this.#typeAt(date.valueOf()).offset;
+  }
+
+  /** Whether daylight saving time is in effect at `date` */
+  isDst(date: Date | number): boolean {
+    return this.#typeAt(date.valueOf()).dst;
+  }
+
+  /** The abbreviation of the zone at `date`, e.g. `"EDT"` or `"+0530"` */
+  abbreviationAt(date: Date | number): string {
+    return this.#typeAt(date.valueOf()).name;
+  }
+
+  /** The wall-clock time in the zone at `date` */
+  toWallTime(date: Date | number): WallTime {
+    const local = new Date(date.valueOf() + this.offsetAt(date) * MINUTE);
+    return {
+      year: local.getUTCFullYear(),
+      month: local.getUTCMonth() + 1,
+      day: local.getUTCDate(),
+      hour: local.getUTCHours(),
+      minute: local.getUTCMinutes(),
+      second: local.getUTCSeconds(),
+      millisecond: local.getUTCMilliseconds(),
+    };
+  }
+
+  /**
+   * The instants at which the zone shows `wallTime`, in ascending order. It
+   * is empty in a gap and holds two instants in an overlap.
+   */
+  possibleInstants(wallTime: WallTime): Date[] {
+    const local = wallTimeToMs(wallTime);
+    // the offsets in effect around the wall-clock time, latest offset first
+    const offsets = [
+      ...new Set([this.offsetAt(local - DAY), this.offsetAt(local + DAY)]),
+    ].sort((a, b) => b - a);
+    return offsets
+      .map((offset) => local - offset * MINUTE)
+      .filter((t) => local - this.offsetAt(t) * MINUTE === t)
+      .map((t) => new Date(t));
+  }
+
+  /** The instant at which the zone shows `wallTime` */
+  toInstant(
+    wallTime: WallTime,
+    disambiguation: Disambiguation = "compatible",
+  ): Date {
+    const instants = this.possibleInstants(wallTime);
+    if (instants.length === 1) return instants[0];
+    if (disambiguation === "reject") {
+      throw new RangeError(
+        `${formatWallTime(wallTime)} ${
+          instants.length === 0 ? "doesn't exist" : "is ambiguous"
+        } in ${this.name}`,
+      );
+    }
+    if (instants.length === 2) {
+      return disambiguation === "later" ? instants[1] : instants[0];
+    }
+    // In a gap, use the offsets before and after it
+    const local = wallTimeToMs(wallTime);
+    const before = this.offsetAt(local - DAY);
+    const after = this.offsetAt(local + DAY);
+    const offset = disambiguation === "earlier" ? after : before;
+    return new Date(local - offset * MINUTE);
+  }
+
+  // The type in effect at `time`, from the history of the zone up to its last
+  // transition and from its rule after it
+  #typeAt(time: number): ZoneType {
+    const history = this.#history;
+    if (history && time < history.times[history.times.length - 1]) {
+      // the number of transitions at or before `time`
+      let low = 0;
+      let high = history.times.length;
+      while (low < high) {
+        const middle = (low + high) >>> 1;
+        if (history.times[middle] <= time) low = middle + 1;
+        else high = middle;
+      }
+      return history.types[low === 0 ? 0 : history.indices[low - 1]];
+    }
+    const { standard, daylight, start, end } = this.#rule;
+    if (!daylight || !start || !end) return standard;
+    const year = new Date(time).getUTCFullYear();
+    const startTime = transitionTime(year, start) - standard.offset * MINUTE;
+    const endTime = transitionTime(year, end) - daylight.offset * MINUTE;
+    const isDst = startTime < endTime
+      ? startTime <= time && time < endTime
+      : time < endTime || startTime <= time;
+    return isDst ? daylight : standard;
+  }
+}
+
+function wallTimeToMs(wallTime: WallTime): number {
+  const date = new Date(0);
+  date.setUTCFullYear(wallTime.year, wallTime.month - 1, wallTime.day);
+  date.setUTCHours(
+    wallTime.hour ?? 0,
+    wallTime.minute ?? 0,
+    wallTime.second ?? 0,
+    wallTime.millisecond ?? 0,
+  );
+  return date.getTime();
+}
+
+function formatWallTime(wallTime: WallTime): string {
+  return new Date(wallTimeToMs(wallTime)).toISOString().slice(0, -1);
+}
@@ -7,6 +7,7 @@
 import { BufReader } from "../io/bufio.ts";
 import { TextProtoReader } from "../textproto/mod.ts";
 import { StringReader } from "../io/readers.ts";
+import { readerFromStreamReader } from "../io/streams.ts";
 import { assert } from "../_util/assert.ts";
 
 export { NEWLINE, stringify, StringifyError } from "./csv_stringify.ts";
@@ -94,22 +95,30 @@ function chkOptions(opt: ReadOptions): void {
   }
 }
 
+/** A record with the lines it spans, 1-indexed */
+interface ParsedRecord {
+  /** The fields, empty for a blank or comment line */
+  fields: string[];
+  startLine: number;
+  endLine: number;
+}
+
 async function readRecord(
   startLine: number,
   reader: BufReader,
   opt: ReadOptions = { separator: ",", trimLeadingSpace: false },
-): Promise<string[] | null> {
+): Promise<ParsedRecord | null> {
   const tp = new TextProtoReader(reader);
   let line = await readLine(tp);
   let lineIndex = startLine + 1;
 
   if (line === null) return null;
   if (line.length === 0) {
-    return [];
+    return { fields: [], startLine: lineIndex, endLine: lineIndex };
   }
   // line starting with comment character is ignored
   if (opt.comment && line[0] === opt.comment) {
-    return [];
+    return { fields: [], startLine: lineIndex, endLine: lineIndex };
   }
 
   assert(opt.separator != null);
@@ -245,7 +254,7 @@ async function readRecord(
     result.push(recordBuffer.slice(preIdx, i));
     preIdx = i;
   }
-  return result;
+  return { fields: result, startLine: startLine + 1, endLine: lineIndex };
 }
 
 async function isEOF(tp: TextProtoReader): Promise<boolean> {
@@ -296,38 +305,51 @@ export async function readMatrix(
   },
 ): Promise<string[][]> {
   const result: string[][] = [];
+  for await (const { fields } of readParsedRecords(reader, opt)) {
+    result.push(fields);
+  }
+  return result;
+}
+
+// Read the non-empty records one at a time, checking their field count
+async function* readParsedRecords(
+  reader: BufReader,
+  opt: ReadOptions,
+): AsyncIterableIterator<ParsedRecord> {
   let _nbFields: number | undefined;
-  let lineResult: string[];
   let first = true;
   let lineIndex = 0;
   chkOptions(opt);
 
   for (;;) {
-    const r = await readRecord(lineIndex, reader, opt);
-    if (r === null) break;
-    lineResult = r;
-    lineIndex++;
+    const record = await readRecord(lineIndex, reader, opt);
+    if (record === null) break;
+    lineIndex = record.endLine;
     // If fieldsPerRecord is 0, Read sets it to
     // the number of fields in the first record
     if (first) {
       first = false;
       if (opt.fieldsPerRecord !== undefined) {
         if (opt.fieldsPerRecord === 0) {
-          _nbFields = lineResult.length;
+          _nbFields = record.fields.length;
         } else {
           _nbFields = opt.fieldsPerRecord;
         }
       }
     }
 
-    if (lineResult.length > 0) {
-      if (_nbFields && _nbFields !== lineResult.length) {
-        throw new ParseError(lineIndex, lineIndex, null, ERR_FIELD_COUNT);
+    if (record.fields.length > 0) {
+      if (_nbFields && _nbFields !== record.fields.length) {
+        throw new ParseError(
+          record.startLine,
+          record.startLine,
+          null,
+          ERR_FIELD_COUNT,
+        );
       }
-      result.push(lineResult);
+      yield record;
     }
   }
-  return result;
 }
 
 /**
@@ -395,68 +417,183 @@ export async function parse(
     skipFirstRow: false,
   },
 ): Promise<unknown[]> {
-  let r: string[][];
-  if (input instanceof BufReader) {
-    r = await readMatrix(input, opt);
-  } else {
-    r = await readMatrix(new BufReader(new StringReader(input)), opt);
+  const reader = input instanceof BufReader
+    ? input
+    : new BufReader(new StringReader(input));
+  const result: unknown[] = [];
+  for await (const { record } of readMappedRecords(reader, opt)) {
+    result.push(record);
   }
-  if (opt.skipFirstRow || opt.columns) {
-    let headers: ColumnOptions[] = [];
-    let i = 0;
-
-    if (opt.skipFirstRow) {
-      const head = r.shift();
-      assert(head != null);
-      headers = head.map(
-        (e): ColumnOptions => {
-          return {
-            name: e,
-          };
-        },
-      );
-      i++;
-    }
+  return result;
+}
 
-    if (opt.columns) {
-      if (typeof opt.columns[0] !== "string") {
-        headers = opt.columns as ColumnOptions[];
-      } else {
-        const h = opt.columns as string[];
-        headers = h.map(
-          (e): ColumnOptions => {
-            return {
-              name: e,
-            };
-          },
-        );
+/** A record of `readRecords()` with the lines it spans, 1-indexed */
+export interface RecordWithLines<T> {
+  record: T;
+  startLine: number;
+  endLine: number;
+}
+
+export interface ReadRecordsOptions extends ParseOptions {
+  /**
+   * Yield every record as `{ record, startLine, endLine }`, with the lines it
+   * spans in the input. Default is `false`
+   */
+  lineNumbers?: boolean;
+}
+
+// Read the records as parse() returns them, with their lines
+async function* readMappedRecords(
+  reader: BufReader,
+  opt: ParseOptions,
+): AsyncIterableIterator<RecordWithLines<unknown>> {
+  let headers: ColumnOptions[] | undefined;
+  if (opt.columns) {
+    headers = opt.columns.map((e: string | ColumnOptions): ColumnOptions =>
+      typeof e === "string" ? { name: e } : e
+    );
+  }
+  let skip = opt.skipFirstRow;
+
+  for await (
+    const { fields, startLine, endLine } of readParsedRecords(
+      reader,
+      opt,
+    )
+  ) {
+    if (skip) {
+      skip = false;
+      if (!headers) {
+        headers = fields.map((e): ColumnOptions => ({ name: e }));
       }
+      continue;
     }
-    return r.map((e): unknown => {
-      if (e.length !== headers.length) {
-        throw `Error number of fields line:${i}`;
-      }
-      i++;
-      const out: Record<string, unknown> = {};
-      for (let j = 0; j < e.length; j++) {
-        const h = headers[j];
-        if (h.parse) {
-          out[h.name] = h.parse(e[j]);
-        } else {
-          out[h.name] = e[j];
-        }
-      }
-      if (opt.parse) {
-        return opt.parse(out);
-      }
-      return out;
-    });
+    if (!headers) {
+      const record = opt.parse ? opt.parse(fields) : fields;
+      yield { record, startLine, endLine };
+      continue;
+    }
+    if (fields.length !== headers.length) {
+      throw new ParseError(startLine, startLine, null, ERR_FIELD_COUNT);
+    }
+    const out: Record<string, unknown> = {};
+    for (let j = 0; j < fields.length; j++) {
+      const h = headers[j];
+      out[h.name] = h.parse ? h.parse(fields[j]) : fields[j];
+    }
+    const record = opt.parse ? opt.parse(out) : out;
+    yield { record, startLine, endLine };
   }
-  if (opt.parse) {
-    return r.map((e: string[]): unknown => {
-      assert(opt.parse, "opt.parse must be set");
-      return opt.parse(e);
+}
+
+/**
+ * Parse the CSV from the `reader` one record at a time, without reading the
+ * whole input into memory. It takes the same options as `parse()`: the
+ * records are `string[]`, or objects when `opt.skipFirstRow` or `opt.columns`
+ * is set, or the values returned by `opt.parse`.
+ *
+ * A record with the wrong number of fields throws a `ParseError` with the
+ * line the record starts on, also when earlier records span several lines.
+ With `opt.lineNumbers`, every record is yielded as
+ * `{ record, startLine, endLine }` with the lines it spans.
+ *
+ * ```ts
+ * const file = await Deno.open("export.csv");
+ * for await (const record of readRecords(file, { skipFirstRow: true })) {
+ *   console.log(record);
+ * }
+ * file.close();
+ * ```
+ */
+export function readRecords(
+  reader: Deno.Reader,
+  opt: ReadOptions & {
+    skipFirstRow?: false;
+    columns?: undefined;
+    parse?: undefined;
+    lineNumbers: true;
+  },
+): AsyncIterableIterator<RecordWithLines<string[]>>;
+export function readRecords(
+  reader: Deno.Reader,
+  opt: ReadRecordsOptions & { lineNumbers: true },
+): AsyncIterableIterator<RecordWithLines<unknown>>;
+export function readRecords(
+  reader: Deno.Reader,
+  opt?: ReadOptions & {
+    skipFirstRow?: false;
+    columns?: undefined;
+    parse?: undefined;
+    lineNumbers?: false;
+  },
+): AsyncIterableIterator<string[]>;
+export function readRecords(
+  reader: Deno.Reader,
+  opt: ReadRecordsOptions,
+): AsyncIterableIterator<unknown>;
+export async function* readRecords(
+  reader: Deno.Reader,
+  opt: ReadRecordsOptions = {},
+): AsyncIterableIterator<unknown> {
+  const records = readMappedRecords(BufReader.create(reader), opt);
+  if (opt.lineNumbers) {
+    yield* records;
+    return;
+  }
+  for await (const { record } of records) {
+    yield record;
+  }
+}
+
+/**
+ * A `TransformStream` that parses CSV text into records, like
+ * `readRecords()`. Cancelling the records stops the parsing and errors the
+ * writable side, which ends a pipe into it.
+ *
+ * ```ts
+ * const file = await Deno.open("export.csv");
+ * const records = readableStreamFromReader(file)
+ *   .pipeThrough(new TextDecoderStream())
+ *   .pipeThrough(new CsvParseStream({ skipFirstRow: true }));
+ * for await (const record of records) {
+ *   console.log(record);
+ * }
+ * ```
+ */
+export class CsvParseStream implements TransformStream<string, unknown> {
+  readonly readable: ReadableStream<unknown>;
+  readonly writable: WritableStream<string>;
+
+  constructor(opt: ReadRecordsOptions = {}) {
+    const encoder = new TextEncoder();
+    const bytes = new TransformStream<string, Uint8Array>({
+      transform(chunk, controller) {
+        controller.enqueue(encoder.encode(chunk));
+      },
+    });
+    this.writable = bytes.writable;
+    const input = bytes.readable.getReader();
+    const records = readRecords(readerFromStreamReader(input), opt);
+    // Cancelling the records or failing to parse them cancels the input,
+    // which errors the writable side so that a pipe into it stops
+    this.readable = new ReadableStream({
+      async pull(controller) {
+        try {
+          const { value, done } = await records.next();
+          if (done) {
+            controller.close();
+          } else {
+            controller.enqueue(value);
+          }
+        } catch (error) {
+          controller.error(error);
+          input.cancel(error).catch(() => {});
+        }
+      },
+      async cancel(reason) {
+        await input.cancel(reason);
+        await records.return?.();
+      },
     });
   }
-  return r;
 }
@@ -6,6 +6,7 @@
 
 import { assertEquals, assertThrowsAsync } from "../testing/asserts.ts";
 import {
+  CsvParseStream,
   ERR_BARE_QUOTE,
   ERR_FIELD_COUNT,
   ERR_INVALID_DELIM,
@@ -13,9 +14,11 @@ import {
   parse,
   ParseError,
   readMatrix,
+  readRecords,
 } from "./csv.ts";
 import { StringReader } from "../io/readers.ts";
 import { BufReader } from "../io/bufio.ts";
+import { readableStreamFromIterable } from "../io/streams.ts";
 
 // Test cases for `readMatrix()`
 const testCases = [
@@ -648,3 +651,135 @@ Deno.test({
     );
   },
 });
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const result: T[] = [];
+  for await (const e of iterable) {
+    result.push(e);
+  }
+  return result;
+}
+
+Deno.test({
+  name: "[CSV] readRecords",
+  async fn() {
+    const input = 'a,b,c\n# comment\n\n"multi\nline",e,f\ng,h,i\n';
+    assertEquals(
+      await collect(readRecords(new StringReader(input), { comment: "#" })),
+      [["a", "b", "c"], ["multi\nline", "e", "f"], ["g", "h", "i"]],
+    );
+    assertEquals(
+      await collect(
+        readRecords(new StringReader(input), {
+          comment: "#",
+          skipFirstRow: true,
+          columns: [{ name: "x" }, { name: "y" }, {
+            name: "z",
+            parse: (e) => e.toUpperCase(),
+          }],
+        }),
+      ),
+      [{ x: "multi\nline", y: "e", z: "F" }, { x: "g", y: "h", z: "I" }],
+    );
+    assertEquals(
+      await collect(
+        readRecords(new StringReader(input), {
+          comment: "#",
+          skipFirstRow: true,
+          parse: (e) => (e as Record<string, string>).a,
+        }),
+      ),
+      ["multi\nline", "g"],
+    );
+
+    assertEquals(
+      await collect(
+        readRecords(new StringReader(input), {
+          comment: "#",
+          lineNumbers: true,
+        }),
+      ),
+      [
+        { record: ["a", "b", "c"], startLine: 1, endLine: 1 },
+        { record: ["multi\nline", "e", "f"], startLine: 4, endLine: 5 },
+        { record: ["g", "h", "i"], startLine: 6, endLine: 6 },
+      ],
+    );
+    assertEquals(
+      await collect(
+        readRecords(new StringReader('a,b\n"x\n\ny",z\n'), {
+          skipFirstRow: true,
+          lineNumbers: true,
+        }),
+      ),
+      [{ record: { a: "x\n\ny", b: "z" }, startLine: 2, endLine: 4 }],
+    );
+
+    // the line numbers count the lines of the multi-line record
+    const bad = 'a,b\n"x\ny\nz",c\nd\n';
+    const err = await assertThrowsAsync(() =>
+      collect(readRecords(new StringReader(bad), { fieldsPerRecord: 0 }))
+    );
+    assertEquals(err, new ParseError(5, 5, null, ERR_FIELD_COUNT));
+    assertEquals(
+      await assertThrowsAsync(() =>
+        collect(readRecords(new StringReader(bad), { columns: ["a", "b"] }))
+      ),
+      new ParseError(5, 5, null, ERR_FIELD_COUNT),
+    );
+    assertEquals(
+      await assertThrowsAsync(() =>
+        collect(readRecords(new StringReader('a\n"b\nc"d')))
+      ),
+      new ParseError(2, 3, 1, ERR_QUOTE),
+    );
+    assertEquals(
+      await assertThrowsAsync(() =>
+        collect(readRecords(new StringReader(bad), { separator: "\n" }))
+      ),
+      new Error(ERR_INVALID_DELIM),
+    );
+  },
+});
+
+Deno.test({
+  name: "[CSV] CsvParseStream",
+  async fn() {
+    const chunks = ["na", "me,age\nRick,", '70\n"Mor', 'ty",14\n'];
+    const records = readableStreamFromIterable(chunks)
+      .pipeThrough(new CsvParseStream({ skipFirstRow: true }));
+    assertEquals(await collect(records), [
+      { name: "Rick", age: "70" },
+      { name: "Morty", age: "14" },
+    ]);
+
+    const invalid = readableStreamFromIterable(['a,"b\n', 'c"d,e'])
+      .pipeThrough(new CsvParseStream());
+    assertEquals(
+      await assertThrowsAsync(() => collect(invalid)),
+      new ParseError(1, 2, 1, ERR_QUOTE),
+    );
+  },
+});
+
+Deno.test({
+  name: "[CSV] CsvParseStream cancel",
+  async fn() {
+    let sourceCancelled = false;
+    const source = new ReadableStream<string>({
+      pull(controller) {
+        controller.enqueue("a,b\n");
+      },
+      cancel() {
+        sourceCancelled = true;
+      },
+    });
+    const stream = new CsvParseStream();
+    const piped = source.pipeTo(stream.writable);
+    const reader = stream.readable.getReader();
+    assertEquals(await reader.read(), { value: ["a", "b"], done: false });
+    await reader.cancel(new Error("enough"));
+    await assertThrowsAsync(() => piped, Error, "enough");
+    assertEquals(sourceCancelled, true);
+  },
+});